@@ -9,18 +9,24 @@
  * Requirements: 1.3, 2.1, 2.3, 2.4, 2.5, 3.1, 4.1, 5.1 - Transaction viewing
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Wallet as WalletIcon, Bookmark } from 'lucide-react';
+import { ArrowLeft, Wallet as WalletIcon, Bookmark, Loader2 } from 'lucide-react';
 import { OsmosisClient } from '@/lib/blockchain/osmosis-client';
+import { FetchAbortedError, PartialFetchError } from '@/lib/blockchain/errors';
 import { WalletManager } from '@/lib/storage/wallet-manager';
-import type { Transaction } from '@/lib/blockchain/types';
+import { TransactionCache } from '@/lib/storage/transaction-cache';
+import { DenomOverrides } from '@/lib/storage/denom-overrides';
+import type { QueueStats } from '@/lib/blockchain/request-scheduler';
+import type { Amount, Transaction } from '@/lib/blockchain/types';
 import { TransactionTable } from '@/components/transaction-table';
+import { TransactionDetails } from '@/components/transaction-details';
 import { ExportButton } from '@/components/ui/export-button';
 import { WalletTracker } from '@/components/wallet-tracker';
 import { LoadingState } from '@/components/ui/loading-state';
 import { ErrorDisplay } from '@/components/ui/error-display';
+import { IncompleteHistoryBanner } from '@/components/ui/incomplete-history-banner';
 import { SuccessToast } from '@/components/ui/success-toast';
 import { ThemeToggle } from '@/components/ui/theme-toggle';
 
@@ -31,18 +37,34 @@ export default function TransactionViewerPage() {
 
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [partialFetch, setPartialFetch] = useState<PartialFetchError | null>(null);
+  const [queueStats, setQueueStats] = useState<QueueStats | null>(null);
   const [isTrackerOpen, setIsTrackerOpen] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const [saveLabel, setSaveLabel] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
+  const [selectedHash, setSelectedHash] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const denomOverrides = useMemo(() => new DenomOverrides(), []);
+  const [overridesRevision, setOverridesRevision] = useState(0);
+
+  // Token renames apply to every row and the export, including rows parsed before the rename
+  const displayedTransactions = useMemo(
+    () => denomOverrides.apply(transactions),
+    [denomOverrides, transactions, overridesRevision]
+  );
 
   useEffect(() => {
     if (address) {
       fetchTransactions();
       checkIfSaved();
     }
+
+    // Stop the previous wallet's fetch so it can't overwrite the new results
+    return () => abortControllerRef.current?.abort();
   }, [address]);
 
   const checkIfSaved = () => {
@@ -56,29 +78,84 @@ export default function TransactionViewerPage() {
     }
   };
 
-  const fetchTransactions = async () => {
-    setIsLoading(true);
+  const fetchTransactions = async (resumeCursor?: string, reparseDenoms?: string[]) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // A resume keeps the rows already loaded and continues after them
+    if (!resumeCursor) {
+      setIsLoading(true);
+      setTransactions([]);
+    }
+    setIsStreaming(true);
     setError(null);
+    setPartialFetch(null);
+    setQueueStats(null);
+
+    const client = new OsmosisClient(undefined, { overrides: denomOverrides });
+
+    // The scheduler counts requests since page load; show this fetch's share
+    const baseline = client.getQueueStats();
+    const unsubscribe = client.onQueueStats(stats => {
+      if (!controller.signal.aborted) {
+        setQueueStats({
+          ...stats,
+          completed: stats.completed - baseline.completed,
+          failed: stats.failed - baseline.failed,
+        });
+      }
+    });
 
     try {
-      const client = new OsmosisClient();
       await client.initialize();
 
       if (!client.validateAddress(address)) {
         throw new Error('Invalid Osmosis wallet address');
       }
 
-      const txs = await client.fetchTransactions(address);
-      setTransactions(txs);
+      // Render cached rows first, then each newly fetched page as it arrives
+      let total = 0;
+      const stream = new TransactionCache().sync(client, address, {
+        cursor: resumeCursor,
+        signal: controller.signal,
+        reparseDenoms,
+      });
+      for await (const page of stream) {
+        total += page.transactions.length;
+        setTransactions(prev => {
+          const known = new Set(prev.map(tx => tx.hash));
+          return [...prev, ...page.transactions.filter(tx => !known.has(tx.hash))];
+        });
 
-      if (txs.length === 0) {
+        if (total > 0) {
+          setIsLoading(false);
+        }
+      }
+
+      if (total === 0 && !resumeCursor) {
         setError('No transactions found for this wallet address');
       }
     } catch (err) {
+      // A newer fetch or unmount cancelled this one; it owns the state now
+      if (err instanceof FetchAbortedError) {
+        return;
+      }
+
+      // Keep what was loaded and let the user resume from where it stopped
+      if (err instanceof PartialFetchError) {
+        setPartialFetch(err);
+        return;
+      }
+
       console.error('Error fetching transactions:', err);
       setError(err instanceof Error ? err.message : 'Failed to fetch transactions');
     } finally {
-      setIsLoading(false);
+      unsubscribe();
+      if (!controller.signal.aborted) {
+        setIsLoading(false);
+        setIsStreaming(false);
+      }
     }
   };
 
@@ -99,6 +176,37 @@ export default function TransactionViewerPage() {
     }
   };
 
+  const handleRenameDenom = (amount: Amount) => {
+    const current = denomOverrides.getAll()[amount.denom];
+    const symbol = window.prompt(`Symbol for ${amount.denom}`, current?.symbol ?? amount.symbol);
+    if (symbol === null) {
+      return;
+    }
+
+    // Metadata can be wrong too, so the decimals of any token can be set
+    const decimals = window.prompt(
+      `Decimals of ${symbol.trim() || amount.denom} (leave empty to use the token's metadata)`,
+      current?.exponent?.toString() ?? ''
+    );
+    if (decimals === null) {
+      return;
+    }
+    const exponent = decimals.trim() === '' ? undefined : Number(decimals);
+
+    try {
+      denomOverrides.set(amount.denom, { symbol, exponent });
+      setOverridesRevision(revision => revision + 1);
+      setSuccessMessage(`Renamed token to ${symbol.trim()}`);
+
+      // Converted amounts can't be converted again, so parse them anew with the new decimals
+      if (!amount.unresolved && exponent !== current?.exponent) {
+        fetchTransactions(undefined, [amount.denom]);
+      }
+    } catch (err) {
+      window.alert(err instanceof Error ? err.message : 'Failed to rename token');
+    }
+  };
+
   const handleExportSuccess = () => {
     setSuccessMessage('CSV exported successfully!');
   };
@@ -169,7 +277,10 @@ export default function TransactionViewerPage() {
           {/* Loading State */}
           {isLoading && (
             <div className="glass p-12 rounded-2xl border border-gray-200 dark:border-gray-800">
-              <LoadingState message="Fetching transactions from Osmosis blockchain..." />
+              <LoadingState
+                message="Fetching transactions from Osmosis blockchain..."
+                stats={queueStats}
+              />
             </div>
           )}
 
@@ -177,11 +288,21 @@ export default function TransactionViewerPage() {
           {error && !isLoading && (
             <ErrorDisplay
               message={error}
-              onRetry={fetchTransactions}
+              onRetry={() => fetchTransactions()}
               onDismiss={() => setError(null)}
             />
           )}
 
+          {/* Incomplete History */}
+          {partialFetch && !isLoading && (
+            <IncompleteHistoryBanner
+              message={partialFetch.message}
+              transactionCount={transactions.length}
+              isResuming={isStreaming}
+              onResume={() => fetchTransactions(partialFetch.cursor)}
+            />
+          )}
+
           {/* Transactions */}
           {!isLoading && !error && transactions.length > 0 && (
             <>
@@ -196,13 +317,22 @@ export default function TransactionViewerPage() {
                     <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-50 mb-2">
                       Transaction History
                     </h2>
-                    <p className="text-gray-600 dark:text-gray-400">
+                    <p className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
                       Found {transactions.length} transaction{transactions.length !== 1 ? 's' : ''}
+                      {isStreaming && (
+                        <span className="inline-flex items-center gap-1.5 text-sm text-purple-500">
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          Loading more...
+                          {queueStats && queueStats.queued > 0 && ` (${queueStats.queued} requests queued)`}
+                        </span>
+                      )}
                     </p>
                   </div>
                   <ExportButton
-                    transactions={transactions}
+                    transactions={displayedTransactions}
                     walletAddress={address}
+                    disabled={isStreaming}
+                    incomplete={!!partialFetch}
                     onSuccess={handleExportSuccess}
                     onError={handleExportError}
                   />
@@ -215,13 +345,23 @@ export default function TransactionViewerPage() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: 0.1 }}
               >
-                <TransactionTable transactions={transactions} />
+                <TransactionTable
+                  transactions={displayedTransactions}
+                  onTransactionClick={setSelectedHash}
+                  onRenameDenom={handleRenameDenom}
+                />
               </motion.div>
             </>
           )}
         </div>
       </main>
 
+      {/* Transaction Details */}
+      <TransactionDetails
+        transaction={displayedTransactions.find(tx => tx.hash === selectedHash) ?? null}
+        onClose={() => setSelectedHash(null)}
+      />
+
       {/* Wallet Tracker */}
       <WalletTracker
         isOpen={isTrackerOpen}
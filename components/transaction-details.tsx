@@ -0,0 +1,213 @@
+'use client';
+
+/**
+ * Transaction Details Component
+ *
+ * Shows everything parsed from a transaction: each leg with its amounts
+ * and the proposal, position, lock, contract or denom it acted on, and the
+ * wallet's balance changes read from the events, warning when the legs
+ * don't account for them.
+ *
+ * Requirements: 2.6, 3.1 - Transaction details display
+ */
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, ExternalLink, X } from 'lucide-react';
+import type { Amount, GovernanceInfo, Transaction, TransactionLeg } from '@/lib/blockchain/types';
+import { DateFormatter } from '@/lib/utils/date-formatter';
+import { AmountFormatter } from '@/lib/utils/amount-formatter';
+
+export interface TransactionDetailsProps {
+  transaction: Transaction | null;
+  onClose: () => void;
+}
+
+/**
+ * Format vote options, e.g. "yes" or "yes 70% · abstain 30%"
+ */
+function formatVote(governance: GovernanceInfo): string {
+  const options = governance.options ?? [];
+  if (options.length === 1) {
+    return options[0].option.replace(/_/g, ' ');
+  }
+
+  return options
+    .map(({ option, weight }) => `${option.replace(/_/g, ' ')} ${parseFloat((Number(weight) * 100).toFixed(2))}%`)
+    .join(' · ');
+}
+
+/**
+ * Describe what became of a governance deposit
+ */
+function formatDepositOutcome(governance: GovernanceInfo): string {
+  switch (governance.depositOutcome) {
+    case 'refunded':
+      return governance.settledAt ? `Refunded ${DateFormatter.formatForDisplay(governance.settledAt, false)}` : 'Refunded';
+    case 'burned':
+      return governance.settledAt ? `Burned ${DateFormatter.formatForDisplay(governance.settledAt, false)}` : 'Burned';
+    case 'pending':
+      return 'Pending until the proposal ends';
+    default:
+      return 'Unknown';
+  }
+}
+
+/**
+ * A label and value row
+ */
+function Detail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-right font-mono break-all">{children}</span>
+    </div>
+  );
+}
+
+/**
+ * Format a signed balance change, e.g. "+5 USDC" or "-10.003 OSMO"
+ */
+function formatChange(amount: Amount): string {
+  const formatted = AmountFormatter.formatWithSymbol(amount);
+  return amount.value.startsWith('-') ? formatted : `+${formatted}`;
+}
+
+/**
+ * One leg with the details its type carries
+ */
+function LegDetails({ leg }: { leg: TransactionLeg }) {
+  const governance = leg.governance;
+
+  return (
+    <div className="rounded-lg border border-border/50 p-3 space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/10 text-primary capitalize">
+          {leg.type.replace(/_/g, ' ')}
+        </span>
+        {leg.source === 'event' && (
+          <span className="text-xs text-muted-foreground">from events</span>
+        )}
+      </div>
+      {leg.amounts.map((amount, index) => (
+        <Detail key={index} label={index === 0 ? 'Amount' : ''}>
+          {AmountFormatter.formatWithSymbol(amount)}
+        </Detail>
+      ))}
+      {leg.counterparty && <Detail label="Counterparty">{leg.counterparty}</Detail>}
+      {governance?.proposalId && (
+        <Detail label="Proposal">
+          #{governance.proposalId}
+          {governance.title && ` · ${governance.title}`}
+        </Detail>
+      )}
+      {governance?.options && governance.options.length > 0 && (
+        <Detail label="Vote">{formatVote(governance)}</Detail>
+      )}
+      {governance && leg.amounts.length > 0 && (
+        <Detail label="Deposit">{formatDepositOutcome(governance)}</Detail>
+      )}
+      {leg.position && leg.position.positionIds.length > 0 && (
+        <Detail label="Position">
+          #{leg.position.positionIds.join(', #')}
+          {leg.position.newPositionId && ` → #${leg.position.newPositionId}`}
+          {leg.position.poolId && ` in pool ${leg.position.poolId}`}
+        </Detail>
+      )}
+      {leg.lock?.lockId && <Detail label="Lock">#{leg.lock.lockId}</Detail>}
+      {leg.lock?.validator && <Detail label="Validator">{leg.lock.validator}</Detail>}
+      {leg.contract && (
+        <Detail label="Contract">
+          {leg.contract.label ? `${leg.contract.label} (${leg.contract.address})` : leg.contract.address}
+          {leg.contract.codeId && ` · code ${leg.contract.codeId}`}
+        </Detail>
+      )}
+      {leg.contract?.action && <Detail label="Executed">{leg.contract.action}</Detail>}
+      {leg.tokenFactory?.denom && <Detail label="Denom">{leg.tokenFactory.denom}</Detail>}
+      {leg.tokenFactory?.newAdmin && <Detail label="New admin">{leg.tokenFactory.newAdmin}</Detail>}
+      {leg.pools && <Detail label="Pools">{leg.pools.join(', ')}</Detail>}
+      {leg.executor && <Detail label="Executed by">{leg.executor}</Detail>}
+    </div>
+  );
+}
+
+export function TransactionDetails({ transaction, onClose }: TransactionDetailsProps) {
+  return (
+    <AnimatePresence>
+      {transaction && (
+        <div
+          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={onClose}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="glass p-6 rounded-2xl border border-gray-200 dark:border-gray-800 max-w-lg w-full max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900 dark:text-gray-50 capitalize">
+                  {transaction.type.replace(/_/g, ' ')}
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  {DateFormatter.formatForDisplay(transaction.timestamp)}
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+                aria-label="Close details"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {transaction.legs.map((leg, index) => (
+                <LegDetails key={index} leg={leg} />
+              ))}
+            </div>
+
+            <div className="mt-4 space-y-1.5">
+              <Detail label="Status">{transaction.status}</Detail>
+              <Detail label="Fee">
+                {AmountFormatter.formatWithSymbol(transaction.fee)}
+              </Detail>
+              {transaction.memo && <Detail label="Memo">{transaction.memo}</Detail>}
+              {transaction.balanceChanges?.map((amount, index) => (
+                <Detail key={amount.denom} label={index === 0 ? 'Balance changes' : ''}>
+                  {formatChange(amount)}
+                </Detail>
+              ))}
+            </div>
+
+            {transaction.balanceMismatches && transaction.balanceMismatches.length > 0 && (
+              <div className="mt-4 rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3 space-y-1.5">
+                <p className="flex items-center gap-1.5 text-sm font-medium text-yellow-600 dark:text-yellow-500">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  The legs above don&apos;t account for these balance changes, please review
+                </p>
+                {transaction.balanceMismatches.map(mismatch => (
+                  <Detail key={mismatch.denom} label={mismatch.symbol}>
+                    expected {mismatch.expected}, actual {mismatch.actual}
+                  </Detail>
+                ))}
+              </div>
+            )}
+
+            <a
+              href={`https://www.mintscan.io/osmosis/txs/${transaction.hash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-4 inline-flex items-center gap-1 text-sm text-primary hover:underline"
+            >
+              View on Mintscan
+              <ExternalLink className="h-3.5 w-3.5" />
+            </a>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -10,22 +10,268 @@
 
 import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { ArrowUpDown, ExternalLink } from 'lucide-react';
-import type { Transaction } from '@/lib/blockchain/types';
+import { AlertTriangle, ArrowDownLeft, ArrowUpDown, ArrowUpRight, ExternalLink, HelpCircle, Pencil, Repeat } from 'lucide-react';
+import type { Amount, Transaction, TransactionLeg, TransferDirection } from '@/lib/blockchain/types';
 import { DateFormatter } from '@/lib/utils/date-formatter';
 import { AmountFormatter } from '@/lib/utils/amount-formatter';
 
 export interface TransactionTableProps {
   transactions: Transaction[];
   onTransactionClick?: (hash: string) => void;
+  /** Called when the user asks to rename an unknown or custom token */
+  onRenameDenom?: (amount: Amount) => void;
 }
 
 type SortField = 'timestamp' | 'type' | 'amount' | 'status';
 type SortDirection = 'asc' | 'desc';
 
+/**
+ * Legs worth showing: those that move tokens
+ */
+function visibleLegs(tx: Transaction): TransactionLeg[] {
+  return tx.legs.filter(leg => leg.amounts.length > 0);
+}
+
+/**
+ * Shorten an address for display
+ */
+function shortAddress(address: string): string {
+  return address.length > 20 ? `${address.slice(0, 10)}...${address.slice(-6)}` : address;
+}
+
+/**
+ * Format a lock duration, e.g. "14 days"
+ */
+function formatDuration(seconds: number): string {
+  if (seconds % 86400 === 0) {
+    return seconds === 86400 ? '1 day' : `${seconds / 86400} days`;
+  }
+  return seconds % 3600 === 0 ? `${seconds / 3600}h` : `${seconds}s`;
+}
+
+/**
+ * In/out indicator for a transfer
+ */
+function DirectionIcon({ direction }: { direction?: TransferDirection }) {
+  if (direction === 'in') {
+    return <ArrowDownLeft className="h-3.5 w-3.5 shrink-0 text-green-500" aria-label="Received" />;
+  }
+  if (direction === 'out') {
+    return <ArrowUpRight className="h-3.5 w-3.5 shrink-0 text-red-500" aria-label="Sent" />;
+  }
+  if (direction === 'self') {
+    return <Repeat className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Self transfer" />;
+  }
+  return null;
+}
+
+/**
+ * Counterparty of a transfer, e.g. "from osmo1abc...xyz"
+ */
+function Counterparty({ direction, counterparty }: { direction?: TransferDirection; counterparty?: string }) {
+  if (!counterparty || direction === 'self') {
+    return null;
+  }
+
+  return (
+    <span className="text-xs text-muted-foreground font-mono" title={counterparty}>
+      {direction === 'in' ? 'from' : 'to'} {shortAddress(counterparty)}
+    </span>
+  );
+}
+
+/**
+ * A formatted amount, flagging tokens whose decimals are unknown
+ * 
+ * Unresolved tokens and tokens with a path-style denom (IBC, factory)
+ * offer a rename button when onRename is given.
+ */
+function AmountText({ amount, onRename }: { amount: Amount; onRename?: (amount: Amount) => void }) {
+  const renameButton = onRename && (amount.unresolved || amount.denom.includes('/')) && (
+    <button
+      type="button"
+      className="p-0.5 rounded text-muted-foreground hover:text-foreground transition-colors"
+      title={`Rename ${amount.denom}`}
+      onClick={event => {
+        // Don't open the transaction the row links to
+        event.stopPropagation();
+        onRename(amount);
+      }}
+    >
+      <Pencil className="h-3 w-3" />
+    </button>
+  );
+
+  if (!amount.unresolved) {
+    return (
+      <span className="inline-flex items-center gap-1">
+        {AmountFormatter.formatWithSymbol(amount, 6)}
+        {renameButton}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-yellow-600 dark:text-yellow-500"
+      title={`Unknown token ${amount.denom}: amount shown in base units`}
+    >
+      {AmountFormatter.formatWithSymbol(amount, 0)}
+      <HelpCircle className="h-3 w-3 shrink-0" aria-label="Unresolved token" />
+      {renameButton}
+    </span>
+  );
+}
+
+/**
+ * Amounts of a transaction
+ * 
+ * Single-leg transactions show their amounts; multi-leg transactions list
+ * every leg with its type.
+ */
+function TransactionAmounts({ tx, onRenameDenom }: { tx: Transaction; onRenameDenom?: (amount: Amount) => void }) {
+  const legs = visibleLegs(tx);
+
+  if (legs.length > 1) {
+    return (
+      <div className="space-y-1.5">
+        {legs.map((leg, i) => (
+          <div key={i} className="flex items-baseline gap-2">
+            <span className="inline-flex w-24 shrink-0 items-center gap-1 text-xs text-muted-foreground capitalize">
+              <DirectionIcon direction={leg.direction} />
+              {leg.type.replace(/_/g, ' ')}
+            </span>
+            <div className="space-y-0.5">
+              {leg.amounts.map((amount, j) => (
+                <div key={j} className="text-sm font-mono">
+                  <AmountText amount={amount} onRename={onRenameDenom} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {tx.amounts.slice(0, 2).map((amount, i) => (
+        <div key={i} className="text-sm font-mono">
+          <AmountText amount={amount} onRename={onRenameDenom} />
+        </div>
+      ))}
+      {tx.amounts.length > 2 && (
+        <div className="text-xs text-muted-foreground">
+          +{tx.amounts.length - 2} more
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Review flag for a transaction whose balance changes the legs don't account for
+ */
+function BalanceMismatchFlag({ tx }: { tx: Transaction }) {
+  if (!tx.balanceMismatches?.length) {
+    return null;
+  }
+
+  const details = tx.balanceMismatches
+    .map(mismatch => `${mismatch.symbol}: expected ${mismatch.expected}, actual ${mismatch.actual}`)
+    .join('\n');
+
+  return (
+    <span title={`Balance changes differ from the parsed transaction, please review:\n${details}`}>
+      <AlertTriangle className="h-3.5 w-3.5 text-yellow-500" aria-label="Needs review" />
+    </span>
+  );
+}
+
+/**
+ * Type badge with the transfer direction and counterparty, noting how
+ * many messages a batched transaction holds, who executed it via authz,
+ * which liquidity position, lock, proposal, contract or token factory
+ * denom it acted on and which pools it swapped through
+ */
+function TypeBadge({ tx }: { tx: Transaction }) {
+  const messageCount = tx.legs.filter(leg => leg.source === 'message').length;
+  const executor = tx.legs.find(leg => leg.executor)?.executor;
+  const position = tx.legs.find(leg => leg.source === 'message' && leg.position?.positionIds.length)?.position;
+  const lock = tx.legs.find(leg => leg.source === 'message' && leg.lock)?.lock;
+  const governance = tx.legs.find(leg => leg.source === 'message' && leg.governance?.proposalId)?.governance;
+  const contract = tx.legs.find(leg => leg.source === 'message' && leg.contract)?.contract;
+  const tokenFactory = tx.legs.find(leg => leg.source === 'message' && leg.tokenFactory)?.tokenFactory;
+  const pools = tx.type === 'swap' ? tx.legs.find(leg => leg.type === 'swap' && leg.pools)?.pools : undefined;
+
+  return (
+    <span className="inline-flex flex-col gap-1">
+      <span className="inline-flex items-center gap-1.5">
+        <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary capitalize">
+          <DirectionIcon direction={tx.direction} />
+          {tx.type.replace(/_/g, ' ')}
+        </span>
+        {messageCount > 1 && (
+          <span className="text-xs text-muted-foreground">{messageCount} msgs</span>
+        )}
+        <BalanceMismatchFlag tx={tx} />
+      </span>
+      <Counterparty direction={tx.direction} counterparty={tx.counterparty} />
+      {position && (
+        <span
+          className="text-xs text-muted-foreground font-mono"
+          title={position.lowerTick !== undefined ? `Ticks ${position.lowerTick} to ${position.upperTick}` : undefined}
+        >
+          position #{position.positionIds.join(', #')}
+          {position.newPositionId && ` → #${position.newPositionId}`}
+          {position.poolId && ` in pool ${position.poolId}`}
+        </span>
+      )}
+      {lock && (lock.lockId || lock.durationSeconds !== undefined) && (
+        <span className="text-xs text-muted-foreground font-mono" title={lock.validator}>
+          {lock.lockId ? `lock #${lock.lockId}` : 'lock'}
+          {lock.durationSeconds !== undefined && ` · ${formatDuration(lock.durationSeconds)}`}
+        </span>
+      )}
+      {governance && (
+        <span className="text-xs text-muted-foreground font-mono" title={governance.title}>
+          proposal #{governance.proposalId}
+          {governance.options?.length === 1 && ` · ${governance.options[0].option.replace(/_/g, ' ')}`}
+          {governance.options && governance.options.length > 1 && ' · weighted'}
+          {governance.depositOutcome && governance.depositOutcome !== 'pending' && ` · ${governance.depositOutcome}`}
+        </span>
+      )}
+      {contract && (
+        <span className="text-xs text-muted-foreground font-mono" title={contract.address}>
+          {contract.action ? `${contract.action} on ` : 'contract '}
+          {contract.label || shortAddress(contract.address)}
+        </span>
+      )}
+      {tokenFactory && (
+        <span className="text-xs text-muted-foreground font-mono" title={tokenFactory.denom}>
+          {tokenFactory.denom.split('/').slice(2).join('/') || tokenFactory.denom}
+          {tokenFactory.newAdmin && ` → ${shortAddress(tokenFactory.newAdmin)}`}
+        </span>
+      )}
+      {pools && (
+        <span className="text-xs text-muted-foreground font-mono">
+          {pools.length === 1 ? 'pool' : 'pools'} {pools.join(', ')}
+        </span>
+      )}
+      {executor && (
+        <span className="text-xs text-muted-foreground font-mono" title={executor}>
+          via {shortAddress(executor)}
+        </span>
+      )}
+    </span>
+  );
+}
+
 export function TransactionTable({
   transactions,
   onTransactionClick,
+  onRenameDenom,
 }: TransactionTableProps) {
   const [sortField, setSortField] = useState<SortField>('timestamp');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
@@ -154,24 +400,11 @@ export function TransactionTable({
                     </div>
                   </td>
                   <td className="p-4">
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary capitalize">
-                      {tx.type.replace('_', ' ')}
-                    </span>
+                    <TypeBadge tx={tx} />
                   </td>
                   <td className="p-4">
-                    {tx.amounts.length > 0 ? (
-                      <div className="space-y-1">
-                        {tx.amounts.slice(0, 2).map((amount, i) => (
-                          <div key={i} className="text-sm font-mono">
-                            {AmountFormatter.formatWithSymbol(amount, 6)}
-                          </div>
-                        ))}
-                        {tx.amounts.length > 2 && (
-                          <div className="text-xs text-muted-foreground">
-                            +{tx.amounts.length - 2} more
-                          </div>
-                        )}
-                      </div>
+                    {tx.amounts.length > 0 || visibleLegs(tx).length > 0 ? (
+                      <TransactionAmounts tx={tx} onRenameDenom={onRenameDenom} />
                     ) : (
                       <span className="text-sm text-muted-foreground">-</span>
                     )}
@@ -216,9 +449,7 @@ export function TransactionTable({
             onClick={() => handleTransactionClick(tx.hash)}
           >
             <div className="flex items-start justify-between mb-3">
-              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary capitalize">
-                {tx.type.replace('_', ' ')}
-              </span>
+              <TypeBadge tx={tx} />
               <span
                 className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                   tx.status === 'success'
@@ -240,21 +471,10 @@ export function TransactionTable({
                 </div>
               </div>
 
-              {tx.amounts.length > 0 && (
+              {(tx.amounts.length > 0 || visibleLegs(tx).length > 0) && (
                 <div>
                   <div className="text-xs text-muted-foreground mb-1">Amount</div>
-                  <div className="space-y-1">
-                    {tx.amounts.slice(0, 2).map((amount, i) => (
-                      <div key={i} className="text-sm font-mono">
-                        {AmountFormatter.formatWithSymbol(amount, 6)}
-                      </div>
-                    ))}
-                    {tx.amounts.length > 2 && (
-                      <div className="text-xs text-muted-foreground">
-                        +{tx.amounts.length - 2} more
-                      </div>
-                    )}
-                  </div>
+                  <TransactionAmounts tx={tx} onRenameDenom={onRenameDenom} />
                 </div>
               )}
 
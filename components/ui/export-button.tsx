@@ -11,7 +11,7 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Download, Check } from 'lucide-react';
+import { Download, Check, AlertTriangle } from 'lucide-react';
 import type { Transaction } from '@/lib/blockchain/types';
 import { CSVExporter } from '@/lib/export/csv-exporter';
 
@@ -19,6 +19,8 @@ interface ExportButtonProps {
   transactions: Transaction[];
   walletAddress: string;
   disabled?: boolean;
+  /** Whether the transactions are only part of the wallet history */
+  incomplete?: boolean;
   onSuccess?: () => void;
   onError?: (error: Error) => void;
 }
@@ -27,6 +29,7 @@ export function ExportButton({
   transactions,
   walletAddress,
   disabled = false,
+  incomplete = false,
   onSuccess,
   onError,
 }: ExportButtonProps) {
@@ -38,6 +41,28 @@ export function ExportButton({
       return;
     }
 
+    // Make sure a partial history isn't mistaken for a complete tax export
+    if (
+      incomplete &&
+      !window.confirm(
+        'This wallet history is incomplete: some transactions failed to load and will be missing from the CSV. Export anyway?'
+      )
+    ) {
+      return;
+    }
+
+    // Amounts of tokens with unknown decimals would be exported in base units
+    const exporter = new CSVExporter();
+    const unresolved = exporter.getUnresolvedDenoms(transactions);
+    if (
+      unresolved.length > 0 &&
+      !window.confirm(
+        `${unresolved.length} token(s) have unknown decimals: ${unresolved.join(', ')}. Their amounts will be exported in base units and marked in the Notes column. Set their decimals first with the rename button, or export anyway?`
+      )
+    ) {
+      return;
+    }
+
     try {
       setIsExporting(true);
 
@@ -45,8 +70,7 @@ export function ExportButton({
       await new Promise(resolve => setTimeout(resolve, 300));
 
       // Export to CSV
-      const exporter = new CSVExporter();
-      const csv = exporter.exportToAwakenTax(transactions);
+      const csv = exporter.exportToAwakenTax(transactions, walletAddress);
       exporter.downloadCSV(csv, walletAddress);
 
       // Show success animation
@@ -105,7 +129,7 @@ export function ExportButton({
 
       {/* Download icon */}
       {!isExporting && !showSuccess && (
-        <Download className="w-5 h-5" />
+        incomplete ? <AlertTriangle className="w-5 h-5" /> : <Download className="w-5 h-5" />
       )}
 
       {/* Button text */}
@@ -116,6 +140,8 @@ export function ExportButton({
           ? 'Exported!'
           : isEmpty
           ? 'No Transactions'
+          : incomplete
+          ? 'Export Partial CSV'
           : 'Export to CSV'}
       </span>
 
@@ -0,0 +1,76 @@
+'use client';
+
+/**
+ * IncompleteHistoryBanner component
+ * 
+ * Warns that only part of the wallet history was fetched and offers to
+ * resume fetching from where it stopped.
+ * 
+ * Requirements: 9.1, 9.2 - Error handling and user feedback
+ */
+
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+export interface IncompleteHistoryBannerProps {
+  /** Why the fetch stopped */
+  message: string;
+  
+  /** Number of transactions fetched so far */
+  transactionCount: number;
+  
+  /** Whether a resume is in progress */
+  isResuming?: boolean;
+  
+  /** Callback for resume action */
+  onResume: () => void;
+}
+
+/**
+ * IncompleteHistoryBanner component
+ * 
+ * Shown above the transaction table while the loaded history is incomplete.
+ */
+export function IncompleteHistoryBanner({
+  message,
+  transactionCount,
+  isResuming = false,
+  onResume,
+}: IncompleteHistoryBannerProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.2 }}
+      className="glass rounded-lg border border-amber-500/20 bg-amber-500/10 p-4"
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex-shrink-0">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-amber-600 dark:text-amber-400">
+            Transaction history is incomplete
+          </p>
+          <p className="mt-1 text-sm text-amber-600/80 dark:text-amber-400/80">
+            Only {transactionCount} transaction{transactionCount !== 1 ? 's were' : ' was'} loaded
+            before the fetch failed. Exports will be missing the rest until it is resumed.
+          </p>
+          <p className="mt-1 text-xs text-amber-600/60 dark:text-amber-400/60">{message}</p>
+
+          <div className="mt-3">
+            <button
+              onClick={onResume}
+              disabled={isResuming}
+              className="inline-flex items-center gap-1.5 rounded-md bg-amber-500/20 px-3 py-1.5 text-sm font-medium text-amber-600 dark:text-amber-400 transition-colors hover:bg-amber-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${isResuming ? 'animate-spin' : ''}`} />
+              {isResuming ? 'Resuming...' : 'Resume'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
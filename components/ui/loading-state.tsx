@@ -0,0 +1,60 @@
+'use client';
+
+/**
+ * LoadingState component
+ *
+ * Spinner with a status message and, when given request queue stats,
+ * a progress bar for the network requests issued so far.
+ *
+ * Requirements: 2.1, 9.1 - Transaction fetching and user feedback
+ */
+
+import { Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { QueueStats } from '@/lib/blockchain/request-scheduler';
+
+export interface LoadingStateProps {
+  /** Status message shown under the spinner */
+  message?: string;
+
+  /** Request queue stats used to show progress */
+  stats?: QueueStats | null;
+}
+
+/**
+ * LoadingState component
+ *
+ * Shown while the first page of transactions is loading.
+ */
+export function LoadingState({
+  message = 'Loading...',
+  stats,
+}: LoadingStateProps) {
+  const finished = stats ? stats.completed + stats.failed : 0;
+  const total = stats ? finished + stats.active + stats.queued : 0;
+  const progress = total > 0 ? Math.round((finished / total) * 100) : 0;
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-4 text-center">
+      <Loader2 className="h-10 w-10 animate-spin text-purple-500" />
+      <p className="text-gray-600 dark:text-gray-400">{message}</p>
+
+      {stats && total > 0 && (
+        <div className="w-full max-w-xs">
+          <div className="h-1.5 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-800">
+            <motion.div
+              className="h-full bg-gradient-to-r from-purple-500 to-pink-500"
+              initial={{ width: 0 }}
+              animate={{ width: `${progress}%` }}
+              transition={{ duration: 0.2 }}
+            />
+          </div>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-500">
+            {finished} of {total} requests complete
+            {stats.queued > 0 && ` · ${stats.queued} queued`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for AssetListSource
+ *
+ * Tests cover reading symbols, exponents and IBC traces from a
+ * chain-registry asset list, telling shared symbols apart, and the
+ * bundled list.
+ */
+
+import { AssetListSource, bundledAssets, type Asset } from './asset-list';
+
+const ATOM = 'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2';
+
+function asset(base: string, symbol: string, exponent: number, viaChain?: string): Asset {
+  return {
+    denom_units: [{ denom: base, exponent: 0 }, { denom: symbol.toLowerCase(), exponent }],
+    base,
+    name: symbol,
+    display: symbol.toLowerCase(),
+    symbol,
+    traces: viaChain
+      ? [{ type: 'ibc', counterparty: { chain_name: viaChain, base_denom: `u${symbol.toLowerCase()}`, channel_id: 'channel-1' } }]
+      : undefined,
+  };
+}
+
+describe('AssetListSource', () => {
+  it('should read the symbol and display exponent of listed denoms', () => {
+    const source = new AssetListSource({ chain_name: 'osmosis', assets: [asset('uosmo', 'OSMO', 6)] });
+
+    expect(source.get('uosmo')).toEqual({ symbol: 'OSMO', exponent: 6 });
+    expect(source.get('uion')).toBeUndefined();
+  });
+
+  it('should read the origin denom and path of IBC assets', () => {
+    const atom = asset(ATOM, 'ATOM', 6, 'cosmoshub');
+    atom.traces![0].chain = { channel_id: 'channel-0', path: 'transfer/channel-0/uatom' };
+    const source = new AssetListSource({ chain_name: 'osmosis', assets: [atom] });
+
+    expect(source.get(ATOM)).toEqual({ symbol: 'ATOM', exponent: 6, baseDenom: 'uatom', path: 'transfer/channel-0' });
+  });
+
+  it('should use exponent 0 when the display unit is missing', () => {
+    const broken = { ...asset('uabc', 'ABC', 6), display: 'missing' };
+
+    expect(new AssetListSource({ chain_name: 'osmosis', assets: [broken] }).get('uabc')?.exponent).toBe(0);
+  });
+
+  it('should suffix shared symbols with the chain the asset came through', () => {
+    const source = new AssetListSource({
+      chain_name: 'osmosis',
+      assets: [
+        asset('ibc/AXL', 'USDC', 6, 'axelar'),
+        asset('ibc/NOBLE', 'USDC', 6, 'noble'),
+        asset('factory/osmo1x/usdc', 'USDC', 6),
+        asset('uosmo', 'OSMO', 6),
+      ],
+    });
+
+    expect(source.get('ibc/AXL')?.symbol).toBe('USDC.axelar');
+    expect(source.get('ibc/NOBLE')?.symbol).toBe('USDC.noble');
+    expect(source.get('factory/osmo1x/usdc')?.symbol).toBe('USDC.osmosis');
+    expect(source.get('uosmo')?.symbol).toBe('OSMO');
+  });
+
+  it('should show assets that still share a symbol by their full denom', () => {
+    const source = new AssetListSource({
+      chain_name: 'osmosis',
+      assets: [asset('ibc/ETH', 'USDT', 6, 'axelar'), asset('ibc/ARB', 'USDT', 6, 'axelar'), asset('ibc/NOBLE', 'USDT', 6, 'noble')],
+    });
+
+    expect(source.get('ibc/ETH')?.symbol).toBe('ibc/ETH');
+    expect(source.get('ibc/ARB')?.symbol).toBe('ibc/ARB');
+    expect(source.get('ibc/NOBLE')?.symbol).toBe('USDT.noble');
+  });
+
+  describe('bundled list', () => {
+    it('should list native, IBC and token factory assets', () => {
+      expect(bundledAssets.get('uosmo')).toEqual({ symbol: 'OSMO', exponent: 6 });
+      expect(bundledAssets.get(ATOM)).toMatchObject({ symbol: 'ATOM', exponent: 6, baseDenom: 'uatom' });
+      expect(bundledAssets.get('ibc/EA1D43981D5C9A1C4AAEA9C23BB1D4FA126BA9BC7020A25E0AE4AA841EA25DC5')).toMatchObject({
+        symbol: 'WETH.axelar',
+        exponent: 18,
+      });
+      expect(bundledAssets.get('factory/osmo1s794h9rxggytja3a4pmwul53u98k06zy2qtrdvjnfuxruh7s8yjs6cyxgd/ucdt')).toEqual({
+        symbol: 'CDT',
+        exponent: 6,
+      });
+    });
+
+    it('should give every listed asset its own symbol', async () => {
+      const { default: assetList } = await import('./assets/osmosis.assetlist.json');
+      const symbols = assetList.assets.map(listed => bundledAssets.get(listed.base)?.symbol);
+
+      expect(symbols.length).toBeGreaterThan(500);
+      expect(new Set(symbols).size).toBe(symbols.length);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Bundled Osmosis asset list
+ *
+ * A snapshot of the Cosmos chain-registry asset list for Osmosis, shipped
+ * with the app so symbols and decimals don't depend on what a node returns
+ * on the day, and exports come out the same every time. On-chain metadata
+ * only fills in denoms the list doesn't cover.
+ *
+ * assets/osmosis.assetlist.json is every asset of mainnet/osmosis in the
+ * chain-registry npm package, version 2.0.251, with its keys converted
+ * back to the registry's snake_case and only the fields AssetList declares.
+ * Replacing it changes parsing output, so bump TransactionParser.VERSION
+ * along with it.
+ *
+ * Requirements: 13.3 - Decimal precision preservation
+ */
+
+import assetListData from './assets/osmosis.assetlist.json';
+import type { DenomInfo, DenomMetadataSource } from './denom-metadata';
+
+/**
+ * A denom unit of a chain-registry asset
+ */
+export interface DenomUnit {
+  denom: string;
+  exponent: number;
+  aliases?: string[];
+}
+
+/**
+ * Where an IBC asset came from, as listed in the chain registry
+ */
+export interface AssetTrace {
+  type: string;
+  counterparty: {
+    chain_name: string;
+    base_denom: string;
+    channel_id?: string;
+  };
+  chain?: {
+    channel_id?: string;
+    path?: string;
+  };
+}
+
+/**
+ * An asset in chain-registry format
+ */
+export interface Asset {
+  description?: string;
+  denom_units: DenomUnit[];
+  type_asset?: string;
+  base: string;
+  name: string;
+  display: string;
+  symbol: string;
+  traces?: AssetTrace[];
+}
+
+/**
+ * An asset list in chain-registry format
+ */
+export interface AssetList {
+  chain_name: string;
+  assets: Asset[];
+}
+
+/**
+ * AssetListSource class
+ *
+ * Serves denom metadata from a chain-registry asset list. The registry
+ * gives several assets the same symbol (USDC bridged by Axelar, Noble,
+ * Wormhole...), which an export would merge into one currency, so shared
+ * symbols are suffixed with the chain the asset came through, and assets
+ * that still share one are shown by their full denom.
+ */
+export class AssetListSource implements DenomMetadataSource {
+  private denoms: Map<string, DenomInfo>;
+
+  /**
+   * Create a new AssetListSource
+   *
+   * @param assetList - Asset list in chain-registry format
+   */
+  constructor(assetList: AssetList) {
+    const symbols = this.distinctSymbols(assetList.assets);
+    this.denoms = new Map(assetList.assets.map(asset => [asset.base, this.toDenomInfo(asset, symbols.get(asset)!)]));
+  }
+
+  /**
+   * Get what the asset list says about a denom
+   *
+   * @param denom - Token denomination
+   * @returns Denom info, or undefined if the denom isn't listed
+   */
+  get(denom: string): DenomInfo | undefined {
+    return this.denoms.get(denom);
+  }
+
+  /**
+   * Pick a symbol for every asset that no other asset of the list shares
+   *
+   * @param assets - Chain-registry assets
+   * @returns Symbol by asset
+   */
+  private distinctSymbols(assets: Asset[]): Map<Asset, string> {
+    const count = (names: string[]) => names.reduce(
+      (counts, name) => counts.set(name, (counts.get(name) ?? 0) + 1),
+      new Map<string, number>()
+    );
+
+    const registered = count(assets.map(asset => asset.symbol));
+    const suffixed = assets.map(asset => {
+      if (registered.get(asset.symbol) === 1) {
+        return asset.symbol;
+      }
+
+      // The last IBC hop is the chain the token reached Osmosis from, e.g. USDC.axelar
+      const hop = asset.traces?.filter(trace => trace.type === 'ibc' || trace.type === 'ibc-cw20').pop();
+      return `${asset.symbol}.${hop?.counterparty.chain_name ?? 'osmosis'}`;
+    });
+    const suffixes = count(suffixed);
+
+    return new Map(assets.map((asset, index) => [
+      asset,
+      suffixes.get(suffixed[index]) === 1 ? suffixed[index] : asset.base,
+    ]));
+  }
+
+  /**
+   * Convert a chain-registry asset to denom info
+   *
+   * @param asset - Chain-registry asset
+   * @param symbol - Symbol no other listed asset has
+   * @returns Denom info
+   */
+  private toDenomInfo(asset: Asset, symbol: string): DenomInfo {
+    const display = asset.denom_units.find(unit => unit.denom === asset.display);
+    const trace = asset.traces?.find(candidate => candidate.type === 'ibc');
+    const info: DenomInfo = {
+      symbol,
+      exponent: display?.exponent ?? 0,
+    };
+
+    if (trace) {
+      info.baseDenom = trace.counterparty.base_denom;
+      if (trace.chain?.channel_id) {
+        info.path = `transfer/${trace.chain.channel_id}`;
+      }
+    }
+
+    return info;
+  }
+}
+
+/**
+ * The bundled Osmosis asset list
+ */
+export const bundledAssets = new AssetListSource(assetListData as AssetList);
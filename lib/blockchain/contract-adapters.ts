@@ -0,0 +1,339 @@
+/**
+ * CosmWasm contract adapters
+ *
+ * A MsgExecuteContract only says which contract was called with what JSON;
+ * what it meant for the wallet depends on the contract. Adapters turn an
+ * execution into typed legs, matched by contract address or by the code ID
+ * the contract was instantiated from. Executions no adapter matches fall
+ * back to the generic adapter, which derives token movements from the
+ * bank and CW20 events.
+ *
+ * Requirements: 2.6, 13.5 - Transaction parsing and type classification
+ */
+
+import type { Coin, EventLog } from './event-log';
+import type { ContractMetadataSource } from './contract-metadata';
+import type { TransactionType, TransferDirection } from './types';
+
+/**
+ * A contract execution, as handed to adapters
+ */
+export interface ContractExecution {
+  /** Contract address */
+  contract: string;
+
+  /** Account that executed the contract */
+  sender: string;
+
+  /** The tracked wallet */
+  address: string;
+
+  /** Decoded execute JSON, or undefined if it isn't valid JSON */
+  msg: any;
+
+  /** Execute message name, the single top-level key of the execute JSON */
+  action?: string;
+
+  /** Coins sent along with the execution */
+  funds: Coin[];
+
+  /** Code ID of the contract, if known */
+  codeId?: string;
+
+  /** Contract label, if known */
+  label?: string;
+
+  /** Events of the message */
+  log: EventLog;
+
+  /** Attributes of the wasm events of the message, including those of contracts it called */
+  wasmEvents: Record<string, string>[];
+}
+
+/**
+ * A leg produced by an adapter, with amounts in base units
+ */
+export interface ContractLeg {
+  /** Leg type */
+  type: TransactionType;
+
+  /** Coins moved by the leg; CW20 tokens use the denom "cw20:<token contract>" */
+  coins: Coin[];
+
+  /** Transfer direction relative to the wallet */
+  direction?: TransferDirection;
+
+  /** Address on the other side */
+  counterparty?: string;
+}
+
+/**
+ * Parses the executions of some contracts
+ */
+export interface ContractAdapter {
+  /** Adapter name, recorded on the legs it produces */
+  name: string;
+
+  /** Code IDs of the contracts the adapter handles */
+  codeIds?: string[];
+
+  /** Addresses of the contracts the adapter handles */
+  addresses?: string[];
+
+  /**
+   * Turn an execution into legs
+   *
+   * @param execution - Contract execution
+   * @returns Legs, the first standing for the message; none to fall back to the generic adapter
+   */
+  parse(execution: ContractExecution): ContractLeg[];
+}
+
+/**
+ * Result of parsing a contract execution
+ */
+export interface ParsedContractExecution {
+  /** The execution as handed to the adapter */
+  execution: ContractExecution;
+
+  /** Name of the adapter that produced the legs */
+  adapter: string;
+
+  /** Legs, the first standing for the message */
+  legs: ContractLeg[];
+}
+
+/**
+ * CW20 actions that move tokens, as reported in wasm events
+ */
+const CW20_ACTIONS = ['transfer', 'transfer_from', 'send', 'send_from', 'mint', 'burn', 'burn_from'];
+
+/**
+ * Denom used for a CW20 token
+ *
+ * @param token - Address of the CW20 token contract
+ * @returns Denom, e.g. "cw20:osmo1..."
+ */
+export function cw20Denom(token: string): string {
+  return `cw20:${token}`;
+}
+
+/**
+ * Generic contract adapter
+ *
+ * Works for any contract: the wallet's net change per denom, from the
+ * coin_spent and coin_received events plus CW20 transfer, send, mint and
+ * burn events, becomes a swap when exactly one token went out and one came
+ * in, and contract execution legs for the tokens sent and received
+ * otherwise. Without per-message events, only the funds sent along can be
+ * attributed to the message.
+ */
+export class GenericContractAdapter implements ContractAdapter {
+  readonly name = 'generic';
+
+  /**
+   * Turn an execution into legs based on the wallet's token movements
+   *
+   * @param execution - Contract execution
+   * @returns Legs, at least one
+   */
+  parse(execution: ContractExecution): ContractLeg[] {
+    const flows = this.getNetFlows(execution);
+    const toCoins = (entries: [string, bigint][]) => entries.map(([denom, amount]) => ({
+      denom,
+      amount: (amount < BigInt(0) ? -amount : amount).toString(),
+    }));
+    const sent = toCoins(Array.from(flows).filter(([, amount]) => amount < BigInt(0)));
+    const received = toCoins(Array.from(flows).filter(([, amount]) => amount > BigInt(0)));
+
+    if (sent.length === 1 && received.length === 1) {
+      return [{ type: 'swap', coins: [sent[0], received[0]] }];
+    }
+
+    const legs: ContractLeg[] = [];
+    if (sent.length > 0) {
+      legs.push({ type: 'execute_contract', coins: sent, direction: 'out', counterparty: execution.contract });
+    }
+    if (received.length > 0) {
+      legs.push({ type: 'execute_contract', coins: received, direction: 'in', counterparty: execution.contract });
+    }
+
+    return legs.length > 0 ? legs : [{ type: 'execute_contract', coins: [] }];
+  }
+
+  /**
+   * Sum the wallet's token movements caused by the execution, per denom
+   *
+   * @param execution - Contract execution
+   * @returns Net change in base units per denom (zero changes omitted)
+   */
+  private getNetFlows(execution: ContractExecution): Map<string, bigint> {
+    if (!execution.log.scoped) {
+      const flows = new Map<string, bigint>();
+      if (execution.sender === execution.address) {
+        for (const coin of execution.funds) {
+          flows.set(coin.denom, (flows.get(coin.denom) ?? BigInt(0)) - BigInt(coin.amount));
+        }
+      }
+      return flows;
+    }
+
+    const flows = execution.log.netCoinFlows(execution.address);
+    for (const event of execution.wasmEvents) {
+      if (!CW20_ACTIONS.includes(event.action) || !event._contract_address || !/^\d+$/.test(event.amount ?? '')) {
+        continue;
+      }
+
+      const denom = cw20Denom(event._contract_address);
+      const amount = BigInt(event.amount);
+      if (event.to === execution.address) {
+        flows.set(denom, (flows.get(denom) ?? BigInt(0)) + amount);
+      }
+      if (event.from === execution.address) {
+        flows.set(denom, (flows.get(denom) ?? BigInt(0)) - amount);
+      }
+    }
+
+    flows.forEach((amount, denom) => {
+      if (amount === BigInt(0)) {
+        flows.delete(denom);
+      }
+    });
+    return flows;
+  }
+}
+
+/**
+ * ContractAdapterRegistry class
+ *
+ * Adapters registered for a contract address take precedence over those
+ * registered for its code ID; the generic adapter handles the rest, and
+ * executions a matched adapter returns no legs for.
+ */
+export class ContractAdapterRegistry {
+  private byAddress: Map<string, ContractAdapter> = new Map();
+  private byCodeId: Map<string, ContractAdapter> = new Map();
+  private fallback: ContractAdapter;
+  private contracts?: ContractMetadataSource;
+
+  /**
+   * Create a new ContractAdapterRegistry
+   *
+   * @param contracts - Contract metadata, needed to match adapters by code ID
+   * @param fallback - Adapter for executions no other adapter handles (default: the generic adapter)
+   */
+  constructor(contracts?: ContractMetadataSource, fallback: ContractAdapter = new GenericContractAdapter()) {
+    this.contracts = contracts;
+    this.fallback = fallback;
+  }
+
+  /**
+   * Register an adapter for the contracts and code IDs it names
+   *
+   * A later registration for the same contract or code ID replaces the
+   * earlier one.
+   *
+   * @param adapter - Adapter to register
+   * @returns The registry, for chaining
+   */
+  register(adapter: ContractAdapter): this {
+    if (!adapter.addresses?.length && !adapter.codeIds?.length) {
+      throw new Error(`Contract adapter "${adapter.name}" must name contract addresses or code IDs`);
+    }
+
+    adapter.addresses?.forEach(address => this.byAddress.set(address, adapter));
+    adapter.codeIds?.forEach(codeId => this.byCodeId.set(String(codeId), adapter));
+    return this;
+  }
+
+  /**
+   * Find the adapter for a contract
+   *
+   * @param contract - Contract address
+   * @param codeId - Code ID of the contract, if known
+   * @returns Matching adapter, or the fallback adapter
+   */
+  find(contract: string, codeId?: string): ContractAdapter {
+    return this.byAddress.get(contract)
+      ?? (codeId !== undefined ? this.byCodeId.get(codeId) : undefined)
+      ?? this.fallback;
+  }
+
+  /**
+   * Parse a MsgExecuteContract with the adapter for its contract
+   *
+   * @param msg - The execute message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns The execution, the adapter used and the legs it produced
+   */
+  parse(msg: any, log: EventLog, address: string): ParsedContractExecution {
+    const contract = String(msg.contract ?? '');
+    const metadata = this.contracts?.get(contract);
+    const decoded = this.decodeExecuteMsg(msg.msg);
+    const keys = decoded && typeof decoded === 'object' && !Array.isArray(decoded) ? Object.keys(decoded) : [];
+
+    const execution: ContractExecution = {
+      contract,
+      sender: String(msg.sender ?? ''),
+      address,
+      msg: decoded,
+      action: keys.length === 1 ? keys[0] : undefined,
+      funds: (msg.funds || []).map((coin: any) => ({ denom: coin.denom, amount: String(coin.amount) })),
+      codeId: metadata?.codeId,
+      label: metadata?.label,
+      log,
+      wasmEvents: log.find('wasm'),
+    };
+
+    const adapter = this.find(contract, execution.codeId);
+    const legs = adapter.parse(execution);
+    if (legs.length > 0 || adapter === this.fallback) {
+      return { execution, adapter: adapter.name, legs };
+    }
+
+    return { execution, adapter: this.fallback.name, legs: this.fallback.parse(execution) };
+  }
+
+  /**
+   * Decode the execute JSON of a message
+   *
+   * Depending on how the transaction was decoded, the JSON comes as an
+   * object, a string, base64 or raw UTF-8 bytes.
+   *
+   * @param value - The msg field of the execute message
+   * @returns Decoded JSON, or undefined if it isn't valid JSON
+   */
+  private decodeExecuteMsg(value: any): any {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (typeof value === 'object' && !(value instanceof Uint8Array)) {
+      return value;
+    }
+
+    try {
+      if (value instanceof Uint8Array) {
+        return JSON.parse(this.decodeUtf8(value));
+      }
+
+      const text = String(value).trim();
+      if (text.startsWith('{')) {
+        return JSON.parse(text);
+      }
+      return JSON.parse(this.decodeUtf8(Uint8Array.from(atob(text), char => char.charCodeAt(0))));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Decode UTF-8 bytes, throwing on malformed input
+   *
+   * @param bytes - UTF-8 bytes
+   * @returns Decoded text
+   */
+  private decodeUtf8(bytes: Uint8Array): string {
+    return decodeURIComponent(Array.from(bytes, byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+  }
+}
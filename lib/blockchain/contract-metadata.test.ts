@@ -0,0 +1,77 @@
+/**
+ * Unit tests for ContractMetadataService
+ *
+ * Tests cover contract info lookups, caching and persistence, and
+ * contracts the chain knows nothing about.
+ */
+
+import { ContractMetadataService } from './contract-metadata';
+import { RequestScheduler } from './request-scheduler';
+import { RestClient } from './rest-lookup';
+
+const CONTRACT = 'osmo1nc5tatafv6eyq7llkr2gv50ff9e22mnf70qgjlv737ktmt4eswrqvlx82r';
+
+function jsonResponse(status: number, body: unknown = {}): Response {
+  return { status, ok: status >= 200 && status < 300, json: async () => body } as Response;
+}
+
+describe('ContractMetadataService', () => {
+  let fetchMock: jest.Mock;
+  let rest: RestClient;
+  let service: ContractMetadataService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    rest = new RestClient(['https://lcd.example/', 'https://lcd-backup.example'], {
+      scheduler: new RequestScheduler(),
+      pool: { maxRetries: 1, baseDelayMs: 0 },
+    });
+    service = new ContractMetadataService({ rest });
+  });
+
+  it('should look each contract up once and persist its code ID', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { contract_info: { code_id: '42', label: 'Vault' } }));
+
+    await Promise.all([service.resolve(CONTRACT), service.resolve(CONTRACT)]);
+    await expect(service.resolveAll([CONTRACT])).resolves.toBe(false);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      `https://lcd.example/cosmwasm/wasm/v1/contract/${CONTRACT}`,
+      { signal: expect.any(AbortSignal) }
+    );
+
+    const reloaded = new ContractMetadataService({ rest });
+    expect(reloaded.get(CONTRACT)).toEqual({ codeId: '42', label: 'Vault' });
+  });
+
+  it('should leave unknown contracts unresolved without failing', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404));
+
+    await expect(service.resolveAll([CONTRACT])).resolves.toBe(false);
+    expect(service.get(CONTRACT)).toBeUndefined();
+  });
+
+  it('should fail over to another endpoint when a node errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(500))
+      .mockResolvedValue(jsonResponse(200, { contract_info: { code_id: '42' } }));
+
+    await expect(service.resolve(CONTRACT)).resolves.toEqual({ codeId: '42', label: undefined });
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      `https://lcd-backup.example/cosmwasm/wasm/v1/contract/${CONTRACT}`,
+      { signal: expect.any(AbortSignal) }
+    );
+  });
+
+  it('should not take failing nodes for an unknown contract', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(500));
+
+    await expect(service.resolve(CONTRACT)).rejects.toThrow('status 500');
+
+    fetchMock.mockResolvedValue(jsonResponse(200, { contract_info: { code_id: '42' } }));
+    await expect(service.resolve(CONTRACT)).resolves.toEqual({ codeId: '42', label: undefined });
+  });
+});
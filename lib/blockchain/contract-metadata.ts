@@ -0,0 +1,80 @@
+/**
+ * Contract metadata service
+ *
+ * Resolves the code ID and label of CosmWasm contracts from the chain, so
+ * contract adapters can match every instance of a contract's code rather
+ * than single addresses.
+ *
+ * Requirements: 2.6 - Transaction details extraction
+ */
+
+import type { RequestPriority } from './request-scheduler';
+import { CachedRestLookup, type CachedRestLookupOptions } from './rest-lookup';
+
+/**
+ * What is known about a contract
+ */
+export interface ContractMetadata {
+  /** Code ID the contract was instantiated from */
+  codeId: string;
+
+  /** Label given at instantiation */
+  label?: string;
+}
+
+/**
+ * Synchronous lookup of cached contract metadata, as used by the parser
+ */
+export interface ContractMetadataSource {
+  /**
+   * Get what is known about a contract without touching the network
+   *
+   * @param address - Contract address
+   * @returns Cached contract metadata, or undefined if nothing is known
+   */
+  get(address: string): ContractMetadata | undefined;
+}
+
+/**
+ * Options for a ContractMetadataService
+ */
+export type ContractMetadataOptions = CachedRestLookupOptions;
+
+/**
+ * ContractMetadataService class
+ *
+ * A contract's code ID never changes, so a contract is looked up once.
+ */
+export class ContractMetadataService extends CachedRestLookup<ContractMetadata> implements ContractMetadataSource {
+  /**
+   * Create a new ContractMetadataService
+   *
+   * @param options - Optional REST client and storage
+   */
+  constructor(options: ContractMetadataOptions = {}) {
+    super('osmosis-contract-metadata', options);
+  }
+
+  /**
+   * Query the contract info of a contract
+   *
+   * @param address - Contract address
+   * @param priority - Scheduling priority
+   * @returns Contract metadata, or undefined if the chain has no such contract
+   */
+  protected async lookup(address: string, priority: RequestPriority): Promise<ContractMetadata | undefined> {
+    const response = await this.rest.getJson(`/cosmwasm/wasm/v1/contract/${encodeURIComponent(address)}`, priority);
+
+    const info = response?.contract_info;
+    if (!info?.code_id) {
+      return undefined;
+    }
+
+    return { codeId: String(info.code_id), label: info.label || undefined };
+  }
+}
+
+/**
+ * Contract metadata service shared by every client by default
+ */
+export const sharedContractMetadata = new ContractMetadataService();
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for DenomMetadataService
+ *
+ * Tests cover bank metadata and denom trace lookups, caching and
+ * persistence, and denoms the chain knows nothing about.
+ */
+
+import { DenomMetadataService } from './denom-metadata';
+import { RequestScheduler } from './request-scheduler';
+import { RestClient } from './rest-lookup';
+
+const ATOM = 'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2';
+const ATOM_HASH = ATOM.slice(4);
+
+function jsonResponse(status: number, body: unknown = {}): Response {
+  return { status, ok: status >= 200 && status < 300, json: async () => body } as Response;
+}
+
+const atomMetadata = {
+  metadata: {
+    base: ATOM,
+    display: 'atom',
+    symbol: 'ATOM',
+    denom_units: [
+      { denom: ATOM, exponent: 0 },
+      { denom: 'atom', exponent: 6 },
+    ],
+  },
+};
+
+const atomTrace = { denom_trace: { path: 'transfer/channel-0', base_denom: 'uatom' } };
+
+describe('DenomMetadataService', () => {
+  let fetchMock: jest.Mock;
+  let rest: RestClient;
+  let service: DenomMetadataService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    rest = new RestClient('https://lcd.example/', {
+      scheduler: new RequestScheduler(),
+      pool: { maxRetries: 0 },
+    });
+    service = new DenomMetadataService({ rest });
+  });
+
+  it('should combine bank metadata with the denom trace', async () => {
+    fetchMock.mockImplementation(async (url: string) => (
+      url.includes('denom_traces') ? jsonResponse(200, atomTrace) : jsonResponse(200, atomMetadata)
+    ));
+
+    await expect(service.resolve(ATOM)).resolves.toEqual({
+      symbol: 'ATOM',
+      exponent: 6,
+      baseDenom: 'uatom',
+      path: 'transfer/channel-0',
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      `https://lcd.example/cosmos/bank/v1beta1/denoms_metadata_by_query_string?denom=${encodeURIComponent(ATOM)}`,
+      { signal: expect.any(AbortSignal) }
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      `https://lcd.example/ibc/apps/transfer/v1/denom_traces/${ATOM_HASH}`,
+      { signal: expect.any(AbortSignal) }
+    );
+    expect(service.isResolved(ATOM)).toBe(true);
+  });
+
+  it('should keep a trace without metadata unresolved', async () => {
+    fetchMock.mockImplementation(async (url: string) => (
+      url.includes('denom_traces') ? jsonResponse(200, atomTrace) : jsonResponse(404)
+    ));
+
+    await service.resolve(ATOM);
+
+    expect(service.get(ATOM)).toEqual({ baseDenom: 'uatom', path: 'transfer/channel-0' });
+    expect(service.isResolved(ATOM)).toBe(false);
+  });
+
+  it('should look each denom up once and persist what it found', async () => {
+    fetchMock.mockImplementation(async (url: string) => (
+      url.includes('denom_traces') ? jsonResponse(200, atomTrace) : jsonResponse(200, atomMetadata)
+    ));
+
+    await Promise.all([service.resolve(ATOM), service.resolve(ATOM)]);
+    await service.resolveAll([ATOM]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const reloaded = new DenomMetadataService({ rest });
+    expect(reloaded.get(ATOM)?.symbol).toBe('ATOM');
+  });
+
+  it('should leave unknown denoms unresolved without failing', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404));
+
+    await expect(service.resolveAll([ATOM])).resolves.toBe(false);
+    expect(service.get(ATOM)).toBeUndefined();
+  });
+
+  it('should retry lookups that failed', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    await expect(service.resolve('factory/osmo1abc/milk')).rejects.toThrow('Failed to fetch');
+
+    fetchMock.mockResolvedValue(jsonResponse(404));
+    await service.resolve('factory/osmo1abc/milk');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
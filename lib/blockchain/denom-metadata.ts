@@ -0,0 +1,174 @@
+/**
+ * Denom metadata service
+ *
+ * Resolves the symbol and display exponent of a denom from the chain:
+ * bank denom metadata where the chain has it, and the IBC denom trace of
+ * ibc/<hash> denoms otherwise.
+ *
+ * Requirements: 13.3 - Decimal precision preservation
+ */
+
+import type { RequestPriority } from './request-scheduler';
+import { CachedRestLookup, type CachedRestLookupOptions } from './rest-lookup';
+
+/**
+ * What is known about a denom
+ *
+ * A denom is only resolved once its exponent is known; a trace alone names
+ * the origin denom but not how many decimals it has.
+ */
+export interface DenomInfo {
+  /** Display symbol (e.g. "ATOM") */
+  symbol?: string;
+
+  /** Exponent of the display unit (e.g. 6 for uatom → ATOM) */
+  exponent?: number;
+
+  /** Denom on the origin chain (IBC denoms only, e.g. "uatom") */
+  baseDenom?: string;
+
+  /** IBC path the token took (IBC denoms only, e.g. "transfer/channel-0") */
+  path?: string;
+}
+
+/**
+ * Synchronous lookup of cached denom metadata, as used by the parser
+ */
+export interface DenomMetadataSource {
+  /**
+   * Get what is known about a denom without touching the network
+   *
+   * @param denom - Token denomination
+   * @returns Cached denom info, or undefined if nothing is known
+   */
+  get(denom: string): DenomInfo | undefined;
+}
+
+/**
+ * Combine metadata sources, field by field, in order of precedence
+ *
+ * E.g. a user override that only renames a token keeps the exponent from
+ * the asset list.
+ *
+ * @param sources - Sources from highest to lowest precedence (undefined entries are skipped)
+ * @returns Combined source
+ */
+export function layerMetadataSources(...sources: Array<DenomMetadataSource | undefined>): DenomMetadataSource {
+  const layers = sources.filter((source): source is DenomMetadataSource => source !== undefined);
+
+  return {
+    get(denom: string): DenomInfo | undefined {
+      let combined: DenomInfo | undefined;
+
+      for (const layer of layers) {
+        const info = layer.get(denom);
+        if (!info) {
+          continue;
+        }
+
+        combined = { ...combined };
+        for (const [key, value] of Object.entries(info) as [keyof DenomInfo, any][]) {
+          if (value !== undefined && combined[key] === undefined) {
+            combined[key] = value;
+          }
+        }
+      }
+
+      return combined;
+    },
+  };
+}
+
+/**
+ * Options for a DenomMetadataService
+ */
+export type DenomMetadataOptions = CachedRestLookupOptions;
+
+/**
+ * DenomMetadataService class
+ *
+ * A denom stays unresolved, and is looked up again on a later visit, until
+ * its exponent is known.
+ */
+export class DenomMetadataService extends CachedRestLookup<DenomInfo> implements DenomMetadataSource {
+  /**
+   * Create a new DenomMetadataService
+   *
+   * @param options - Optional REST client and storage
+   */
+  constructor(options: DenomMetadataOptions = {}) {
+    super('osmosis-denom-metadata', options);
+  }
+
+  /**
+   * Check whether a denom's exponent is known
+   *
+   * @param denom - Token denomination
+   * @returns true if amounts of the denom can be converted to display units
+   */
+  isResolved(denom: string): boolean {
+    return this.get(denom)?.exponent !== undefined;
+  }
+
+  /**
+   * Query bank metadata and, for IBC denoms, the denom trace
+   *
+   * @param denom - Token denomination
+   * @param priority - Scheduling priority
+   * @returns Denom info, or undefined if the chain has none
+   */
+  protected async lookup(denom: string, priority: RequestPriority): Promise<DenomInfo | undefined> {
+    let info: DenomInfo | undefined;
+
+    const metadata = await this.rest.getJson(
+      `/cosmos/bank/v1beta1/denoms_metadata_by_query_string?denom=${encodeURIComponent(denom)}`,
+      priority
+    );
+    if (metadata?.metadata) {
+      info = this.fromBankMetadata(metadata.metadata);
+    }
+
+    if (denom.startsWith('ibc/')) {
+      const trace = await this.rest.getJson(`/ibc/apps/transfer/v1/denom_traces/${denom.slice(4)}`, priority);
+      if (trace?.denom_trace) {
+        info = { ...info, baseDenom: trace.denom_trace.base_denom, path: trace.denom_trace.path };
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Check whether a denom needs no further lookups
+   *
+   * @param info - Cached denom info
+   * @returns true once the exponent is known
+   */
+  protected isFinal(info: DenomInfo): boolean {
+    return info.exponent !== undefined;
+  }
+
+  /**
+   * Read the symbol and display exponent from bank denom metadata
+   *
+   * @param metadata - Metadata as returned by the bank module
+   * @returns Denom info, or undefined if the metadata has no display unit
+   */
+  private fromBankMetadata(metadata: any): DenomInfo | undefined {
+    const units: any[] = metadata.denom_units || [];
+    const display = units.find(unit => unit.denom === metadata.display);
+    if (!display) {
+      return undefined;
+    }
+
+    return {
+      symbol: metadata.symbol || String(metadata.display).toUpperCase(),
+      exponent: Number(display.exponent ?? 0),
+    };
+  }
+}
+
+/**
+ * Metadata service shared by every client by default
+ */
+export const sharedDenomMetadata = new DenomMetadataService();
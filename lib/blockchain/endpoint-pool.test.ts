@@ -0,0 +1,278 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for EndpointPool
+ * 
+ * Local HTTP servers stand in for the nodes so health checks, retries,
+ * failover and circuit breaking run against real requests.
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { EndpointPool } from './endpoint-pool';
+import { EndpointRequestError, FetchAbortedError } from './errors';
+
+/**
+ * A stub node answering every request with the status chosen by its handler
+ */
+interface StubNode {
+  url: string;
+  requests: number;
+  close: () => Promise<void>;
+}
+
+async function startStubNode(
+  handler: (requestNumber: number) => { status: number; delayMs?: number }
+): Promise<StubNode> {
+  const node = { requests: 0 } as StubNode;
+
+  const server = http.createServer((req, res) => {
+    node.requests += 1;
+    const { status, delayMs = 0 } = handler(node.requests);
+
+    setTimeout(() => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status }));
+    }, delayMs);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  node.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  node.close = () => new Promise(resolve => {
+    server.close(() => resolve());
+    // Drop the keep-alive sockets fetch holds open, or close() waits on them
+    server.closeAllConnections();
+  });
+  return node;
+}
+
+/**
+ * Request /status from an endpoint, throwing on HTTP errors
+ */
+async function getStatus(endpoint: string): Promise<string> {
+  const response = await fetch(`${endpoint}/status`);
+  if (!response.ok) {
+    throw new EndpointRequestError(endpoint, response.status);
+  }
+  return endpoint;
+}
+
+describe('EndpointPool', () => {
+  let nodes: StubNode[];
+
+  beforeEach(() => {
+    nodes = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(nodes.map(node => node.close()));
+  });
+
+  const stub = async (handler: (requestNumber: number) => { status: number; delayMs?: number }) => {
+    const node = await startStubNode(handler);
+    nodes.push(node);
+    return node;
+  };
+
+  it('should require at least one endpoint', () => {
+    expect(() => new EndpointPool([])).toThrow('at least one endpoint');
+  });
+
+  describe('checkHealth', () => {
+    it('should prefer the endpoint with the lowest latency', async () => {
+      const slow = await stub(() => ({ status: 200, delayMs: 150 }));
+      const fast = await stub(() => ({ status: 200 }));
+
+      const pool = new EndpointPool([slow.url, fast.url]);
+      await pool.checkHealth();
+
+      expect(pool.selectEndpoint()).toBe(fast.url);
+      expect(pool.getStatus()[0].latencyMs).toBeGreaterThan(pool.getStatus()[1].latencyMs!);
+    });
+
+    it('should rank unhealthy endpoints after healthy ones', async () => {
+      const down = await stub(() => ({ status: 503 }));
+      const up = await stub(() => ({ status: 200 }));
+
+      const pool = new EndpointPool([down.url, up.url]);
+      await pool.checkHealth();
+
+      expect(pool.selectEndpoint()).toBe(up.url);
+      expect(pool.getStatus()[0].consecutiveFailures).toBe(1);
+    });
+  });
+
+  describe('execute', () => {
+    it('should retry rate-limited requests with backoff', async () => {
+      const node = await stub(requestNumber => ({ status: requestNumber <= 2 ? 429 : 200 }));
+
+      const pool = new EndpointPool([node.url], { baseDelayMs: 20 });
+      const started = Date.now();
+
+      await expect(pool.execute(getStatus)).resolves.toBe(node.url);
+      expect(node.requests).toBe(3);
+
+      // 20ms before the first retry, doubled to 40ms before the second
+      expect(Date.now() - started).toBeGreaterThanOrEqual(60);
+    });
+
+    it('should fail over to another endpoint on server errors', async () => {
+      const broken = await stub(() => ({ status: 502 }));
+      const healthy = await stub(() => ({ status: 200 }));
+
+      const pool = new EndpointPool([broken.url, healthy.url], { baseDelayMs: 0 });
+
+      await expect(pool.execute(getStatus)).resolves.toBe(healthy.url);
+      expect(broken.requests).toBe(1);
+      expect(healthy.requests).toBe(1);
+    });
+
+    it('should fail over when an endpoint is unreachable', async () => {
+      const healthy = await stub(() => ({ status: 200 }));
+
+      // Nothing listens on a closed stub's port any more, so the connection is refused
+      const gone = await startStubNode(() => ({ status: 200 }));
+      await gone.close();
+
+      const pool = new EndpointPool([gone.url, healthy.url], { baseDelayMs: 0 });
+
+      await expect(pool.execute(getStatus)).resolves.toBe(healthy.url);
+    });
+
+    it('should not retry client errors', async () => {
+      const node = await stub(() => ({ status: 400 }));
+
+      const pool = new EndpointPool([node.url], { baseDelayMs: 0 });
+
+      await expect(pool.execute(getStatus)).rejects.toMatchObject({ status: 400 });
+      expect(node.requests).toBe(1);
+    });
+
+    it('should give up after the maximum number of retries', async () => {
+      const node = await stub(() => ({ status: 500 }));
+
+      const pool = new EndpointPool([node.url], { baseDelayMs: 0, maxRetries: 2 });
+
+      await expect(pool.execute(getStatus)).rejects.toMatchObject({ status: 500 });
+      expect(node.requests).toBe(3);
+    });
+
+    it('should stop backing off when aborted', async () => {
+      const node = await stub(() => ({ status: 503 }));
+
+      const pool = new EndpointPool([node.url], { baseDelayMs: 10000 });
+      const controller = new AbortController();
+      const pending = pool.execute(getStatus, controller.signal);
+
+      // Wait for the first attempt to fail, then abort during the backoff
+      await new Promise(resolve => setTimeout(resolve, 50));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(FetchAbortedError);
+      expect(node.requests).toBe(1);
+    });
+  });
+
+  describe('error classification', () => {
+    const urls = ['https://a.example', 'https://b.example'];
+
+    it('should retry the bad status errors of the CosmJS transport', async () => {
+      const pool = new EndpointPool(urls, { baseDelayMs: 0 });
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error('Bad status on response: 503'))
+        .mockResolvedValueOnce('ok');
+
+      await expect(pool.execute(operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry JSON-RPC internal errors', async () => {
+      const pool = new EndpointPool(urls, { baseDelayMs: 0 });
+      const rpcError = { code: -32603, message: 'Internal error', data: 'transaction indexing is disabled' };
+      const operation = jest.fn()
+        .mockRejectedValueOnce(new Error(JSON.stringify(rpcError)))
+        .mockResolvedValueOnce('ok');
+
+      await expect(pool.execute(operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry network errors reported by error code', async () => {
+      const pool = new EndpointPool(urls, { baseDelayMs: 0 });
+      const operation = jest.fn()
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+        .mockResolvedValueOnce('ok');
+
+      await expect(pool.execute(operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should rethrow programming errors without opening circuits', async () => {
+      const pool = new EndpointPool(urls, { baseDelayMs: 0, failureThreshold: 1 });
+      const operation = jest.fn().mockRejectedValue(
+        new TypeError("Cannot read properties of undefined (reading 'header')")
+      );
+
+      await expect(pool.execute(operation)).rejects.toBeInstanceOf(TypeError);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(pool.getStatus().map(status => status.circuitOpen)).toEqual([false, false]);
+    });
+
+    it('should not read statuses out of arbitrary numbers in messages', async () => {
+      const pool = new EndpointPool(urls, { baseDelayMs: 0 });
+      const operation = jest.fn().mockRejectedValue(
+        new Error('account sequence mismatch, expected 502, got 501')
+      );
+
+      await expect(pool.execute(operation)).rejects.toThrow('sequence mismatch');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaking', () => {
+    it('should skip an endpoint once its circuit opens', async () => {
+      const flaky = await stub(() => ({ status: 503 }));
+      const stable = await stub(() => ({ status: 200 }));
+
+      const pool = new EndpointPool([flaky.url, stable.url], {
+        baseDelayMs: 0,
+        failureThreshold: 2,
+      });
+
+      // Each call tries the flaky node first, until its circuit opens
+      await pool.execute(getStatus);
+      await pool.execute(getStatus);
+      expect(pool.getStatus()[0].circuitOpen).toBe(true);
+
+      await pool.execute(getStatus);
+      await pool.execute(getStatus);
+
+      expect(flaky.requests).toBe(2);
+      expect(stable.requests).toBe(4);
+    });
+
+    it('should close the circuit after the cooldown once the endpoint recovers', async () => {
+      let healthy = false;
+      const node = await stub(() => ({ status: healthy ? 200 : 503 }));
+
+      const pool = new EndpointPool([node.url], {
+        baseDelayMs: 0,
+        maxRetries: 0,
+        failureThreshold: 1,
+        cooldownMs: 50,
+      });
+
+      await expect(pool.execute(getStatus)).rejects.toMatchObject({ status: 503 });
+      expect(pool.getStatus()[0].circuitOpen).toBe(true);
+
+      healthy = true;
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      await expect(pool.execute(getStatus)).resolves.toBe(node.url);
+      expect(pool.getStatus()[0]).toMatchObject({ circuitOpen: false, consecutiveFailures: 0 });
+    });
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Endpoint pool for blockchain node access
+ * 
+ * Spreads requests over a configurable list of RPC or REST endpoints so that
+ * one flaky node doesn't break the app. Endpoints are ranked by measured
+ * latency, failed requests are retried with exponential backoff on the next
+ * best endpoint, and endpoints that keep failing are taken out of rotation
+ * for a cooldown period (circuit breaking).
+ * 
+ * Requirements: 2.1, 9.1 - Reliable transaction fetching
+ */
+
+import { EndpointRequestError, FetchAbortedError } from './errors';
+
+/**
+ * Tunables for an EndpointPool
+ */
+export interface EndpointPoolOptions {
+  /** Retries after the first attempt before giving up (default: 3) */
+  maxRetries?: number;
+  
+  /** Backoff before the first retry, doubled on each further retry (default: 250ms) */
+  baseDelayMs?: number;
+  
+  /** Upper bound for the backoff delay (default: 8000ms) */
+  maxDelayMs?: number;
+  
+  /** Consecutive failures that open an endpoint's circuit (default: 3) */
+  failureThreshold?: number;
+  
+  /** How long an open circuit keeps the endpoint out of rotation (default: 30000ms) */
+  cooldownMs?: number;
+  
+  /** Path requested by health checks (default: '/health') */
+  healthCheckPath?: string;
+  
+  /** Timeout for a single health check (default: 5000ms) */
+  healthCheckTimeoutMs?: number;
+}
+
+/**
+ * Health snapshot of a single endpoint
+ */
+export interface EndpointStatus {
+  /** Endpoint base URL */
+  url: string;
+  
+  /** Latency measured by the last health check (undefined until checked) */
+  latencyMs?: number;
+  
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  
+  /** Whether the circuit is open (endpoint temporarily skipped) */
+  circuitOpen: boolean;
+}
+
+/**
+ * Internal mutable state for an endpoint
+ */
+interface EndpointState {
+  url: string;
+  latencyMs?: number;
+  consecutiveFailures: number;
+  openUntil: number;
+}
+
+/**
+ * Error codes axios and Node report when a request never got a response
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ERR_NETWORK',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * Messages of the TypeError fetch rejects with on a network failure
+ * (Chrome, Firefox, Safari, Node)
+ */
+const FETCH_FAILURE_MESSAGES = [
+  'Failed to fetch',
+  'NetworkError when attempting to fetch resource',
+  'Load failed',
+  'fetch failed',
+];
+
+/**
+ * JSON-RPC error code for an internal node error
+ */
+const RPC_INTERNAL_ERROR = -32603;
+
+/**
+ * Read a property of a thrown value that may not be an object
+ * 
+ * @param value - Thrown value, or a value nested in it
+ * @param key - Property name
+ * @returns The property, or undefined if the value has none
+ */
+function getProperty(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null && key in value
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Read the message of a thrown value
+ * 
+ * @param value - Thrown value
+ * @returns The message, or an empty string if it has none
+ */
+function getMessage(value: unknown): string {
+  const message = getProperty(value, 'message');
+  return typeof message === 'string' ? message : '';
+}
+
+const DEFAULT_OPTIONS: Required<EndpointPoolOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 8000,
+  failureThreshold: 3,
+  cooldownMs: 30000,
+  healthCheckPath: '/health',
+  healthCheckTimeoutMs: 5000,
+};
+
+/**
+ * EndpointPool class
+ * 
+ * Runs operations against the healthiest endpoint, failing over to the
+ * others when an operation fails with a retryable error.
+ */
+export class EndpointPool {
+  private endpoints: EndpointState[];
+  private options: Required<EndpointPoolOptions>;
+
+  /**
+   * Create a new EndpointPool
+   * 
+   * @param urls - Endpoint base URLs, in order of preference
+   * @param options - Optional retry, circuit breaker and health check tunables
+   */
+  constructor(urls: string[], options: EndpointPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('EndpointPool requires at least one endpoint');
+    }
+
+    this.endpoints = urls.map(url => ({
+      url: url.replace(/\/+$/, ''),
+      consecutiveFailures: 0,
+      openUntil: 0,
+    }));
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Get the health of every endpoint in the pool
+   * 
+   * @returns Endpoint statuses in configuration order
+   */
+  getStatus(): EndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      latencyMs: endpoint.latencyMs,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      circuitOpen: endpoint.openUntil > now,
+    }));
+  }
+
+  /**
+   * Measure the latency of every endpoint
+   * 
+   * Endpoints that fail the check count a failure towards their circuit
+   * breaker; the others are ranked by how quickly they answered.
+   */
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const started = Date.now();
+
+      try {
+        const response = await fetch(`${endpoint.url}${this.options.healthCheckPath}`, {
+          signal: AbortSignal.timeout(this.options.healthCheckTimeoutMs),
+        });
+
+        if (!response.ok) {
+          throw new EndpointRequestError(endpoint.url, response.status);
+        }
+
+        endpoint.latencyMs = Date.now() - started;
+        this.recordSuccess(endpoint);
+      } catch {
+        endpoint.latencyMs = undefined;
+        this.recordFailure(endpoint);
+      }
+    }));
+  }
+
+  /**
+   * Select the endpoint to use for the next request
+   * 
+   * Prefers endpoints with a closed circuit, lowest latency first (unchecked
+   * endpoints keep their configured order after the measured ones). When
+   * every circuit is open, the one closest to reopening is tried.
+   * 
+   * @param exclude - Endpoints to skip when an alternative exists
+   * @returns Endpoint base URL
+   */
+  selectEndpoint(exclude: Set<string> = new Set()): string {
+    const now = Date.now();
+    const byLatency = [...this.endpoints].sort(
+      (a, b) => (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity)
+    );
+
+    const available = byLatency.filter(endpoint => endpoint.openUntil <= now);
+    const preferred = available.filter(endpoint => !exclude.has(endpoint.url));
+
+    if (preferred.length > 0) {
+      return preferred[0].url;
+    }
+    if (available.length > 0) {
+      return available[0].url;
+    }
+
+    return [...this.endpoints].sort((a, b) => a.openUntil - b.openUntil)[0].url;
+  }
+
+  /**
+   * Run an operation against the pool
+   * 
+   * Retryable failures (HTTP 429 and 5xx, network errors) are retried with
+   * exponential backoff, each time on the best endpoint not yet tried for
+   * this operation. Other errors are rethrown immediately.
+   * 
+   * @param operation - Operation to run against an endpoint base URL
+   * @param signal - Optional abort signal, also cancels backoff waits
+   * @returns The operation result
+   */
+  async execute<T>(
+    operation: (endpoint: string) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const tried = new Set<string>();
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await this.sleep(this.getBackoffDelay(attempt), signal);
+      }
+
+      // Once every endpoint has been tried, start another round
+      if (tried.size === this.endpoints.length) {
+        tried.clear();
+      }
+
+      const url = this.selectEndpoint(tried);
+      const endpoint = this.endpoints.find(e => e.url === url)!;
+      tried.add(url);
+
+      try {
+        const result = await operation(url);
+        this.recordSuccess(endpoint);
+        return result;
+      } catch (error) {
+        if (!this.isRetryable(error)) {
+          throw error;
+        }
+
+        this.recordFailure(endpoint);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Check whether a failed request is worth retrying
+   * 
+   * Anything that isn't recognisably a transient node or network failure,
+   * such as a bug in the operation, is rethrown without counting against
+   * the endpoint.
+   * 
+   * @param error - Error thrown by the operation
+   * @returns true for rate limits, server errors and network failures
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof FetchAbortedError) {
+      return false;
+    }
+
+    const status = this.getStatusCode(error);
+    if (status !== undefined) {
+      return status === 429 || status >= 500;
+    }
+
+    return this.isNetworkError(error) || this.isRpcInternalError(error);
+  }
+
+  /**
+   * Extract an HTTP status code from an error
+   * 
+   * Handles our own EndpointRequestError, axios errors exposing a response,
+   * and the "Bad status on response" errors of the CosmJS fetch transport.
+   * 
+   * @param error - Error thrown by the operation
+   * @returns HTTP status code, if one can be found
+   */
+  private getStatusCode(error: unknown): number | undefined {
+    const status = getProperty(error, 'status');
+    if (typeof status === 'number') {
+      return status;
+    }
+
+    const responseStatus = getProperty(getProperty(error, 'response'), 'status');
+    if (typeof responseStatus === 'number') {
+      return responseStatus;
+    }
+
+    const match = /^Bad status on response: (\d{3})$/.exec(getMessage(error));
+    return match ? Number(match[1]) : undefined;
+  }
+
+  /**
+   * Check whether an error means the request never got a response
+   * 
+   * @param error - Error thrown by the operation
+   * @returns true for refused, reset or timed out connections, timed out requests and failed fetches
+   */
+  private isNetworkError(error: unknown): boolean {
+    const codes = [getProperty(error, 'code'), getProperty(getProperty(error, 'cause'), 'code')];
+    if (codes.some(code => typeof code === 'string' && NETWORK_ERROR_CODES.has(code))) {
+      return true;
+    }
+
+    // The error of AbortSignal.timeout, for requests that got no answer in time
+    if (getProperty(error, 'name') === 'TimeoutError') {
+      return true;
+    }
+
+    // Checked by name, since fetch may throw a TypeError from another realm
+    const message = getMessage(error);
+    return getProperty(error, 'name') === 'TypeError'
+      && FETCH_FAILURE_MESSAGES.some(failure => message.includes(failure));
+  }
+
+  /**
+   * Check whether an error is a JSON-RPC internal error reported by the node
+   * 
+   * CosmJS rethrows JSON-RPC errors with the serialized error as message.
+   * 
+   * @param error - Error thrown by the operation
+   * @returns true if the node reported an internal error
+   */
+  private isRpcInternalError(error: unknown): boolean {
+    try {
+      return getProperty(JSON.parse(getMessage(error)), 'code') === RPC_INTERNAL_ERROR;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the backoff delay before a retry
+   * 
+   * @param attempt - Retry number (1 for the first retry)
+   * @returns Delay in milliseconds
+   */
+  private getBackoffDelay(attempt: number): number {
+    return Math.min(this.options.baseDelayMs * 2 ** (attempt - 1), this.options.maxDelayMs);
+  }
+
+  /**
+   * Record a successful request, closing the endpoint's circuit
+   * 
+   * @param endpoint - Endpoint state
+   */
+  private recordSuccess(endpoint: EndpointState): void {
+    endpoint.consecutiveFailures = 0;
+    endpoint.openUntil = 0;
+  }
+
+  /**
+   * Record a failed request, opening the circuit at the failure threshold
+   * 
+   * @param endpoint - Endpoint state
+   */
+  private recordFailure(endpoint: EndpointState): void {
+    endpoint.consecutiveFailures += 1;
+
+    if (endpoint.consecutiveFailures >= this.options.failureThreshold) {
+      endpoint.openUntil = Date.now() + this.options.cooldownMs;
+    }
+  }
+
+  /**
+   * Wait for the given number of milliseconds
+   * 
+   * @param ms - Delay in milliseconds
+   * @param signal - Optional abort signal, which cancels the timer
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new FetchAbortedError());
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new FetchAbortedError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Error types for the blockchain abstraction layer
+ * 
+ * Lets callers tell expected outcomes (such as a cancelled fetch) apart from
+ * genuine failures without matching on error messages.
+ */
+
+/**
+ * Thrown when a fetch is cancelled through its AbortSignal
+ */
+export class FetchAbortedError extends Error {
+  constructor(message: string = 'Transaction fetch was aborted') {
+    super(message);
+    this.name = 'FetchAbortedError';
+  }
+}
+
+/**
+ * Thrown when pagination fails part way through a fetch
+ * 
+ * Carries what is needed to resume: the cursor of the last page that was
+ * fetched successfully and how many pages had been fetched by then.
+ */
+export class PartialFetchError extends Error {
+  /** Cursor to resume the fetch from (retries the queries that failed, from the height they had reached) */
+  readonly cursor: string;
+  
+  /** Number of pages fetched before the failure */
+  readonly pagesFetched: number;
+
+  constructor(cursor: string, pagesFetched: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `Transaction history is incomplete: fetching stopped after ${pagesFetched} page${pagesFetched !== 1 ? 's' : ''} (${reason})`,
+      { cause }
+    );
+    this.name = 'PartialFetchError';
+    this.cursor = cursor;
+    this.pagesFetched = pagesFetched;
+  }
+}
+
+/**
+ * Thrown when a node answers a request with an HTTP error status
+ */
+export class EndpointRequestError extends Error {
+  /** Endpoint that returned the error */
+  readonly endpoint: string;
+  
+  /** HTTP status code */
+  readonly status: number;
+
+  constructor(endpoint: string, status: number, message?: string) {
+    super(message ?? `Request to ${endpoint} failed with status ${status}`);
+    this.name = 'EndpointRequestError';
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+/**
+ * Throw a FetchAbortedError if the signal has been aborted
+ * 
+ * @param signal - Optional abort signal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new FetchAbortedError();
+  }
+}
+
+/**
+ * Wait for a promise, rejecting early if the signal is aborted
+ * 
+ * The underlying work is not cancelled, only the wait for it; this keeps
+ * shared lookups (such as cached block times) usable by other callers.
+ * 
+ * @param promise - Promise to wait for
+ * @param signal - Optional abort signal
+ * @returns The promise result
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(new FetchAbortedError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new FetchAbortedError());
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for EventLog
+ *
+ * Tests cover coin list parsing, message scoping and balance changes.
+ */
+
+import { EventLog, type TxEvent } from './event-log';
+
+const ADDRESS = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+const OTHER = 'osmo17xpfvakm2amg962yls6f84z3kell8c5lczssa0';
+
+function event(type: string, attributes: Record<string, string>): TxEvent {
+  return { type, attributes: Object.entries(attributes).map(([key, value]) => ({ key, value })) };
+}
+
+describe('EventLog', () => {
+  describe('parseCoins', () => {
+    it('should parse native, IBC and factory denoms', () => {
+      expect(EventLog.parseCoins('1000uosmo,5ibc/27394FB0,7factory/osmo1abc/milk')).toEqual([
+        { amount: '1000', denom: 'uosmo' },
+        { amount: '5', denom: 'ibc/27394FB0' },
+        { amount: '7', denom: 'factory/osmo1abc/milk' },
+      ]);
+    });
+
+    it('should skip empty and malformed values', () => {
+      expect(EventLog.parseCoins(undefined)).toEqual([]);
+      expect(EventLog.parseCoins('')).toEqual([]);
+      expect(EventLog.parseCoins('uosmo,12')).toEqual([]);
+    });
+  });
+
+  describe('forMessage', () => {
+    it('should keep only events tagged with the message index', () => {
+      const log = new EventLog([
+        event('coin_spent', { spender: ADDRESS, amount: '5uosmo' }),
+        event('coin_spent', { spender: ADDRESS, amount: '10uosmo', msg_index: '0' }),
+        event('coin_spent', { spender: ADDRESS, amount: '20uosmo', msg_index: '1' }),
+      ]);
+
+      const scoped = log.forMessage(1, 2);
+
+      expect(scoped.scoped).toBe(true);
+      expect(scoped.find('coin_spent').map(attributes => attributes.amount)).toEqual(['20uosmo']);
+    });
+
+    it('should only scope untagged events of a single message reporting its fee', () => {
+      const withFee = new EventLog([event('tx', { fee: '5uosmo', fee_payer: ADDRESS })]);
+      const withoutFee = new EventLog([event('coin_spent', { spender: ADDRESS, amount: '5uosmo' })]);
+
+      expect(withFee.forMessage(0, 1).scoped).toBe(true);
+      expect(withFee.forMessage(0, 2).scoped).toBe(false);
+      expect(withoutFee.forMessage(0, 1).scoped).toBe(false);
+    });
+  });
+
+  describe('netCoinFlows', () => {
+    it('should net received against spent coins and drop zero changes', () => {
+      const log = new EventLog([
+        event('coin_spent', { spender: ADDRESS, amount: '100uosmo,3uion' }),
+        event('coin_received', { receiver: ADDRESS, amount: '40uosmo,3uion' }),
+        event('coin_received', { receiver: OTHER, amount: '60uosmo' }),
+      ]);
+
+      expect(Array.from(log.netCoinFlows(ADDRESS))).toEqual([['uosmo', BigInt(-60)]]);
+    });
+
+    it('should take fees reported in tx events back out', () => {
+      const log = new EventLog([
+        event('coin_spent', { spender: ADDRESS, amount: '5005uosmo' }),
+        event('tx', { fee: '5uosmo', fee_payer: ADDRESS }),
+      ]);
+
+      expect(log.netCoinFlows(ADDRESS).get('uosmo')).toBe(BigInt(-5000));
+    });
+  });
+
+  describe('balanceChanges', () => {
+    it('should include the fee', () => {
+      const log = new EventLog([
+        event('coin_spent', { spender: ADDRESS, amount: '5005uosmo' }),
+        event('coin_received', { receiver: ADDRESS, amount: '7uion' }),
+        event('tx', { fee: '5uosmo', fee_payer: ADDRESS }),
+      ]);
+
+      expect(Array.from(log.balanceChanges(ADDRESS))).toEqual([['uion', BigInt(7)], ['uosmo', BigInt(-5005)]]);
+    });
+
+    it('should fall back to transfer events without coin events', () => {
+      const log = new EventLog([
+        event('transfer', { sender: ADDRESS, recipient: OTHER, amount: '100uosmo' }),
+        event('transfer', { sender: OTHER, recipient: ADDRESS, amount: '30uosmo,2uion' }),
+      ]);
+
+      expect(Array.from(log.balanceChanges(ADDRESS))).toEqual([['uosmo', BigInt(-70)], ['uion', BigInt(2)]]);
+    });
+
+    it('should not count transfer events twice when coin events are present', () => {
+      const log = new EventLog([
+        event('coin_spent', { spender: ADDRESS, amount: '100uosmo' }),
+        event('transfer', { sender: ADDRESS, recipient: OTHER, amount: '100uosmo' }),
+      ]);
+
+      expect(log.balanceChanges(ADDRESS).get('uosmo')).toBe(BigInt(-100));
+    });
+  });
+});
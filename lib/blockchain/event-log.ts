@@ -0,0 +1,241 @@
+/**
+ * Transaction event log reader
+ *
+ * Messages only state what the sender asked for (e.g. a minimum swap
+ * output); the events emitted while executing them record what actually
+ * happened. EventLog gives the parser structured access to those events.
+ *
+ * Requirements: 2.6 - Transaction details extraction
+ */
+
+/**
+ * A key/value attribute of a transaction event
+ */
+export interface TxEventAttribute {
+  key: string;
+  value: string;
+}
+
+/**
+ * A transaction event as returned by CosmJS
+ */
+export interface TxEvent {
+  type: string;
+  attributes: readonly TxEventAttribute[];
+}
+
+/**
+ * A coin amount in base units
+ */
+export interface Coin {
+  denom: string;
+  amount: string;
+}
+
+/**
+ * EventLog class
+ *
+ * Wraps the events of one transaction, optionally narrowed down to the
+ * events of a single message.
+ */
+export class EventLog {
+  /** Whether the events are known to belong to a single message */
+  readonly scoped: boolean;
+
+  private events: readonly TxEvent[];
+
+  /**
+   * Create a new EventLog
+   *
+   * @param events - Transaction events
+   * @param scoped - Whether the events are known to belong to a single message
+   */
+  constructor(events: readonly TxEvent[] = [], scoped = false) {
+    this.events = events;
+    this.scoped = scoped;
+  }
+
+  /**
+   * Check whether the log holds any events
+   *
+   * @returns true if there are no events
+   */
+  isEmpty(): boolean {
+    return this.events.length === 0;
+  }
+
+  /**
+   * Narrow the log down to the events emitted by one message
+   *
+   * Since Cosmos SDK 0.50 every message event carries a msg_index
+   * attribute, while fee events carry none. Older transactions have no
+   * msg_index, so the whole log is returned; it still counts as scoped for
+   * a single-message transaction that reports its fee in a tx event, since
+   * netCoinFlows can then take the fee back out.
+   *
+   * @param msgIndex - Index of the message in the transaction body
+   * @param messageCount - Number of messages in the transaction body
+   * @returns Event log for the message
+   */
+  forMessage(msgIndex: number, messageCount: number): EventLog {
+    const indexed = this.events.some(event => this.attribute(event, 'msg_index') !== undefined);
+    if (!indexed) {
+      const reportsFee = this.find('tx').some(event => event.fee_payer !== undefined);
+      return new EventLog(this.events, messageCount === 1 && reportsFee);
+    }
+
+    const index = String(msgIndex);
+    return new EventLog(
+      this.events.filter(event => this.attribute(event, 'msg_index') === index),
+      true
+    );
+  }
+
+  /**
+   * Get the same events without claiming they belong to a single message
+   *
+   * Used when several messages share the events, e.g. the inner messages
+   * of an authz MsgExec.
+   *
+   * @returns Unscoped event log
+   */
+  unscoped(): EventLog {
+    return new EventLog(this.events, false);
+  }
+
+  /**
+   * Get the attributes of every event of a type, in emission order
+   *
+   * @param type - Event type (e.g. "token_swapped")
+   * @returns Attribute maps, one per event
+   */
+  find(type: string): Record<string, string>[] {
+    return this.events
+      .filter(event => event.type === type)
+      .map(event => {
+        const attributes: Record<string, string> = {};
+        for (const { key, value } of event.attributes) {
+          attributes[key] = value;
+        }
+        return attributes;
+      });
+  }
+
+  /**
+   * Sum the coins an address received minus the coins it spent, per denom
+   *
+   * The balance changes with fees reported in tx events taken back out,
+   * so only message effects remain.
+   *
+   * @param address - The wallet address
+   * @returns Net change in base units per denom (zero changes omitted)
+   */
+  netCoinFlows(address: string): Map<string, bigint> {
+    const flows = this.balanceChanges(address);
+
+    for (const event of this.find('tx')) {
+      if (event.fee_payer === address) {
+        this.addCoins(flows, EventLog.parseCoins(event.fee), BigInt(1));
+      }
+    }
+
+    return this.dropZeros(flows);
+  }
+
+  /**
+   * Sum everything that entered and left an address, per denom
+   *
+   * Based on the bank module's coin_received and coin_spent events, which
+   * cover sends, mints, burns and module transfers alike. Transactions from
+   * before the bank module emitted them only have transfer events, which
+   * are used instead. Unlike netCoinFlows, the fee is included: this is
+   * the address's whole balance change.
+   *
+   * @param address - The wallet address
+   * @returns Net change in base units per denom (zero changes omitted)
+   */
+  balanceChanges(address: string): Map<string, bigint> {
+    const changes = new Map<string, bigint>();
+
+    if (this.find('coin_received').length > 0 || this.find('coin_spent').length > 0) {
+      for (const event of this.find('coin_received')) {
+        if (event.receiver === address) {
+          this.addCoins(changes, EventLog.parseCoins(event.amount), BigInt(1));
+        }
+      }
+      for (const event of this.find('coin_spent')) {
+        if (event.spender === address) {
+          this.addCoins(changes, EventLog.parseCoins(event.amount), BigInt(-1));
+        }
+      }
+    } else {
+      for (const event of this.find('transfer')) {
+        if (event.recipient === address) {
+          this.addCoins(changes, EventLog.parseCoins(event.amount), BigInt(1));
+        }
+        if (event.sender === address) {
+          this.addCoins(changes, EventLog.parseCoins(event.amount), BigInt(-1));
+        }
+      }
+    }
+
+    return this.dropZeros(changes);
+  }
+
+  /**
+   * Parse a coin list as it appears in event attributes
+   *
+   * @param value - Comma-separated coins, e.g. "1000uosmo,5ibc/27394FB..."
+   * @returns Parsed coins (malformed entries are skipped)
+   */
+  static parseCoins(value: string | undefined): Coin[] {
+    if (!value) {
+      return [];
+    }
+
+    return value
+      .split(',')
+      .map(part => part.trim().match(/^(\d+)([a-zA-Z][a-zA-Z0-9/:._-]*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({ amount: match[1], denom: match[2] }));
+  }
+
+  /**
+   * Add coins to per-denom totals
+   *
+   * @param totals - Totals in base units per denom, updated in place
+   * @param coins - Coins to add
+   * @param sign - 1 to add the coins, -1 to subtract them
+   */
+  private addCoins(totals: Map<string, bigint>, coins: Coin[], sign: bigint): void {
+    for (const coin of coins) {
+      totals.set(coin.denom, (totals.get(coin.denom) ?? BigInt(0)) + sign * BigInt(coin.amount));
+    }
+  }
+
+  /**
+   * Remove zero totals
+   *
+   * @param totals - Totals in base units per denom, updated in place
+   * @returns The same totals
+   */
+  private dropZeros(totals: Map<string, bigint>): Map<string, bigint> {
+    totals.forEach((amount, denom) => {
+      if (amount === BigInt(0)) {
+        totals.delete(denom);
+      }
+    });
+    return totals;
+  }
+
+  /**
+   * Get an attribute value from an event
+   *
+   * @param event - Transaction event
+   * @param key - Attribute key
+   * @returns Attribute value, or undefined if absent
+   */
+  private attribute(event: TxEvent, key: string): string | undefined {
+    return event.attributes.find(attribute => attribute.key === key)?.value;
+  }
+}
@@ -12,10 +12,52 @@ export type {
   BlockchainClient,
   Transaction,
   TransactionDetail,
+  TransactionLeg,
+  LegSource,
   Amount,
+  BalanceMismatch,
   FetchOptions,
+  FetchResult,
+  RawTransaction,
+  TransactionPage,
   TransactionType,
+  TransferDirection,
+  IbcPacketInfo,
+  PositionInfo,
+  LockInfo,
+  GovernanceInfo,
+  DepositOutcome,
+  VoteOption,
+  WeightedVoteOption,
+  ContractInfo,
+  TokenFactoryInfo,
   TransactionStatus,
 } from './types';
 
+export type {
+  QueueStats,
+  QueueStatsListener,
+  RequestPriority,
+  RequestSchedulerOptions,
+} from './request-scheduler';
+
+export type { CachedRestLookupOptions, RestClientOptions } from './rest-lookup';
+export type { DenomInfo, DenomMetadataOptions, DenomMetadataSource } from './denom-metadata';
+export type { Asset, AssetList, AssetTrace, DenomUnit } from './asset-list';
+export type { ProposalInfo, ProposalServiceOptions, ProposalSource } from './proposals';
+export type { ContractMetadata, ContractMetadataOptions, ContractMetadataSource } from './contract-metadata';
+export type { ContractAdapter, ContractExecution, ContractLeg, ParsedContractExecution } from './contract-adapters';
+export type { MessageHandler } from './message-handlers';
+export type { ParsedMessage, ParsedTransaction } from './transaction-parser';
+
 export { OsmosisClient } from './osmosis-client';
+export { CachedRestLookup, RestClient, sharedRestClient } from './rest-lookup';
+export { DenomMetadataService, sharedDenomMetadata, layerMetadataSources } from './denom-metadata';
+export { AssetListSource, bundledAssets } from './asset-list';
+export { ProposalService, sharedProposals } from './proposals';
+export { ContractMetadataService, sharedContractMetadata } from './contract-metadata';
+export { ContractAdapterRegistry, GenericContractAdapter, cw20Denom } from './contract-adapters';
+export { MessageHandlerRegistry } from './message-handlers';
+export { TransactionParser } from './transaction-parser';
+export { RequestScheduler, sharedScheduler } from './request-scheduler';
+export { FetchAbortedError, PartialFetchError } from './errors';
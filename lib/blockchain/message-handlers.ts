@@ -0,0 +1,81 @@
+/**
+ * Message handler registry
+ *
+ * Maps message type URLs to the handlers that parse them. Handlers are
+ * looked up by exact type URL, so "/cosmos.gov.v1beta1.MsgVote" never
+ * picks up MsgVoteWeighted and registration order doesn't matter. The
+ * parser registers its built-in handlers here; handlers for other modules
+ * can be registered on top of them.
+ *
+ * Requirements: 2.6, 13.5 - Transaction parsing and type classification
+ */
+
+import type { EventLog } from './event-log';
+import type { ParsedMessage } from './transaction-parser';
+
+/**
+ * Parses messages of one or more types
+ *
+ * @param msg - The message, with its type URL and fields at the top level
+ * @param log - Events of the message
+ * @param address - The wallet address
+ * @returns Parsed message, or several when a message has several effects
+ *   (the first stands for the message, the rest become event-derived legs)
+ */
+export type MessageHandler = (msg: any, log: EventLog, address: string) => ParsedMessage | ParsedMessage[];
+
+/**
+ * MessageHandlerRegistry class
+ *
+ * Holds one handler per type URL; a later registration for a type URL
+ * replaces the earlier one.
+ */
+export class MessageHandlerRegistry {
+  private handlers: Map<string, MessageHandler> = new Map();
+
+  /**
+   * Register a handler for one or more message types
+   *
+   * @param typeUrls - Exact type URL(s), e.g. "/cosmos.bank.v1beta1.MsgSend"
+   * @param handler - Handler for messages of these types
+   * @returns The registry, for chaining
+   */
+  register(typeUrls: string | string[], handler: MessageHandler): this {
+    for (const typeUrl of Array.isArray(typeUrls) ? typeUrls : [typeUrls]) {
+      if (!typeUrl.startsWith('/')) {
+        throw new Error(`Invalid message type URL: ${typeUrl}`);
+      }
+      this.handlers.set(typeUrl, handler);
+    }
+    return this;
+  }
+
+  /**
+   * Remove the handler for a message type
+   *
+   * @param typeUrl - Exact type URL
+   * @returns true if a handler was removed
+   */
+  unregister(typeUrl: string): boolean {
+    return this.handlers.delete(typeUrl);
+  }
+
+  /**
+   * Get the handler for a message type
+   *
+   * @param typeUrl - Exact type URL
+   * @returns Handler, or undefined if none is registered
+   */
+  get(typeUrl: string): MessageHandler | undefined {
+    return this.handlers.get(typeUrl);
+  }
+
+  /**
+   * Get the message types that have a handler
+   *
+   * @returns Registered type URLs
+   */
+  getTypeUrls(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+}
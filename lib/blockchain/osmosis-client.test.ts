@@ -8,20 +8,59 @@
  */
 
 import { OsmosisClient } from './osmosis-client';
-import { StargateClient } from '@cosmjs/stargate';
+import { OsmosisQueryClient } from './query-client';
+import { FetchAbortedError, PartialFetchError } from './errors';
+import { RequestScheduler } from './request-scheduler';
 
-// Mock CosmJS StargateClient
-jest.mock('@cosmjs/stargate', () => ({
-  StargateClient: {
+// Mock the RPC query client
+jest.mock('./query-client', () => ({
+  OsmosisQueryClient: {
     connect: jest.fn(),
   },
 }));
 
+/**
+ * Apply the height bound of a raw query to its matches
+ */
+const aboveHeight = (query: string, txs: any[]) => {
+  const bound = query.match(/tx\.height>(\d+)/);
+  return bound ? txs.filter(tx => tx.height > Number(bound[1])) : txs;
+};
+
+/**
+ * Serve the matches of each query the way tx_search does: one page at a time,
+ * along with the total number of matches
+ */
+const paginate = (matches: (query: string) => any[]) =>
+  async (query: string, page: number, perPage: number) => {
+    const txs = aboveHeight(query, matches(query));
+    return { txs: txs.slice((page - 1) * perPage, page * perPage), totalCount: txs.length };
+  };
+
+/**
+ * Serve every match of each query on every page, like a node that ignores
+ * the page parameters
+ */
+const ignorePages = (matches: (query: string) => any[]) =>
+  async (query: string) => {
+    const txs = aboveHeight(query, matches(query));
+    return { txs, totalCount: txs.length };
+  };
+
+/**
+ * Event attribute a raw query matches against
+ */
+const keyOf = (query: string) => query.split('=')[0];
+
 describe('OsmosisClient', () => {
   let client: OsmosisClient;
 
   beforeEach(() => {
-    client = new OsmosisClient('https://rpc.osmosis.zone');
+    // No backoff delay or rate limit, so retry paths don't slow the suite down
+    client = new OsmosisClient('https://rpc.osmosis.zone', {
+      pool: { baseDelayMs: 0 },
+      scheduler: new RequestScheduler({ requestsPerSecond: 10000, burst: 10000 }),
+    });
     jest.clearAllMocks();
   });
 
@@ -129,49 +168,72 @@ describe('OsmosisClient', () => {
       const mockClient = {
         disconnect: jest.fn(),
         getTx: jest.fn(),
-        searchTx: jest.fn(),
+        searchTxPage: jest.fn(),
       };
 
-      (StargateClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
 
       await client.initialize();
 
-      expect(StargateClient.connect).toHaveBeenCalledWith('https://rpc.osmosis.zone');
+      expect(OsmosisQueryClient.connect).toHaveBeenCalledWith('https://rpc.osmosis.zone');
     });
 
     it('should not reconnect if already initialized', async () => {
       const mockClient = {
         disconnect: jest.fn(),
         getTx: jest.fn(),
-        searchTx: jest.fn(),
+        searchTxPage: jest.fn(),
       };
 
-      (StargateClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
 
       await client.initialize();
       await client.initialize();
 
       // Should only connect once
-      expect(StargateClient.connect).toHaveBeenCalledTimes(1);
+      expect(OsmosisQueryClient.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report connection errors and connect again on the next call', async () => {
+      const mockClient = {
+        disconnect: jest.fn(),
+        getTx: jest.fn(),
+        searchTxPage: jest.fn(),
+      };
+
+      (OsmosisQueryClient.connect as jest.Mock)
+        .mockRejectedValueOnce(new Error('Bad status on response: 400'))
+        .mockResolvedValue(mockClient);
+
+      await expect(client.initialize()).rejects.toThrow('400');
+      await expect(client.getTransactionDetails('ABC123')).rejects.toThrow('Client not initialized');
+
+      await client.initialize();
+
+      expect(OsmosisQueryClient.connect).toHaveBeenCalledTimes(2);
     });
   });
 
   describe('fetchTransactions', () => {
     let mockClient: any;
+    const address = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
 
     beforeEach(() => {
       mockClient = {
         disconnect: jest.fn(),
         getTx: jest.fn(),
-        searchTx: jest.fn(),
+        searchTxPage: jest.fn().mockImplementation(paginate(() => [])),
+        getBlock: jest.fn().mockResolvedValue({
+          header: { height: 1000, time: '2024-03-15T12:30:45.123Z' },
+        }),
       };
 
-      (StargateClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
     });
 
     it('should throw error if client not initialized', async () => {
       await expect(
-        client.fetchTransactions('osmo1abcdefghijklmnopqrstuvwxyz0123456789')
+        client.fetchTransactions(address)
       ).rejects.toThrow('Client not initialized');
     });
 
@@ -206,11 +268,9 @@ describe('OsmosisClient', () => {
         },
       };
 
-      mockClient.searchTx.mockResolvedValue([mockTx]);
+      mockClient.searchTxPage.mockImplementation(paginate(() => [mockTx]));
 
-      const transactions = await client.fetchTransactions(
-        'osmo1abcdefghijklmnopqrstuvwxyz0123456789'
-      );
+      const transactions = await client.fetchTransactions(address);
 
       expect(transactions).toHaveLength(1);
       expect(transactions[0].hash).toBe('ABC123');
@@ -241,24 +301,27 @@ describe('OsmosisClient', () => {
         },
       };
 
-      const mockTx2 = {
+      const history = Array.from({ length: 150 }, (_, i) => ({
         ...mockTx1,
-        hash: 'TX2',
-        height: 1001,
-      };
-
-      // First call returns full page, second call returns empty (no more pages)
-      mockClient.searchTx
-        .mockResolvedValueOnce([mockTx1, mockTx2])
-        .mockResolvedValueOnce([]);
-
-      const transactions = await client.fetchTransactions(
-        'osmo1abcdefghijklmnopqrstuvwxyz0123456789',
-        { limit: 100 }
+        hash: `TX${i}`,
+        height: 1000 + i,
+      }));
+
+      // The sender query has a full page and a short second one
+      mockClient.searchTxPage.mockImplementation(paginate(query => (
+        keyOf(query) === 'message.sender' ? history : []
+      )));
+
+      const transactions = await client.fetchTransactions(address);
+
+      expect(transactions).toHaveLength(150);
+      // The second page continues above the last block completed by the first
+      expect(mockClient.searchTxPage).toHaveBeenCalledWith(`message.sender='${address}'`, 1, 100);
+      expect(mockClient.searchTxPage).toHaveBeenCalledWith(
+        `message.sender='${address}' AND tx.height>1098`,
+        1,
+        100
       );
-
-      expect(transactions.length).toBeGreaterThanOrEqual(2);
-      expect(mockClient.searchTx).toHaveBeenCalledTimes(2);
     });
 
     it('should handle failed transactions', async () => {
@@ -284,11 +347,9 @@ describe('OsmosisClient', () => {
         },
       };
 
-      mockClient.searchTx.mockResolvedValue([mockTx]);
+      mockClient.searchTxPage.mockImplementation(paginate(() => [mockTx]));
 
-      const transactions = await client.fetchTransactions(
-        'osmo1abcdefghijklmnopqrstuvwxyz0123456789'
-      );
+      const transactions = await client.fetchTransactions(address);
 
       expect(transactions[0].status).toBe('failed');
     });
@@ -344,15 +405,633 @@ describe('OsmosisClient', () => {
           },
         };
 
-        mockClient.searchTx.mockResolvedValue([mockTx]);
+        mockClient.searchTxPage.mockImplementation(paginate(() => [mockTx]));
 
-        const transactions = await client.fetchTransactions(
-          'osmo1abcdefghijklmnopqrstuvwxyz0123456789'
-        );
+        const transactions = await client.fetchTransactions(address);
 
         expect(transactions[0].type).toBe(expectedType);
       }
     });
+    it('should resolve timestamps from block headers', async () => {
+      await client.initialize();
+
+      const mockTx = {
+        hash: 'ABC123',
+        height: 1000,
+        code: 0,
+        tx: {
+          body: {
+            messages: [{
+              '@type': '/cosmos.bank.v1beta1.MsgSend',
+              amount: [{ denom: 'uosmo', amount: '1000000' }],
+            }],
+            memo: '',
+          },
+          authInfo: {
+            fee: {
+              amount: [{ denom: 'uosmo', amount: '5000' }],
+            },
+          },
+        },
+      };
+
+      mockClient.searchTxPage.mockImplementation(paginate(() => [mockTx]));
+
+      const transactions = await client.fetchTransactions(address);
+
+      expect(mockClient.getBlock).toHaveBeenCalledWith(1000);
+      expect(transactions[0].timestamp.toISOString()).toBe('2024-03-15T12:30:45.123Z');
+    });
+
+    it('should use the tx response timestamp when present', async () => {
+      await client.initialize();
+
+      const mockTx = {
+        hash: 'ABC123',
+        height: 1000,
+        code: 0,
+        timestamp: '2023-11-02T08:00:00Z',
+        tx: {
+          body: {
+            messages: [],
+            memo: '',
+          },
+          authInfo: {
+            fee: {
+              amount: [{ denom: 'uosmo', amount: '5000' }],
+            },
+          },
+        },
+      };
+
+      mockClient.searchTxPage.mockImplementation(paginate(() => [mockTx]));
+
+      const transactions = await client.fetchTransactions(address);
+
+      expect(mockClient.getBlock).not.toHaveBeenCalled();
+      expect(transactions[0].timestamp.toISOString()).toBe('2023-11-02T08:00:00.000Z');
+    });
+
+    it('should cache block times across pages and calls', async () => {
+      await client.initialize();
+
+      const makeTx = (hash: string, height: number) => ({
+        hash,
+        height,
+        code: 0,
+        tx: {
+          body: {
+            messages: [{
+              '@type': '/cosmos.bank.v1beta1.MsgSend',
+              amount: [{ denom: 'uosmo', amount: '1000000' }],
+            }],
+            memo: '',
+          },
+          authInfo: {
+            fee: {
+              amount: [{ denom: 'uosmo', amount: '5000' }],
+            },
+          },
+        },
+      });
+
+      // A full page of 100 txs over 50 heights, then a short second page
+      const firstPage = Array.from({ length: 100 }, (_, i) =>
+        makeTx(`TX${i}`, 1000 + Math.floor(i / 2))
+      );
+      mockClient.searchTxPage.mockImplementation(paginate(query => (
+        keyOf(query) === 'message.sender'
+          ? [...firstPage, makeTx('TX100', 1049), makeTx('TX101', 2000)]
+          : []
+      )));
+
+      await client.fetchTransactions(address);
+
+      mockClient.searchTxPage.mockImplementation(paginate(() => [makeTx('TX0', 1000)]));
+      await client.fetchTransactions(address);
+
+      // 50 heights from the first page plus one new height from the second
+      expect(mockClient.getBlock).toHaveBeenCalledTimes(51);
+      expect(mockClient.getBlock).toHaveBeenCalledWith(2000);
+    });
+  });
+
+  describe('query merging', () => {
+    let mockClient: any;
+    const address = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+
+    const makeTx = (hash: string, height: number) => ({
+      hash,
+      height,
+      code: 0,
+      tx: {
+        body: {
+          messages: [{
+            '@type': '/cosmos.bank.v1beta1.MsgSend',
+            amount: [{ denom: 'uosmo', amount: '1000000' }],
+          }],
+          memo: '',
+        },
+        authInfo: {
+          fee: {
+            amount: [{ denom: 'uosmo', amount: '5000' }],
+          },
+        },
+      },
+    });
+
+    beforeEach(async () => {
+      mockClient = {
+        disconnect: jest.fn(),
+        getTx: jest.fn(),
+        searchTxPage: jest.fn().mockImplementation(paginate(() => [])),
+        // One minute per block starting at 2024-01-01
+        getBlock: jest.fn().mockImplementation(async (height: number) => ({
+          header: {
+            height,
+            time: new Date(Date.UTC(2024, 0, 1) + height * 60000).toISOString(),
+          },
+        })),
+      };
+
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      await client.initialize();
+    });
+
+    it('should run a separate query for each address event', async () => {
+      await client.fetchTransactions(address);
+
+      const queries = mockClient.searchTxPage.mock.calls.map((call: any[]) => call[0]);
+
+      // Every query has a single condition, so nothing is ANDed together
+      queries.forEach((query: string) => {
+        expect(query).not.toContain(' AND ');
+        expect(query).toMatch(new RegExp(`='${address}'$`));
+      });
+
+      const keys = queries.map(keyOf);
+      expect(keys).toEqual(expect.arrayContaining([
+        'message.sender',
+        'transfer.recipient',
+        'fungible_token_packet.receiver',
+        'delegate.delegator',
+      ]));
+    });
+
+    it('should include incoming transfers that only match the recipient query', async () => {
+      mockClient.searchTxPage.mockImplementation(paginate(query => {
+        switch (keyOf(query)) {
+          case 'message.sender':
+            return [makeTx('OUT', 10)];
+          case 'transfer.recipient':
+            return [makeTx('IN', 20)];
+          default:
+            return [];
+        }
+      }));
+
+      const transactions = await client.fetchTransactions(address);
+
+      expect(transactions.map(tx => tx.hash)).toEqual(['OUT', 'IN']);
+    });
+
+    it('should dedupe transactions returned by several queries', async () => {
+      mockClient.searchTxPage.mockImplementation(paginate(query => {
+        switch (keyOf(query)) {
+          case 'message.sender':
+            return [makeTx('SELF', 10), makeTx('OUT', 11)];
+          case 'transfer.recipient':
+            return [makeTx('SELF', 10), makeTx('IN', 12)];
+          case 'delegate.delegator':
+            return [makeTx('OUT', 11)];
+          default:
+            return [];
+        }
+      }));
+
+      const transactions = await client.fetchTransactions(address);
+
+      expect(transactions).toHaveLength(3);
+      expect(transactions.map(tx => tx.hash)).toEqual(['SELF', 'OUT', 'IN']);
+    });
+
+    it('should order merged results by time', async () => {
+      mockClient.searchTxPage.mockImplementation(paginate(query => {
+        switch (keyOf(query)) {
+          case 'message.sender':
+            return [makeTx('C', 300), makeTx('A', 100)];
+          case 'fungible_token_packet.receiver':
+            return [makeTx('B', 200)];
+          case 'withdraw_rewards.delegator':
+            return [makeTx('D', 400)];
+          default:
+            return [];
+        }
+      }));
+
+      const transactions = await client.fetchTransactions(address);
+
+      expect(transactions.map(tx => tx.hash)).toEqual(['A', 'B', 'C', 'D']);
+      for (let i = 1; i < transactions.length; i++) {
+        expect(transactions[i].timestamp.getTime())
+          .toBeGreaterThan(transactions[i - 1].timestamp.getTime());
+      }
+    });
+  });
+
+  describe('streamTransactions', () => {
+    let mockClient: any;
+    const address = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+
+    const makeTx = (hash: string, height: number) => ({
+      hash,
+      height,
+      code: 0,
+      tx: {
+        body: {
+          messages: [{
+            '@type': '/cosmos.bank.v1beta1.MsgSend',
+            amount: [{ denom: 'uosmo', amount: '1000000' }],
+          }],
+          memo: '',
+        },
+        authInfo: {
+          fee: {
+            amount: [{ denom: 'uosmo', amount: '5000' }],
+          },
+        },
+      },
+    });
+
+    const firstPage = Array.from({ length: 100 }, (_, i) => makeTx(`TX${i}`, 1000 + i));
+
+    beforeEach(async () => {
+      mockClient = {
+        disconnect: jest.fn(),
+        getTx: jest.fn(),
+        // The sender query has two pages, the recipient query a single short one
+        searchTxPage: jest.fn().mockImplementation(paginate(query => {
+          if (keyOf(query) === 'message.sender') {
+            return [...firstPage, makeTx('TX100', 2000)];
+          }
+          if (keyOf(query) === 'transfer.recipient') {
+            return [makeTx('TX0', 1000), makeTx('IN', 1500)];
+          }
+          return [];
+        })),
+        getBlock: jest.fn().mockImplementation(async (height: number) => ({
+          header: {
+            height,
+            time: new Date(Date.UTC(2024, 0, 1) + height * 60000).toISOString(),
+          },
+        })),
+      };
+
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      await client.initialize();
+    });
+
+    it('should yield pages as they arrive with a resume cursor', async () => {
+      const pages = [];
+      for await (const page of client.streamTransactions(address)) {
+        pages.push(page);
+      }
+
+      // The last block of the sender's first page is held back until it's complete
+      expect(pages).toHaveLength(2);
+      expect(pages[0].transactions).toHaveLength(100);
+      expect(pages[0].cursor).toEqual(expect.any(String));
+      expect(pages[1].transactions.map(tx => tx.hash)).toEqual(['TX99', 'TX100']);
+      expect(pages[1].cursor).toBeUndefined();
+    });
+
+    it('should resume after the page that returned the cursor', async () => {
+      let cursor: string | undefined;
+      for await (const page of client.streamTransactions(address)) {
+        cursor = page.cursor;
+        break;
+      }
+
+      mockClient.searchTxPage.mockClear();
+
+      const resumed = [];
+      for await (const page of client.streamTransactions(address, { cursor })) {
+        resumed.push(...page.transactions);
+      }
+
+      expect(resumed.map(tx => tx.hash)).toEqual(['TX99', 'TX100']);
+      expect(mockClient.searchTxPage).toHaveBeenCalledTimes(1);
+      expect(mockClient.searchTxPage).toHaveBeenCalledWith(
+        `message.sender='${address}' AND tx.height>1098`,
+        1,
+        100
+      );
+    });
+
+    it('should resume from the height reached on a node that ignores the page parameters', async () => {
+      mockClient.searchTxPage.mockImplementation(ignorePages(query => (
+        keyOf(query) === 'message.sender' ? [...firstPage, makeTx('TX100', 2000)] : []
+      )));
+
+      const first = [];
+      let cursor: string | undefined;
+      for await (const page of client.streamTransactions(address)) {
+        first.push(...page.transactions);
+        cursor = page.cursor;
+        break;
+      }
+
+      mockClient.searchTxPage.mockClear();
+
+      const resumed = [];
+      for await (const page of client.streamTransactions(address, { cursor })) {
+        resumed.push(...page.transactions);
+      }
+
+      // Resuming continues above the blocks already returned instead of starting over
+      expect(first).toHaveLength(100);
+      expect(resumed.map(tx => tx.hash)).toEqual(['TX100']);
+      expect(mockClient.searchTxPage).toHaveBeenCalledTimes(1);
+      expect(mockClient.searchTxPage).toHaveBeenCalledWith(
+        `message.sender='${address}' AND tx.height>1999`,
+        1,
+        100
+      );
+    });
+
+    it('should match the array API', async () => {
+      const streamed = [];
+      for await (const page of client.streamTransactions(address)) {
+        streamed.push(...page.transactions);
+      }
+
+      const fetched = await client.fetchTransactions(address);
+
+      // Pages are ordered on their own; the array API orders the whole history
+      streamed.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      expect(fetched.map(tx => tx.hash)).toEqual(streamed.map(tx => tx.hash));
+    });
+
+    it('should reject an invalid cursor', async () => {
+      const stream = client.streamTransactions(address, { cursor: 'not-a-cursor' });
+
+      await expect(stream.next()).rejects.toThrow('Invalid stream cursor');
+    });
+
+    it('should return the raw response of every transaction', async () => {
+      const pages = [];
+      for await (const page of client.streamTransactions(address)) {
+        pages.push(page);
+      }
+
+      const raw = pages.flatMap(page => page.raw);
+      expect(raw).toHaveLength(102);
+      expect(raw.find(tx => tx.hash === 'IN')).toEqual({
+        hash: 'IN',
+        height: 1500,
+        timestamp: new Date(Date.UTC(2024, 0, 1) + 1500 * 60000),
+        data: makeTx('IN', 1500),
+      });
+    });
+
+    it('should only search blocks above minHeight', async () => {
+      mockClient.searchTxPage.mockImplementation(paginate(query => (
+        query.startsWith('message.sender=') ? [makeTx('NEW', 3000)] : []
+      )));
+
+      const streamed = [];
+      for await (const page of client.streamTransactions(address, { minHeight: 2500 })) {
+        streamed.push(...page.transactions);
+      }
+
+      expect(streamed.map(tx => tx.hash)).toEqual(['NEW']);
+      expect(mockClient.searchTxPage).toHaveBeenCalledWith(
+        `message.sender='${address}' AND tx.height>2500`,
+        1,
+        100
+      );
+    });
+
+    it('should keep the height bound when resuming', async () => {
+      mockClient.searchTxPage.mockImplementation(paginate(query => (
+        query.startsWith('message.sender=') ? [...firstPage, makeTx('TX100', 2000)] : []
+      )));
+
+      let cursor: string | undefined;
+      for await (const page of client.streamTransactions(address, { minHeight: 500 })) {
+        cursor = page.cursor;
+        break;
+      }
+
+      mockClient.searchTxPage.mockClear();
+      for await (const _page of client.streamTransactions(address, { cursor })) {
+        // drain
+      }
+
+      expect(mockClient.searchTxPage).toHaveBeenCalledWith(
+        `message.sender='${address}' AND tx.height>1098`,
+        1,
+        100
+      );
+    });
+
+    it('should re-parse raw transactions without network calls', async () => {
+      let raw;
+      for await (const page of client.streamTransactions(address)) {
+        raw = page.raw.find(tx => tx.hash === 'IN') ?? raw;
+      }
+
+      mockClient.searchTxPage.mockClear();
+      mockClient.getBlock.mockClear();
+
+      const transaction = client.parseRawTransaction(raw!, address);
+
+      expect(transaction).toMatchObject({
+        hash: 'IN',
+        timestamp: raw!.timestamp,
+        type: 'transfer',
+      });
+      expect(mockClient.searchTxPage).not.toHaveBeenCalled();
+      expect(mockClient.getBlock).not.toHaveBeenCalled();
+    });
+
+    describe('when a page fails', () => {
+      let healthy: (query: string, page: number, perPage: number) => Promise<any>;
+
+      beforeEach(() => {
+        healthy = mockClient.searchTxPage.getMockImplementation();
+
+        // The second page of the sender query hits an RPC error
+        mockClient.searchTxPage.mockImplementation(async (query: string, page: number, perPage: number) => {
+          if (keyOf(query) === 'message.sender' && query.includes(' AND tx.height>')) {
+            throw new Error('Bad status on response: 502');
+          }
+          return healthy(query, page, perPage);
+        });
+      });
+
+      it('should yield gathered pages then reject with PartialFetchError', async () => {
+        const pages = [];
+        let failure: unknown;
+
+        try {
+          for await (const page of client.streamTransactions(address)) {
+            pages.push(page);
+          }
+        } catch (error) {
+          failure = error;
+        }
+
+        expect(pages[0].transactions).toHaveLength(100);
+        expect(failure).toBeInstanceOf(PartialFetchError);
+        expect((failure as PartialFetchError).message).toContain('Bad status on response: 502');
+        expect((failure as PartialFetchError).cursor).toBe(pages[pages.length - 1].cursor);
+      });
+
+      it('should report an incomplete history with a resume cursor', async () => {
+        const result = await client.fetchTransactionHistory(address);
+
+        expect(result.complete).toBe(false);
+        expect(result.transactions).toHaveLength(100);
+        expect(result.pagesFetched).toBe(2);
+        expect(result.cursor).toEqual(expect.any(String));
+        expect(result.error).toBeInstanceOf(PartialFetchError);
+
+        // Once the node recovers, resuming fetches only the missing page
+        mockClient.searchTxPage.mockImplementation(healthy);
+        const resumed = await client.fetchTransactionHistory(address, { cursor: result.cursor });
+
+        expect(resumed.complete).toBe(true);
+        expect(resumed.transactions.map(tx => tx.hash)).toEqual(['TX99', 'TX100']);
+        expect(mockClient.searchTxPage).toHaveBeenLastCalledWith(
+          `message.sender='${address}' AND tx.height>1098`,
+          1,
+          100
+        );
+      });
+
+      it('should reject from the array API instead of truncating', async () => {
+        await expect(client.fetchTransactions(address)).rejects.toBeInstanceOf(PartialFetchError);
+      });
+    });
+
+    it('should reject with FetchAbortedError when already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.fetchTransactions(address, { signal: controller.signal })
+      ).rejects.toBeInstanceOf(FetchAbortedError);
+      expect(mockClient.searchTxPage).not.toHaveBeenCalled();
+    });
+
+    it('should stop pagination when aborted between pages', async () => {
+      const controller = new AbortController();
+      const stream = client.streamTransactions(address, { signal: controller.signal });
+
+      await stream.next();
+      mockClient.searchTxPage.mockClear();
+      controller.abort();
+
+      await expect(stream.next()).rejects.toBeInstanceOf(FetchAbortedError);
+      expect(mockClient.searchTxPage).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting on in-flight block time lookups', async () => {
+      mockClient.getBlock.mockReturnValue(new Promise(() => {}));
+
+      const controller = new AbortController();
+      const pending = client.fetchTransactions(address, { signal: controller.signal });
+
+      // Let the queries finish so the fetch is blocked on block times
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(FetchAbortedError);
+    });
+  });
+
+  describe('endpoint failover', () => {
+    const address = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+
+    const makeTx = (hash: string, height: number) => ({
+      hash,
+      height,
+      code: 0,
+      tx: {
+        body: {
+          messages: [{
+            '@type': '/cosmos.bank.v1beta1.MsgSend',
+            amount: [{ denom: 'uosmo', amount: '1000000' }],
+          }],
+          memo: '',
+        },
+        authInfo: {
+          fee: {
+            amount: [{ denom: 'uosmo', amount: '5000' }],
+          },
+        },
+      },
+    });
+
+    const makeNode = (searchTxPage: jest.Mock) => ({
+      disconnect: jest.fn(),
+      getTx: jest.fn(),
+      searchTxPage,
+      getBlock: jest.fn().mockResolvedValue({
+        header: { height: 1000, time: '2024-03-15T12:30:45.123Z' },
+      }),
+    });
+
+    it('should fail over to the next endpoint mid-pagination', async () => {
+      const history = [
+        ...Array.from({ length: 100 }, (_, i) => makeTx(`TX${i}`, 1000)),
+        makeTx('TX100', 1000),
+      ];
+      const search = paginate(query => (keyOf(query) === 'message.sender' ? history : []));
+
+      // The primary node serves the first page, then starts returning 503s
+      const primary = makeNode(jest.fn().mockImplementation(async (query: string, page: number, perPage: number) => {
+        if (page > 1) {
+          throw new Error('Bad status on response: 503');
+        }
+        return search(query, page, perPage);
+      }));
+      const backup = makeNode(jest.fn().mockImplementation(search));
+
+      (OsmosisQueryClient.connect as jest.Mock).mockImplementation(async (url: string) => (
+        url === 'https://primary.example' ? primary : backup
+      ));
+
+      const failoverClient = new OsmosisClient(
+        ['https://primary.example', 'https://backup.example'],
+        {
+          pool: { baseDelayMs: 0 },
+          scheduler: new RequestScheduler({ requestsPerSecond: 10000, burst: 10000 }),
+        }
+      );
+      // Health checks can't reach the stub hosts, so the configured order is kept
+      await failoverClient.initialize();
+
+      const transactions = await failoverClient.fetchTransactions(address);
+
+      expect(transactions).toHaveLength(101);
+      expect(primary.searchTxPage).toHaveBeenCalledWith(`message.sender='${address}'`, 2, 100);
+      expect(backup.searchTxPage).toHaveBeenCalledWith(`message.sender='${address}'`, 2, 100);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      const node = makeNode(jest.fn().mockRejectedValue(new Error('Bad status on response: 400')));
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(node);
+
+      await client.initialize();
+
+      await expect(client.fetchTransactions(address)).rejects.toThrow('400');
+      // Address queries run concurrently; each one is tried exactly once
+      const keys = node.searchTxPage.mock.calls.map((call: any[]) => keyOf(call[0]));
+      expect(keys).toHaveLength(6);
+      expect(new Set(keys).size).toBe(keys.length);
+    });
   });
 
   describe('getTransactionDetails', () => {
@@ -362,10 +1041,13 @@ describe('OsmosisClient', () => {
       mockClient = {
         disconnect: jest.fn(),
         getTx: jest.fn(),
-        searchTx: jest.fn(),
+        searchTxPage: jest.fn(),
+        getBlock: jest.fn().mockResolvedValue({
+          header: { height: 1000, time: '2024-03-15T12:30:45.123Z' },
+        }),
       };
 
-      (StargateClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
     });
 
     it('should throw error if client not initialized', async () => {
@@ -423,15 +1105,120 @@ describe('OsmosisClient', () => {
     });
   });
 
+  describe('request scheduling', () => {
+    const address = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+
+    it('should keep concurrent queries within the scheduler limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const mockClient = {
+        disconnect: jest.fn(),
+        getTx: jest.fn(),
+        getBlock: jest.fn(),
+        searchTxPage: jest.fn().mockImplementation(async () => {
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise(resolve => setTimeout(resolve, 5));
+          inFlight -= 1;
+          return { txs: [], totalCount: 0 };
+        }),
+      };
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
+
+      const limitedClient = new OsmosisClient('https://rpc.osmosis.zone', {
+        scheduler: new RequestScheduler({ maxConcurrency: 2, requestsPerSecond: 10000, burst: 10000 }),
+      });
+      await limitedClient.initialize();
+      await limitedClient.fetchTransactions(address);
+
+      expect(mockClient.searchTxPage).toHaveBeenCalledTimes(6);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should report queue stats while fetching', async () => {
+      const mockClient = {
+        disconnect: jest.fn(),
+        getTx: jest.fn(),
+        getBlock: jest.fn(),
+        searchTxPage: jest.fn().mockImplementation(paginate(() => [])),
+      };
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      await client.initialize();
+
+      const updates: number[] = [];
+      const unsubscribe = client.onQueueStats(stats => updates.push(stats.queued + stats.active));
+      await client.fetchTransactions(address);
+      unsubscribe();
+
+      expect(Math.max(...updates)).toBeGreaterThan(0);
+      expect(client.getQueueStats()).toMatchObject({ queued: 0, active: 0 });
+      // One connect plus one search per address query
+      expect(client.getQueueStats().completed).toBe(7);
+    });
+
+    it('should drop queued block time lookups on abort without caching them', async () => {
+      const makeTx = (hash: string, height: number) => ({
+        hash,
+        height,
+        code: 0,
+        tx: { body: { messages: [], memo: '' }, authInfo: { fee: { amount: [] } } },
+      });
+      const header = (height: number) => ({ header: { height, time: '2024-03-15T12:30:45.123Z' } });
+
+      // The first two lookups hold both slots until released; the third waits in the queue
+      const release: Array<() => void> = [];
+      let hold = true;
+      const mockClient = {
+        disconnect: jest.fn(),
+        getTx: jest.fn(),
+        searchTxPage: jest.fn().mockImplementation(paginate(query => (
+          keyOf(query) === 'message.sender' ? [makeTx('A', 10), makeTx('B', 20), makeTx('C', 30)] : []
+        ))),
+        getBlock: jest.fn().mockImplementation((height: number) => (
+          height === 30 || !hold
+            ? Promise.resolve(header(height))
+            : new Promise(resolve => release.push(() => resolve(header(height))))
+        )),
+      };
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
+
+      const limitedClient = new OsmosisClient('https://rpc.osmosis.zone', {
+        scheduler: new RequestScheduler({ maxConcurrency: 2, requestsPerSecond: 10000, burst: 10000 }),
+      });
+      await limitedClient.initialize();
+
+      const controller = new AbortController();
+      const pending = limitedClient.fetchTransactions(address, { signal: controller.signal });
+      while (mockClient.getBlock.mock.calls.length < 2) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      controller.abort();
+      await expect(pending).rejects.toBeInstanceOf(FetchAbortedError);
+
+      // Finishing the running lookups doesn't start the one that was queued
+      hold = false;
+      release.forEach(resolve => resolve());
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(mockClient.getBlock).not.toHaveBeenCalledWith(30);
+
+      // The next fetch looks the aborted height up afresh instead of getting a rejected lookup
+      const transactions = await limitedClient.fetchTransactions(address);
+
+      expect(transactions.map(tx => tx.hash)).toEqual(['A', 'B', 'C']);
+      expect(mockClient.getBlock).toHaveBeenCalledWith(30);
+    });
+  });
+
   describe('disconnect', () => {
     it('should disconnect the client', async () => {
       const mockClient = {
         disconnect: jest.fn(),
         getTx: jest.fn(),
-        searchTx: jest.fn(),
+        searchTxPage: jest.fn(),
       };
 
-      (StargateClient.connect as jest.Mock).mockResolvedValue(mockClient);
+      (OsmosisQueryClient.connect as jest.Mock).mockResolvedValue(mockClient);
 
       await client.initialize();
       await client.disconnect();
@@ -7,16 +7,116 @@
  * Requirements: 2.1, 2.2, 2.6, 11.2 - Osmosis blockchain integration
  */
 
-import { StargateClient } from '@cosmjs/stargate';
+import { OsmosisQueryClient } from './query-client';
 import type {
   BlockchainClient,
   Transaction,
   TransactionDetail,
   FetchOptions,
+  FetchResult,
+  TransactionPage,
+  RawTransaction,
   Amount,
   TransactionStatus,
 } from './types';
 import { TransactionParser } from './transaction-parser';
+import type { MessageHandler } from './message-handlers';
+import { FetchAbortedError, PartialFetchError, abortable, throwIfAborted } from './errors';
+import { EndpointPool, type EndpointPoolOptions } from './endpoint-pool';
+import {
+  sharedScheduler,
+  type QueueStats,
+  type QueueStatsListener,
+  type RequestPriority,
+  type RequestScheduler,
+} from './request-scheduler';
+import {
+  layerMetadataSources,
+  sharedDenomMetadata,
+  type DenomMetadataService,
+  type DenomMetadataSource,
+} from './denom-metadata';
+import { bundledAssets } from './asset-list';
+import { sharedProposals, type ProposalService } from './proposals';
+import { sharedContractMetadata, type ContractMetadataService } from './contract-metadata';
+import { ContractAdapterRegistry } from './contract-adapters';
+import { DateFormatter } from '../utils/date-formatter';
+
+/**
+ * Public Osmosis RPC nodes used when none are configured
+ */
+export const DEFAULT_RPC_ENDPOINTS = [
+  'https://rpc.osmosis.zone',
+  'https://osmosis-rpc.publicnode.com',
+  'https://osmosis-rpc.polkachu.com',
+];
+
+/**
+ * Options for an OsmosisClient
+ */
+export interface OsmosisClientOptions {
+  /** Retry, circuit breaker and health check tunables for the RPC pool */
+  pool?: EndpointPoolOptions;
+  
+  /** Scheduler for network calls (default: the scheduler shared by all clients) */
+  scheduler?: RequestScheduler;
+  
+  /** On-chain denom metadata, used for tokens the bundled asset list lacks (default: the service shared by all clients) */
+  metadata?: DenomMetadataService;
+  
+  /** User-defined symbols and decimals, taking precedence over every other source */
+  overrides?: DenomMetadataSource;
+  
+  /** Governance proposals, for what became of deposits (default: the service shared by all clients) */
+  proposals?: ProposalService;
+  
+  /** Code IDs and labels of CosmWasm contracts (default: the service shared by all clients) */
+  contractMetadata?: ContractMetadataService;
+  
+  /** Adapters for CosmWasm contracts (default: the generic adapter only) */
+  contractAdapters?: ContractAdapterRegistry;
+}
+
+/**
+ * Get the RPC endpoints configured through NEXT_PUBLIC_OSMOSIS_RPC
+ * 
+ * The variable holds a comma-separated list; the public defaults are used
+ * when it is unset or empty.
+ * 
+ * @returns RPC endpoint URLs
+ */
+function getConfiguredRpcEndpoints(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_OSMOSIS_RPC || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  return configured.length > 0 ? configured : DEFAULT_RPC_ENDPOINTS;
+}
+
+/**
+ * Position of a single address query
+ * 
+ * Everything at or below height has been consumed. The page only moves past
+ * 1 when a single block holds more matches than fit in a page.
+ */
+interface QueryPosition {
+  /** Only blocks above this height are left to search */
+  height?: number;
+  
+  /** Next page of the height-bounded query (1-based) */
+  page: number;
+}
+
+/**
+ * Position of a transaction stream
+ * 
+ * Maps each address query that still has results to where it stopped.
+ * Serialized into the opaque cursor handed out with every page.
+ */
+interface StreamCursor {
+  queries: Record<string, QueryPosition>;
+}
 
 /**
  * Osmosis blockchain client
@@ -25,29 +125,107 @@ import { TransactionParser } from './transaction-parser';
  * address validation, transaction fetching, and transaction details.
  */
 export class OsmosisClient implements BlockchainClient {
-  private rpcEndpoint: string;
-  private client: StargateClient | null = null;
+  /**
+   * Event attributes that identify the tracked address as a participant
+   * 
+   * Covers outgoing messages, bank and IBC receipts, and staking operations
+   * that don't emit a message.sender for the delegator.
+   */
+  private static readonly ADDRESS_QUERY_KEYS = [
+    'message.sender',
+    'transfer.recipient',
+    'fungible_token_packet.receiver',
+    'delegate.delegator',
+    'unbond.delegator',
+    'withdraw_rewards.delegator',
+  ];
+
+  /**
+   * Largest page the RPC tx_search endpoint returns
+   */
+  private static readonly MAX_PAGE_SIZE = 100;
+
+  readonly chainId = 'osmosis-1';
+  readonly parserVersion = TransactionParser.VERSION;
+
+  private pool: EndpointPool;
+  private scheduler: RequestScheduler;
+  private clients: Map<string, Promise<OsmosisQueryClient>> = new Map();
+  private initialized = false;
   private parser: TransactionParser;
+  private metadata: DenomMetadataService;
+  private proposals: ProposalService;
+  private contractMetadata: ContractMetadataService;
+
+  /**
+   * Block time cache keyed by block height
+   * 
+   * Holds the pending lookup rather than the resolved date so concurrent
+   * requests for the same height share a single header fetch. The cache lives
+   * on the client instance and is therefore shared across pages and calls.
+   */
+  private blockTimes: Map<number, Promise<Date>> = new Map();
 
   /**
    * Create a new OsmosisClient
    * 
-   * @param rpcEndpoint - The RPC endpoint URL for the Osmosis blockchain
+   * @param rpcEndpoints - RPC endpoint URL(s) for the Osmosis blockchain, in order of preference
+   * @param options - Optional client options (endpoint pool tunables)
    */
-  constructor(rpcEndpoint: string = 'https://rpc.osmosis.zone') {
-    this.rpcEndpoint = rpcEndpoint;
-    this.parser = new TransactionParser();
+  constructor(
+    rpcEndpoints: string | string[] = getConfiguredRpcEndpoints(),
+    options: OsmosisClientOptions = {}
+  ) {
+    const urls = Array.isArray(rpcEndpoints) ? rpcEndpoints : [rpcEndpoints];
+    this.pool = new EndpointPool(urls, options.pool);
+    this.scheduler = options.scheduler ?? sharedScheduler;
+    this.metadata = options.metadata ?? sharedDenomMetadata;
+    this.proposals = options.proposals ?? sharedProposals;
+    this.contractMetadata = options.contractMetadata ?? sharedContractMetadata;
+    this.parser = new TransactionParser(
+      layerMetadataSources(options.overrides, bundledAssets, this.metadata),
+      this.proposals,
+      options.contractAdapters ?? new ContractAdapterRegistry(this.contractMetadata)
+    );
   }
 
   /**
    * Initialize the client by connecting to the RPC endpoint
    * 
-   * This method must be called before using other methods.
+   * This method must be called before using other methods. With several
+   * endpoints configured, they are health checked first so the fastest one
+   * is used.
    */
   async initialize(): Promise<void> {
-    if (!this.client) {
-      this.client = await StargateClient.connect(this.rpcEndpoint);
+    if (this.initialized) {
+      return;
+    }
+
+    if (this.pool.getStatus().length > 1) {
+      await this.scheduler.schedule(() => this.pool.checkHealth());
     }
+
+    await this.scheduler.schedule(() => this.pool.execute(endpoint => this.getClient(endpoint)));
+    this.initialized = true;
+  }
+
+  /**
+   * Get a snapshot of the network request queue
+   * 
+   * @returns Queued, in-flight, completed and failed request counts
+   */
+  getQueueStats(): QueueStats {
+    return this.scheduler.getStats();
+  }
+
+  /**
+   * Listen for changes to the network request queue, e.g. to show progress
+   * 
+   * @param listener - Called with fresh stats whenever the queue changes
+   * @returns Function that removes the listener
+   */
+  onQueueStats(listener: QueueStatsListener): () => void {
+    return this.scheduler.subscribe(listener);
   }
 
   /**
@@ -75,6 +253,9 @@ export class OsmosisClient implements BlockchainClient {
    * 
    * This method retrieves all transactions for a given address, handling
    * pagination automatically to fetch the complete transaction history.
+   * Rather than returning a truncated history, it rejects with a
+   * PartialFetchError when pagination fails part way; use
+   * fetchTransactionHistory to receive the partial result instead.
    * 
    * @param address - The wallet address to fetch transactions for
    * @param options - Optional fetch options (pagination, date filters)
@@ -84,91 +265,370 @@ export class OsmosisClient implements BlockchainClient {
     address: string,
     options?: FetchOptions
   ): Promise<Transaction[]> {
-    if (!this.client) {
-      throw new Error('Client not initialized. Call initialize() first.');
+    const result = await this.fetchTransactionHistory(address, options);
+
+    if (!result.complete) {
+      throw result.error;
+    }
+
+    return result.transactions;
+  }
+
+  /**
+   * Fetch transaction history along with how complete it is
+   * 
+   * Requirements: 2.1, 2.2 - Transaction fetching with pagination
+   * 
+   * Drains streamTransactions, so both APIs return the same data; the pages
+   * are merged into a single list ordered by time (oldest first). When a
+   * page fails, the transactions gathered so far are returned with the
+   * cursor to resume from and the error that stopped the fetch.
+   * 
+   * @param address - The wallet address to fetch transactions for
+   * @param options - Optional fetch options (pagination, date filters)
+   * @returns Promise resolving to the fetch result
+   */
+  async fetchTransactionHistory(
+    address: string,
+    options?: FetchOptions
+  ): Promise<FetchResult> {
+    const allTransactions: Transaction[] = [];
+    let pagesFetched = 0;
+    let failure: PartialFetchError | undefined;
+
+    try {
+      for await (const page of this.streamTransactions(address, options)) {
+        allTransactions.push(...page.transactions);
+        pagesFetched += 1;
+      }
+    } catch (error) {
+      if (!(error instanceof PartialFetchError)) {
+        throw error;
+      }
+      failure = error;
     }
 
+    allTransactions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return {
+      // If a specific limit was requested, don't return more than that
+      transactions: options?.limit ? allTransactions.slice(0, options.limit) : allTransactions,
+      complete: !failure,
+      pagesFetched,
+      cursor: failure?.cursor,
+      error: failure,
+    };
+  }
+
+  /**
+   * Stream transaction history for a wallet address page by page
+   * 
+   * Requirements: 2.1, 2.2 - Transaction fetching with pagination
+   * 
+   * Each step fetches the next page of every address query that still has
+   * results, merges them by hash and yields the new transactions ordered by
+   * time. Every page carries a cursor that can be passed back through
+   * options.cursor to resume the stream after that page.
+   * 
+   * Aborting options.signal stops pagination, block time lookups and parsing,
+   * and rejects the stream with a FetchAbortedError. If a query fails, the
+   * results gathered in that step are still yielded before the stream
+   * rejects with a PartialFetchError holding the cursor to resume from.
+   * 
+   * Requests for the first page run at high priority so it renders quickly;
+   * the backfill of later pages yields to other high-priority requests.
+   * 
+   * @param address - The wallet address to fetch transactions for
+   * @param options - Optional fetch options (pagination, date filters, cursor)
+   * @returns Async iterable of transaction pages
+   */
+  async *streamTransactions(
+    address: string,
+    options?: FetchOptions
+  ): AsyncGenerator<TransactionPage> {
+    this.ensureInitialized();
+
     if (!this.validateAddress(address)) {
       throw new Error('Invalid Osmosis address format');
     }
 
-    const allTransactions: Transaction[] = [];
-    const limit = options?.limit || 100;
-    let offset = options?.offset || 0;
-    let hasMore = true;
-
-    // Fetch transactions with pagination
-    while (hasMore) {
-      try {
-        // Use CosmJS to search for transactions
-        // Search for both sent and received transactions
-        const txs = await this.client.searchTx([
-          { key: 'message.sender', value: address },
-          { key: 'transfer.recipient', value: address },
-        ], {
-          page: Math.floor(offset / limit) + 1,
-          per_page: limit,
-        });
+    // Nodes cap tx_search pages at 100 results
+    const limit = Math.min(options?.limit || 100, OsmosisClient.MAX_PAGE_SIZE);
+    const cursor = options?.cursor
+      ? this.decodeCursor(options.cursor)
+      : this.createCursor(Math.floor((options?.offset || 0) / limit) + 1, options?.minHeight);
+    const signal = options?.signal;
+    const seen = new Set<string>();
+    let yielded = 0;
+    let pagesFetched = 0;
+
+    while (Object.keys(cursor.queries).length > 0) {
+      throwIfAborted(signal);
+      const priority: RequestPriority = pagesFetched === 0 ? 'high' : 'low';
 
-        if (txs.length === 0) {
-          hasMore = false;
-          break;
+      // The node ANDs every condition within a single query, so each event
+      // key has to be searched on its own and the results merged afterwards.
+      // The scheduler bounds how many of these run at once.
+      const settled = await Promise.allSettled(
+        Object.keys(cursor.queries).map(key => this.searchPage(key, address, cursor, limit, priority, signal))
+      );
+
+      const results: any[][] = [];
+      let failure: unknown;
+      for (const outcome of settled) {
+        if (outcome.status === 'fulfilled') {
+          results.push(outcome.value);
+          continue;
         }
 
-        // Parse and normalize transactions
-        for (const tx of txs) {
-          const parsedTx = await this.parseTransaction(tx, address);
-          
-          // Apply date filters if provided
-          if (options?.startDate && parsedTx.timestamp < options.startDate) {
-            continue;
-          }
-          if (options?.endDate && parsedTx.timestamp > options.endDate) {
-            continue;
-          }
-
-          allTransactions.push(parsedTx);
+        if (outcome.reason instanceof FetchAbortedError) {
+          throw outcome.reason;
         }
 
-        // Check if we should continue pagination
-        if (txs.length < limit) {
-          hasMore = false;
-        } else {
-          offset += limit;
+        // A failed query keeps its position in the cursor, so resuming retries it
+        failure ??= outcome.reason;
+      }
+
+      const txs = this.mergeTransactions(results).filter(tx => !seen.has(tx.hash));
+      txs.forEach(tx => seen.add(tx.hash));
+
+      // Resolve block times up front so header lookups run concurrently
+      // instead of one per transaction
+      const rawTxs = await abortable(
+        Promise.all(txs.map(tx => this.toRawTransaction(tx, priority, signal))),
+        signal
+      );
+
+      const transactions: Transaction[] = [];
+      const raw: RawTransaction[] = [];
+
+      // Parse and normalize transactions
+      for (const rawTx of rawTxs) {
+        throwIfAborted(signal);
+        const parsedTx = this.parseRawTransaction(rawTx, address);
+
+        // Apply date filters if provided
+        if (options?.startDate && parsedTx.timestamp < options.startDate) {
+          continue;
+        }
+        if (options?.endDate && parsedTx.timestamp > options.endDate) {
+          continue;
         }
 
-        // If a specific limit was requested and we've reached it, stop
-        if (options?.limit && allTransactions.length >= options.limit) {
-          hasMore = false;
+        transactions.push(parsedTx);
+        raw.push(rawTx);
+      }
+
+      // Re-parse transactions whose tokens, proposals or contracts were resolved in the meantime
+      if (await this.resolve(transactions, priority, signal)) {
+        transactions.forEach((tx, index) => {
+          transactions[index] = this.parseRawTransaction(raw[index], address);
+        });
+      }
+
+      transactions.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      yielded += transactions.length;
+      pagesFetched += 1;
+
+      // If a specific limit was requested and we've reached it, stop
+      if (options?.limit && yielded >= options.limit) {
+        cursor.queries = {};
+        failure = undefined;
+      }
+
+      const pageCursor = Object.keys(cursor.queries).length > 0
+        ? this.encodeCursor(cursor)
+        : undefined;
+
+      yield { transactions, raw, cursor: pageCursor };
+
+      if (failure) {
+        throw new PartialFetchError(pageCursor!, pagesFetched, failure);
+      }
+    }
+  }
+
+  /**
+   * Fetch the next page of a single address query and advance the cursor
+   * 
+   * Requirements: 2.2 - Pagination support
+   * 
+   * While more matches follow, the transactions of the page's highest block
+   * are held back and the query continues above the block below it, so the
+   * cursor records a height rather than a page number that shifts with the
+   * node's results. This also keeps the stream moving forward on nodes that
+   * ignore the page parameters. The query is dropped from the cursor once
+   * its last page has been fetched. On failure the cursor is left untouched
+   * and the error is rethrown.
+   * 
+   * @param key - Event attribute to match against the address
+   * @param address - The wallet address
+   * @param cursor - Stream cursor holding the position of each query
+   * @param limit - Page size
+   * @param priority - Scheduling priority
+   * @param signal - Optional abort signal
+   * @returns Raw transactions consumed from the page
+   */
+  private async searchPage(
+    key: string,
+    address: string,
+    cursor: StreamCursor,
+    limit: number,
+    priority: RequestPriority,
+    signal?: AbortSignal
+  ): Promise<any[]> {
+    const position = cursor.queries[key];
+    const query = this.buildQuery(key, address, position.height);
+    const { txs, totalCount } = await abortable(
+      this.query(client => client.searchTxPage(query, position.page, limit), priority, signal),
+      signal
+    );
+
+    // Stop once this page reaches the end of the matches
+    if (txs.length < limit || position.page * limit >= totalCount) {
+      delete cursor.queries[key];
+      return txs;
+    }
+
+    // The highest block may continue on the next page, so only the blocks
+    // below it are complete
+    const top = Math.max(...txs.map(tx => tx.height));
+    const complete = txs.filter(tx => tx.height < top);
+
+    if (complete.length === 0) {
+      // The whole page is a single block; page through it
+      position.page += 1;
+      return txs;
+    }
+
+    cursor.queries[key] = { height: top - 1, page: 1 };
+    return complete;
+  }
+
+  /**
+   * Build the search query matching an event attribute against the address
+   * 
+   * @param key - Event attribute to match against the address
+   * @param address - The wallet address
+   * @param minHeight - Optional height the results must be above
+   * @returns Raw tx_search query
+   */
+  private buildQuery(key: string, address: string, minHeight?: number): string {
+    const query = `${key}='${address}'`;
+    return minHeight === undefined ? query : `${query} AND tx.height>${minHeight}`;
+  }
+
+  /**
+   * Create a cursor that starts every address query at the given page
+   * 
+   * @param page - First page to fetch (1-based)
+   * @param minHeight - Optional height the results must be above
+   * @returns Stream cursor
+   */
+  private createCursor(page: number, minHeight?: number): StreamCursor {
+    const queries: Record<string, QueryPosition> = {};
+    for (const key of OsmosisClient.ADDRESS_QUERY_KEYS) {
+      queries[key] = minHeight === undefined ? { page } : { height: minHeight, page };
+    }
+    return { queries };
+  }
+
+  /**
+   * Encode a stream cursor into an opaque string
+   * 
+   * @param cursor - Stream cursor
+   * @returns Opaque cursor string
+   */
+  private encodeCursor(cursor: StreamCursor): string {
+    return btoa(JSON.stringify(cursor));
+  }
+
+  /**
+   * Decode an opaque cursor string produced by encodeCursor
+   * 
+   * @param value - Opaque cursor string
+   * @returns Stream cursor
+   */
+  private decodeCursor(value: string): StreamCursor {
+    try {
+      const cursor = JSON.parse(atob(value));
+      if (!cursor || typeof cursor.queries !== 'object') {
+        throw new Error('Missing queries');
+      }
+      return cursor;
+    } catch {
+      throw new Error('Invalid stream cursor');
+    }
+  }
+
+  /**
+   * Merge the results of several queries, dropping duplicate transactions
+   * 
+   * A transaction usually matches more than one query (e.g. a self-transfer
+   * matches both sender and recipient), so results are keyed by hash.
+   * 
+   * @param results - Raw transactions returned by each query
+   * @returns Unique raw transactions, ordered by block height
+   */
+  private mergeTransactions(results: any[][]): any[] {
+    const byHash = new Map<string, any>();
+
+    for (const txs of results) {
+      for (const tx of txs) {
+        if (!byHash.has(tx.hash)) {
+          byHash.set(tx.hash, tx);
         }
-      } catch (error) {
-        // If we encounter an error during pagination, return what we have
-        console.error('Error fetching transactions:', error);
-        hasMore = false;
       }
     }
 
-    return allTransactions;
+    return Array.from(byHash.values()).sort((a, b) => a.height - b.height);
   }
 
   /**
-   * Parse a raw transaction from CosmJS into our normalized format
+   * Register a handler for messages of one or more types
    * 
-   * @param tx - Raw transaction from CosmJS
+   * Handlers are matched by exact type URL and take precedence over the
+   * built-in ones. Register them before fetching: transactions already
+   * cached are only re-parsed when the parser version changes.
+   * 
+   * @param typeUrls - Exact type URL(s), e.g. "/cosmos.bank.v1beta1.MsgSend"
+   * @param handler - Handler for messages of these types
+   * @returns The client, for chaining
+   */
+  registerMessageHandler(typeUrls: string | string[], handler: MessageHandler): this {
+    this.parser.register(typeUrls, handler);
+    return this;
+  }
+
+  /**
+   * Parse a raw transaction into our normalized format
+   * 
+   * Needs no network access, so cached raw transactions can be re-parsed
+   * when the parser changes.
+   * 
+   * @param raw - Raw transaction with its resolved block time
    * @param address - The wallet address (to determine transaction direction)
    * @returns Normalized transaction
    */
-  private async parseTransaction(tx: any, address: string): Promise<Transaction> {
+  parseRawTransaction(raw: RawTransaction, address: string): Transaction {
+    const tx = raw.data;
+
     // Extract basic transaction info
-    const hash = tx.hash;
-    const timestamp = new Date(tx.height * 5000); // Approximate timestamp (5s per block)
+    const hash = raw.hash;
+    const timestamp = raw.timestamp;
     const status: TransactionStatus = tx.code === 0 ? 'success' : 'failed';
 
-    // Parse transaction type and amounts using TransactionParser
-    const { type, amounts } = this.parser.parseMessages(tx.tx.body.messages, address);
+    // Parse transaction type, amounts, legs and balance changes using TransactionParser
+    const { type, amounts, legs, direction, counterparty, balanceChanges, balanceMismatches } = this.parser.parseMessages(
+      tx.tx.body.messages,
+      address,
+      tx.events,
+      tx.tx.authInfo.fee
+    );
 
     // Parse fee using TransactionParser
     const fee = this.parser.parseFee(tx.tx.authInfo.fee);
+    const feePayer = this.parser.parseFeePayer(tx.tx.authInfo.fee, tx.events);
 
     // Extract memo
     const memo = tx.tx.body.memo || undefined;
@@ -179,11 +639,222 @@ export class OsmosisClient implements BlockchainClient {
       type,
       status,
       amounts,
+      legs,
+      direction,
+      counterparty,
       fee,
+      feePayer,
       memo,
+      balanceChanges,
+      // A failed transaction only charges the fee, so its legs never match
+      balanceMismatches: status === 'success' && balanceMismatches?.length ? balanceMismatches : undefined,
+    };
+  }
+
+  /**
+   * Look up the token metadata, proposals and contracts parsed transactions still lack
+   * 
+   * Lets cached transactions pick up what a failed lookup or a proposal
+   * still in its voting period left open when they were parsed. Lookups
+   * that fail leave the transactions as they are, so a later call retries
+   * them.
+   * 
+   * @param transactions - Parsed transactions
+   * @param signal - Optional abort signal
+   * @returns true if anything was resolved, so the transactions should be re-parsed
+   */
+  resolveTransactions(transactions: Transaction[], signal?: AbortSignal): Promise<boolean> {
+    return this.resolve(transactions, 'high', signal);
+  }
+
+  /**
+   * Run every lookup parsed transactions need
+   * 
+   * @param transactions - Parsed transactions
+   * @param priority - Scheduling priority for the lookups
+   * @param signal - Optional abort signal
+   * @returns true if any lookup gained new info, so the transactions should be re-parsed
+   */
+  private async resolve(transactions: Transaction[], priority: RequestPriority, signal?: AbortSignal): Promise<boolean> {
+    const resolved = await abortable(
+      Promise.all([
+        this.resolveDenoms(transactions, priority),
+        this.resolveProposals(transactions, priority),
+        this.resolveContracts(transactions, priority),
+      ]),
+      signal
+    );
+
+    return resolved.some(Boolean);
+  }
+
+  /**
+   * Look up the metadata of tokens whose decimals aren't known yet
+   * 
+   * Lookups that fail leave the amounts unresolved rather than failing
+   * the fetch.
+   * 
+   * @param transactions - Parsed transactions
+   * @param priority - Scheduling priority for the lookups
+   * @returns true if any token was resolved, so the transactions should be re-parsed
+   */
+  private async resolveDenoms(transactions: Transaction[], priority: RequestPriority): Promise<boolean> {
+    const denoms = transactions
+      .flatMap(tx => [tx.fee, ...tx.legs.flatMap(leg => leg.amounts)])
+      .filter(amount => amount.unresolved)
+      .map(amount => amount.denom)
+      // The bank module knows nothing about CW20 tokens
+      .filter(denom => !denom.startsWith('cw20:'));
+
+    if (denoms.length === 0) {
+      return false;
+    }
+
+    return this.metadata.resolveAll(denoms, priority);
+  }
+
+  /**
+   * Look up the proposals of governance deposits whose outcome isn't known yet
+   * 
+   * Lookups that fail leave the deposits pending rather than failing the
+   * fetch.
+   * 
+   * @param transactions - Parsed transactions
+   * @param priority - Scheduling priority for the lookups
+   * @returns true if any proposal gained new info, so the transactions should be re-parsed
+   */
+  private async resolveProposals(transactions: Transaction[], priority: RequestPriority): Promise<boolean> {
+    const proposalIds = transactions
+      .flatMap(tx => tx.legs)
+      .filter(leg => leg.governance?.proposalId !== undefined && leg.amounts.length > 0)
+      .filter(leg => leg.governance?.depositOutcome === undefined || leg.governance.depositOutcome === 'pending')
+      .map(leg => leg.governance!.proposalId!);
+
+    if (proposalIds.length === 0) {
+      return false;
+    }
+
+    return this.proposals.resolveAll(proposalIds, priority);
+  }
+
+  /**
+   * Look up the code IDs of executed contracts, so adapters can match them by code ID
+   * 
+   * Lookups that fail leave the executions to the adapters matched by
+   * address rather than failing the fetch.
+   * 
+   * @param transactions - Parsed transactions
+   * @param priority - Scheduling priority for the lookups
+   * @returns true if any contract was resolved, so the transactions should be re-parsed
+   */
+  private async resolveContracts(transactions: Transaction[], priority: RequestPriority): Promise<boolean> {
+    const addresses = transactions
+      .flatMap(tx => tx.legs)
+      .filter(leg => leg.contract && leg.contract.codeId === undefined)
+      .map(leg => leg.contract!.address);
+
+    if (addresses.length === 0) {
+      return false;
+    }
+
+    return this.contractMetadata.resolveAll(addresses, priority);
+  }
+
+  /**
+   * Pair a CosmJS transaction with its block time
+   * 
+   * @param tx - Raw transaction from CosmJS
+   * @param priority - Scheduling priority for a header lookup (default: 'high')
+   * @param signal - Optional abort signal
+   * @returns Raw transaction ready for parsing or caching
+   */
+  private async toRawTransaction(
+    tx: any,
+    priority: RequestPriority = 'high',
+    signal?: AbortSignal
+  ): Promise<RawTransaction> {
+    return {
+      hash: tx.hash,
+      height: tx.height,
+      timestamp: await this.resolveTimestamp(tx, priority, signal),
+      data: tx,
     };
   }
 
+  /**
+   * Resolve the timestamp of a transaction
+   * 
+   * Uses the tx response timestamp when the source provides one (REST
+   * endpoints do), otherwise looks up the block header for the height.
+   * 
+   * @param tx - Raw transaction from CosmJS
+   * @param priority - Scheduling priority for a header lookup (default: 'high')
+   * @param signal - Optional abort signal
+   * @returns Block time of the transaction
+   */
+  private resolveTimestamp(tx: any, priority: RequestPriority = 'high', signal?: AbortSignal): Promise<Date> {
+    if (tx.timestamp) {
+      return Promise.resolve(DateFormatter.fromBlockTime(tx.timestamp));
+    }
+
+    return this.getBlockTime(tx.height, priority, signal);
+  }
+
+  /**
+   * Get the block time for a height, using the shared height→time cache
+   * 
+   * A lookup still waiting in the scheduler queue is dropped when the
+   * signal of the caller that started it is aborted. Rejected and aborted
+   * lookups leave the cache straight away, and a caller that joined a
+   * lookup another caller aborted starts a fresh one.
+   * 
+   * @param height - Block height
+   * @param priority - Scheduling priority for the header lookup
+   * @param signal - Optional abort signal
+   * @returns Block time
+   */
+  private async getBlockTime(height: number, priority: RequestPriority, signal?: AbortSignal): Promise<Date> {
+    let lookup = this.blockTimes.get(height);
+
+    if (!lookup) {
+      const started = this.fetchBlockTime(height, priority, signal);
+      const forget = () => {
+        if (this.blockTimes.get(height) === started) {
+          this.blockTimes.delete(height);
+        }
+      };
+
+      this.blockTimes.set(height, started);
+
+      // Don't cache failures, so the next request for this height retries
+      started.then(() => signal?.removeEventListener('abort', forget), forget);
+      signal?.addEventListener('abort', forget, { once: true });
+      lookup = started;
+    }
+
+    try {
+      return await abortable(lookup, signal);
+    } catch (error) {
+      if (error instanceof FetchAbortedError && !signal?.aborted) {
+        return this.getBlockTime(height, priority, signal);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the block header for a height and convert its time
+   * 
+   * @param height - Block height
+   * @param priority - Scheduling priority
+   * @param signal - Optional abort signal, which removes the lookup from the queue
+   * @returns Block time
+   */
+  private async fetchBlockTime(height: number, priority: RequestPriority, signal?: AbortSignal): Promise<Date> {
+    const block = await this.query(client => client.getBlock(height), priority, signal);
+    return DateFormatter.fromBlockTime(block.header.time);
+  }
+
   /**
    * Get detailed information for a specific transaction
    * 
@@ -193,18 +864,20 @@ export class OsmosisClient implements BlockchainClient {
    * @returns Promise resolving to detailed transaction information
    */
   async getTransactionDetails(txHash: string): Promise<TransactionDetail> {
-    if (!this.client) {
-      throw new Error('Client not initialized. Call initialize() first.');
-    }
+    this.ensureInitialized();
 
-    const tx = await this.client.getTx(txHash);
+    const tx: any = await this.query(client => client.getTx(txHash));
     
     if (!tx) {
       throw new Error(`Transaction not found: ${txHash}`);
     }
 
     // Parse basic transaction info
-    const basicTx = await this.parseTransaction(tx, '');
+    const rawTx = await this.toRawTransaction(tx);
+    let basicTx = this.parseRawTransaction(rawTx, '');
+    if (await this.resolve([basicTx], 'high')) {
+      basicTx = this.parseRawTransaction(rawTx, '');
+    }
 
     // Add detailed information
     return {
@@ -229,13 +902,74 @@ export class OsmosisClient implements BlockchainClient {
     return `https://www.mintscan.io/osmosis/txs/${txHash}`;
   }
 
+  /**
+   * Get the RPC connection for an endpoint, connecting on first use
+   * 
+   * @param endpoint - RPC endpoint URL
+   * @returns Connected client
+   */
+  private getClient(endpoint: string): Promise<OsmosisQueryClient> {
+    let client = this.clients.get(endpoint);
+
+    if (!client) {
+      client = OsmosisQueryClient.connect(endpoint);
+      this.clients.set(endpoint, client);
+
+      // Don't keep failed connections, so the next request reconnects
+      client.catch(() => this.clients.delete(endpoint));
+    }
+
+    return client;
+  }
+
+  /**
+   * Run a query through the request scheduler and endpoint pool
+   * 
+   * The scheduler applies rate and concurrency limits; the pool retries on
+   * rate limits, server and network errors and fails over to the next best
+   * endpoint, including mid-pagination.
+   * 
+   * @param operation - Query to run against a connected client
+   * @param priority - Scheduling priority (default: 'high')
+   * @param signal - Optional abort signal
+   * @returns The query result
+   */
+  private query<T>(
+    operation: (client: OsmosisQueryClient) => Promise<T>,
+    priority: RequestPriority = 'high',
+    signal?: AbortSignal
+  ): Promise<T> {
+    this.ensureInitialized();
+    return this.scheduler.schedule(
+      () => this.pool.execute(async endpoint => operation(await this.getClient(endpoint)), signal),
+      { priority, signal }
+    );
+  }
+
+  /**
+   * Throw if initialize() hasn't completed yet
+   * 
+   * Connections that drop later are re-established per request, so their
+   * errors reach the caller instead of this one.
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('Client not initialized. Call initialize() first.');
+    }
+  }
+
   /**
    * Disconnect the client
    */
   async disconnect(): Promise<void> {
-    if (this.client) {
-      this.client.disconnect();
-      this.client = null;
+    const clients = Array.from(this.clients.values());
+    this.clients.clear();
+    this.initialized = false;
+
+    for (const client of await Promise.allSettled(clients)) {
+      if (client.status === 'fulfilled') {
+        client.value.disconnect();
+      }
     }
   }
 }
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for ProposalService
+ *
+ * Tests cover deposit outcomes of passed, vetoed and running proposals,
+ * caching and persistence, and proposals the chain knows nothing about.
+ */
+
+import { ProposalService } from './proposals';
+import { RequestScheduler } from './request-scheduler';
+import { RestClient } from './rest-lookup';
+
+function jsonResponse(status: number, body: unknown = {}): Response {
+  return { status, ok: status >= 200 && status < 300, json: async () => body } as Response;
+}
+
+function proposal(status: string, tally = {}) {
+  return {
+    proposal: {
+      id: '700',
+      title: 'Upgrade',
+      status,
+      voting_end_time: '2024-03-01T12:00:00Z',
+      final_tally_result: { yes_count: '0', abstain_count: '0', no_count: '0', no_with_veto_count: '0', ...tally },
+    },
+  };
+}
+
+const tallyParams = { params: { veto_threshold: '0.334', burn_vote_veto: true } };
+
+describe('ProposalService', () => {
+  let fetchMock: jest.Mock;
+  let rest: RestClient;
+  let service: ProposalService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    rest = new RestClient('https://lcd.example/', {
+      scheduler: new RequestScheduler(),
+      pool: { maxRetries: 0 },
+    });
+    service = new ProposalService({ rest });
+  });
+
+  it('should refund the deposits of a passed proposal', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, proposal('PROPOSAL_STATUS_PASSED', { yes_count: '100' })));
+
+    await expect(service.resolve('700')).resolves.toEqual({
+      title: 'Upgrade',
+      status: 'PROPOSAL_STATUS_PASSED',
+      depositOutcome: 'refunded',
+      settledAt: '2024-03-01T12:00:00Z',
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://lcd.example/cosmos/gov/v1/proposals/700',
+      { signal: expect.any(AbortSignal) }
+    );
+    expect(service.isSettled('700')).toBe(true);
+  });
+
+  it('should burn the deposits of a vetoed proposal', async () => {
+    fetchMock.mockImplementation(async (url: string) => (
+      url.includes('tallying')
+        ? jsonResponse(200, tallyParams)
+        : jsonResponse(200, proposal('PROPOSAL_STATUS_REJECTED', { no_count: '50', no_with_veto_count: '50' }))
+    ));
+
+    await expect(service.resolve('700')).resolves.toEqual(expect.objectContaining({ depositOutcome: 'burned' }));
+  });
+
+  it('should refund the deposits of a proposal rejected without a veto', async () => {
+    fetchMock.mockImplementation(async (url: string) => (
+      url.includes('tallying')
+        ? jsonResponse(200, tallyParams)
+        : jsonResponse(200, proposal('PROPOSAL_STATUS_REJECTED', { no_count: '90', no_with_veto_count: '10' }))
+    ));
+
+    await expect(service.resolve('700')).resolves.toEqual(expect.objectContaining({ depositOutcome: 'refunded' }));
+  });
+
+  it('should persist settled proposals only', async () => {
+    fetchMock.mockImplementation(async (url: string) => (
+      url.endsWith('/700')
+        ? jsonResponse(200, proposal('PROPOSAL_STATUS_PASSED'))
+        : jsonResponse(200, { proposal: { ...proposal('PROPOSAL_STATUS_VOTING_PERIOD').proposal, id: '701' } })
+    ));
+
+    await expect(service.resolveAll(['700', '701'])).resolves.toBe(true);
+    expect(service.get('701')?.depositOutcome).toBe('pending');
+
+    const reloaded = new ProposalService({ rest });
+    expect(reloaded.get('700')?.depositOutcome).toBe('refunded');
+    expect(reloaded.get('701')).toBeUndefined();
+  });
+
+  it('should leave unknown proposals unresolved without failing', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404));
+
+    await expect(service.resolveAll(['700'])).resolves.toBe(false);
+    expect(service.get('700')).toBeUndefined();
+  });
+
+  it('should not take a failing node for an unknown proposal', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(500));
+
+    await expect(service.resolve('700')).rejects.toThrow('status 500');
+
+    fetchMock.mockResolvedValue(jsonResponse(200, proposal('PROPOSAL_STATUS_PASSED')));
+    await expect(service.resolve('700')).resolves.toEqual(expect.objectContaining({ depositOutcome: 'refunded' }));
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Governance proposal service
+ *
+ * Deposits on a proposal are refunded or burned when the proposal ends,
+ * which happens in the chain's end blocker rather than in a transaction of
+ * the depositor. ProposalService looks up how a proposal ended so deposit
+ * legs can record the outcome.
+ *
+ * Requirements: 2.6 - Transaction details extraction
+ */
+
+import type { RequestPriority } from './request-scheduler';
+import { CachedRestLookup, type CachedRestLookupOptions } from './rest-lookup';
+import type { DepositOutcome } from './types';
+
+/**
+ * What is known about a governance proposal
+ */
+export interface ProposalInfo {
+  /** Proposal title, if the chain reports one */
+  title?: string;
+
+  /** Proposal status as reported by the chain (e.g. "PROPOSAL_STATUS_PASSED") */
+  status: string;
+
+  /** What became of the deposits */
+  depositOutcome: DepositOutcome;
+
+  /** When the deposits were refunded or burned (ISO 8601) */
+  settledAt?: string;
+}
+
+/**
+ * Synchronous lookup of cached proposals, as used by the parser
+ */
+export interface ProposalSource {
+  /**
+   * Get what is known about a proposal without touching the network
+   *
+   * @param proposalId - Proposal ID
+   * @returns Cached proposal info, or undefined if nothing is known
+   */
+  get(proposalId: string): ProposalInfo | undefined;
+}
+
+/**
+ * Options for a ProposalService
+ */
+export type ProposalServiceOptions = CachedRestLookupOptions;
+
+/**
+ * Share of NoWithVeto votes above which deposits are burned, used when the
+ * chain's tally parameters can't be read
+ */
+const DEFAULT_VETO_THRESHOLD = 0.334;
+
+/**
+ * ProposalService class
+ *
+ * Only settled proposals are persisted. Proposals that haven't ended yet,
+ * and proposals the chain no longer has (dropped in their deposit period),
+ * are looked up again on a later visit.
+ */
+export class ProposalService extends CachedRestLookup<ProposalInfo> implements ProposalSource {
+  private vetoRule: Promise<{ threshold: number; burns: boolean }> | null = null;
+
+  /**
+   * Create a new ProposalService
+   *
+   * @param options - Optional REST client and storage
+   */
+  constructor(options: ProposalServiceOptions = {}) {
+    super('osmosis-proposals', options);
+  }
+
+  /**
+   * Check whether the deposits on a proposal were refunded or burned
+   *
+   * @param proposalId - Proposal ID
+   * @returns true if the outcome is final
+   */
+  isSettled(proposalId: string): boolean {
+    const info = this.get(proposalId);
+    return info !== undefined && this.isFinal(info);
+  }
+
+  /**
+   * Query a proposal and work out what became of its deposits
+   *
+   * @param proposalId - Proposal ID
+   * @param priority - Scheduling priority
+   * @returns Proposal info, or undefined if the chain has no such proposal
+   */
+  protected async lookup(proposalId: string, priority: RequestPriority): Promise<ProposalInfo | undefined> {
+    const response = await this.rest.getJson(`/cosmos/gov/v1/proposals/${encodeURIComponent(proposalId)}`, priority);
+    if (!response?.proposal) {
+      return undefined;
+    }
+
+    return this.toProposalInfo(response.proposal, priority);
+  }
+
+  /**
+   * Check whether a proposal's deposits were refunded or burned
+   *
+   * @param info - Cached proposal info
+   * @returns true once the outcome is final
+   */
+  protected isFinal(info: ProposalInfo): boolean {
+    return info.depositOutcome !== 'pending';
+  }
+
+  /**
+   * Check whether a proposal is worth keeping across sessions
+   *
+   * @param info - Cached proposal info
+   * @returns true for settled proposals
+   */
+  protected isPersistent(info: ProposalInfo): boolean {
+    return this.isFinal(info);
+  }
+
+  /**
+   * Derive the deposit outcome from a proposal's status and tally
+   *
+   * Deposits are refunded unless the proposal was vetoed, which matches
+   * Osmosis's governance parameters (deposits aren't burned for missing
+   * quorum or for proposals dropped in their deposit period).
+   *
+   * @param proposal - Proposal as returned by the gov module
+   * @param priority - Scheduling priority for the tally parameter lookup
+   * @returns Proposal info
+   */
+  private async toProposalInfo(proposal: any, priority: RequestPriority): Promise<ProposalInfo> {
+    const info = {
+      title: proposal.title || proposal.messages?.[0]?.content?.title || undefined,
+      status: String(proposal.status),
+    };
+
+    switch (proposal.status) {
+      case 'PROPOSAL_STATUS_PASSED':
+      case 'PROPOSAL_STATUS_FAILED':
+        return { ...info, depositOutcome: 'refunded', settledAt: proposal.voting_end_time || undefined };
+
+      case 'PROPOSAL_STATUS_REJECTED': {
+        const vetoed = await this.isVetoed(proposal.final_tally_result, priority);
+        return {
+          ...info,
+          depositOutcome: vetoed ? 'burned' : 'refunded',
+          settledAt: proposal.voting_end_time || undefined,
+        };
+      }
+
+      default:
+        return { ...info, depositOutcome: 'pending' };
+    }
+  }
+
+  /**
+   * Check whether a tally vetoed the proposal, burning its deposits
+   *
+   * @param tally - Final tally of the proposal
+   * @param priority - Scheduling priority for the tally parameter lookup
+   * @returns true if the deposits were burned
+   */
+  private async isVetoed(tally: any, priority: RequestPriority): Promise<boolean> {
+    const counts = ['yes_count', 'abstain_count', 'no_count', 'no_with_veto_count'].map(key => Number(tally?.[key] ?? 0));
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (total === 0) {
+      return false;
+    }
+
+    const rule = await this.getVetoRule(priority);
+    return rule.burns && counts[3] / total > rule.threshold;
+  }
+
+  /**
+   * Get the chain's veto threshold and whether a veto burns deposits
+   *
+   * Read once per service; falls back to the SDK defaults.
+   *
+   * @param priority - Scheduling priority
+   * @returns Veto threshold and burn rule
+   */
+  private getVetoRule(priority: RequestPriority): Promise<{ threshold: number; burns: boolean }> {
+    if (!this.vetoRule) {
+      this.vetoRule = this.rest.getJson('/cosmos/gov/v1/params/tallying', priority)
+        .then(response => ({
+          threshold: Number(response?.tally_params?.veto_threshold ?? response?.params?.veto_threshold ?? DEFAULT_VETO_THRESHOLD),
+          burns: response?.params?.burn_vote_veto !== false,
+        }))
+        .catch(() => {
+          this.vetoRule = null;
+          return { threshold: DEFAULT_VETO_THRESHOLD, burns: true };
+        });
+    }
+
+    return this.vetoRule;
+  }
+}
+
+/**
+ * Proposal service shared by every client by default
+ */
+export const sharedProposals = new ProposalService();
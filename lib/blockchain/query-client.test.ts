@@ -0,0 +1,74 @@
+/**
+ * Unit tests for OsmosisQueryClient
+ * 
+ * Tests cover:
+ * - Single-page transaction search (Requirement 2.2)
+ */
+
+import { connectComet } from '@cosmjs/tendermint-rpc';
+import { OsmosisQueryClient } from './query-client';
+
+jest.mock('@cosmjs/tendermint-rpc', () => ({
+  connectComet: jest.fn(),
+}));
+
+describe('OsmosisQueryClient', () => {
+  let comet: any;
+
+  beforeEach(() => {
+    comet = {
+      disconnect: jest.fn(),
+      txSearch: jest.fn().mockResolvedValue({
+        totalCount: 250,
+        txs: [{
+          hash: new Uint8Array([0xab, 0xcd]),
+          height: 1000,
+          index: 2,
+          tx: new Uint8Array([1, 2, 3]),
+          result: {
+            code: 0,
+            events: [{ type: 'transfer', attributes: [{ key: 'amount', value: '1uosmo' }] }],
+            log: '',
+            gasUsed: BigInt(80000),
+            gasWanted: BigInt(100000),
+          },
+        }],
+      }),
+    };
+    (connectComet as jest.Mock).mockResolvedValue(comet);
+  });
+
+  it('should request a single page in ascending height order', async () => {
+    const client = await OsmosisQueryClient.connect('https://rpc.osmosis.zone');
+
+    await client.searchTxPage("message.sender='osmo1abc'", 3, 100);
+
+    expect(connectComet).toHaveBeenCalledWith('https://rpc.osmosis.zone');
+    expect(comet.txSearch).toHaveBeenCalledTimes(1);
+    expect(comet.txSearch).toHaveBeenCalledWith({
+      query: "message.sender='osmo1abc'",
+      page: 3,
+      per_page: 100,
+      order_by: 'asc',
+    });
+  });
+
+  it('should return the page in the shape of searchTx results with the total count', async () => {
+    const client = await OsmosisQueryClient.connect('https://rpc.osmosis.zone');
+
+    const page = await client.searchTxPage("message.sender='osmo1abc'", 1, 100);
+
+    expect(page.totalCount).toBe(250);
+    expect(page.txs).toEqual([{
+      height: 1000,
+      txIndex: 2,
+      hash: 'ABCD',
+      code: 0,
+      events: [{ type: 'transfer', attributes: [{ key: 'amount', value: '1uosmo' }] }],
+      rawLog: '',
+      tx: new Uint8Array([1, 2, 3]),
+      gasUsed: BigInt(80000),
+      gasWanted: BigInt(100000),
+    }]);
+  });
+});
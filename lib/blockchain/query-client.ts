@@ -0,0 +1,83 @@
+/**
+ * Paginated transaction search for Osmosis RPC nodes
+ * 
+ * StargateClient.searchTx always walks every page of the node's tx_search
+ * endpoint before returning, so it can't be used to fetch a history page by
+ * page. OsmosisQueryClient adds a search that returns a single page along
+ * with the total number of matches.
+ * 
+ * Requirements: 2.1, 2.2 - Transaction fetching with pagination
+ */
+
+import { toHex } from '@cosmjs/encoding';
+import { StargateClient, fromTendermintEvent, type IndexedTx } from '@cosmjs/stargate';
+import { connectComet } from '@cosmjs/tendermint-rpc';
+
+/**
+ * A transaction returned by a search, in the shape of StargateClient.searchTx
+ * results (without the decoded message responses)
+ */
+export type SearchedTx = Omit<IndexedTx, 'msgResponses'>;
+
+/**
+ * One page of search results
+ */
+export interface TxSearchPage {
+  /** Transactions in the page, in ascending height order */
+  txs: SearchedTx[];
+  
+  /** Number of transactions matching the query across all pages */
+  totalCount: number;
+}
+
+/**
+ * StargateClient with a paginated transaction search
+ */
+export class OsmosisQueryClient extends StargateClient {
+  /**
+   * Connect to an RPC endpoint
+   * 
+   * @param endpoint - RPC endpoint URL
+   * @returns Connected client
+   */
+  static async connect(endpoint: string): Promise<OsmosisQueryClient> {
+    return new OsmosisQueryClient(await connectComet(endpoint), {});
+  }
+
+  /**
+   * Fetch a single page of transactions matching a query
+   * 
+   * Requirements: 2.2 - Pagination support
+   * 
+   * Results are ordered by ascending height, so a page keeps its contents
+   * while new blocks are added.
+   * 
+   * @param query - Raw tx_search query, e.g. "message.sender='osmo1...'"
+   * @param page - Page to fetch (1-based)
+   * @param perPage - Page size (nodes cap this at 100)
+   * @returns Transactions in the page and the total number of matches
+   */
+  async searchTxPage(query: string, page: number, perPage: number): Promise<TxSearchPage> {
+    const response = await this.forceGetCometClient().txSearch({
+      query,
+      page,
+      per_page: perPage,
+      order_by: 'asc',
+    });
+
+    return {
+      totalCount: response.totalCount,
+      txs: response.txs.map(tx => ({
+        height: tx.height,
+        txIndex: tx.index,
+        hash: toHex(tx.hash).toUpperCase(),
+        code: tx.result.code,
+        events: tx.result.events.map(fromTendermintEvent),
+        rawLog: tx.result.log || '',
+        tx: tx.tx,
+        gasUsed: tx.result.gasUsed,
+        gasWanted: tx.result.gasWanted,
+      })),
+    };
+  }
+}
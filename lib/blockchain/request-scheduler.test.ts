@@ -0,0 +1,146 @@
+/**
+ * Unit tests for RequestScheduler
+ *
+ * Tests cover:
+ * - Bounded concurrency
+ * - Priority ordering
+ * - Token-bucket rate limiting
+ * - Queue stats and abort handling
+ */
+
+import { RequestScheduler } from './request-scheduler';
+import { FetchAbortedError } from './errors';
+
+/**
+ * A task that stays pending until released
+ */
+function deferredTask<T>(value: T) {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  const task = jest.fn(async () => {
+    await done;
+    return value;
+  });
+  return { task, release };
+}
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run no more than maxConcurrency requests at once', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 2 });
+    const tasks = [deferredTask(1), deferredTask(2), deferredTask(3)];
+
+    const results = tasks.map(({ task }) => scheduler.schedule(task));
+
+    expect(tasks[0].task).toHaveBeenCalled();
+    expect(tasks[1].task).toHaveBeenCalled();
+    expect(tasks[2].task).not.toHaveBeenCalled();
+    expect(scheduler.getStats()).toMatchObject({ queued: 1, active: 2 });
+
+    tasks[0].release();
+    await results[0];
+
+    expect(tasks[2].task).toHaveBeenCalled();
+
+    tasks[1].release();
+    tasks[2].release();
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3]);
+  });
+
+  it('should start high-priority requests before low-priority ones', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = deferredTask('blocker');
+    const order: string[] = [];
+
+    const first = scheduler.schedule(blocker.task);
+    const low = scheduler.schedule(async () => {
+      order.push('low');
+    }, { priority: 'low' });
+    const high = scheduler.schedule(async () => {
+      order.push('high');
+    }, { priority: 'high' });
+
+    blocker.release();
+    await Promise.all([first, low, high]);
+
+    expect(order).toEqual(['high', 'low']);
+  });
+
+  it('should limit the request rate once the burst is spent', async () => {
+    jest.useFakeTimers();
+    const scheduler = new RequestScheduler({ requestsPerSecond: 2, burst: 1 });
+    const task = jest.fn().mockResolvedValue('ok');
+
+    const results = [scheduler.schedule(task), scheduler.schedule(task), scheduler.schedule(task)];
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(task).toHaveBeenCalledTimes(3);
+
+    await expect(Promise.all(results)).resolves.toEqual(['ok', 'ok', 'ok']);
+  });
+
+  it('should count completed and failed requests', async () => {
+    const scheduler = new RequestScheduler();
+
+    await scheduler.schedule(async () => 'ok');
+    await expect(scheduler.schedule(async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(scheduler.getStats()).toEqual({ queued: 0, active: 0, completed: 1, failed: 1 });
+  });
+
+  it('should notify subscribers until they unsubscribe', async () => {
+    const scheduler = new RequestScheduler();
+    const listener = jest.fn();
+
+    const unsubscribe = scheduler.subscribe(listener);
+    await scheduler.schedule(async () => 'ok');
+
+    expect(listener).toHaveBeenLastCalledWith({ queued: 0, active: 0, completed: 1, failed: 0 });
+
+    listener.mockClear();
+    unsubscribe();
+    await scheduler.schedule(async () => 'ok');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should drop queued requests when their signal aborts', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrency: 1 });
+    const blocker = deferredTask('blocker');
+    const queued = jest.fn().mockResolvedValue('never');
+    const controller = new AbortController();
+
+    const first = scheduler.schedule(blocker.task);
+    const second = scheduler.schedule(queued, { signal: controller.signal });
+
+    controller.abort();
+    await expect(second).rejects.toBeInstanceOf(FetchAbortedError);
+    expect(scheduler.getStats().queued).toBe(0);
+
+    blocker.release();
+    await first;
+    expect(queued).not.toHaveBeenCalled();
+  });
+
+  it('should reject immediately when the signal is already aborted', async () => {
+    const scheduler = new RequestScheduler();
+    const task = jest.fn().mockResolvedValue('never');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(scheduler.schedule(task, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(FetchAbortedError);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Request scheduler for chain queries
+ * 
+ * Public nodes throttle clients that send bursts of requests, which block
+ * time lookups and multi-query fetching easily do. Every network call in the
+ * blockchain layer goes through a RequestScheduler, which applies token-bucket
+ * rate limiting, bounds how many requests are in flight and runs
+ * high-priority requests (the page the user is looking at) before
+ * low-priority ones (background backfill).
+ * 
+ * Requirements: 2.1, 2.2 - Transaction fetching with pagination
+ */
+
+import { FetchAbortedError } from './errors';
+
+/**
+ * Request priority; high-priority requests always run first
+ */
+export type RequestPriority = 'high' | 'low';
+
+/**
+ * Tunables for a RequestScheduler
+ */
+export interface RequestSchedulerOptions {
+  /** Maximum number of requests in flight (default: 6) */
+  maxConcurrency?: number;
+  
+  /** Sustained request rate (default: 10 per second) */
+  requestsPerSecond?: number;
+  
+  /** Requests that may start back to back before the rate applies (default: 20) */
+  burst?: number;
+}
+
+/**
+ * Options for a single scheduled request
+ */
+export interface ScheduleOptions {
+  /** Request priority (default: 'high') */
+  priority?: RequestPriority;
+  
+  /** Removes the request from the queue if aborted before it starts */
+  signal?: AbortSignal;
+}
+
+/**
+ * Snapshot of the scheduler queue
+ */
+export interface QueueStats {
+  /** Requests waiting to start */
+  queued: number;
+  
+  /** Requests in flight */
+  active: number;
+  
+  /** Requests that finished successfully */
+  completed: number;
+  
+  /** Requests that failed */
+  failed: number;
+}
+
+/**
+ * Listener notified whenever the queue changes
+ */
+export type QueueStatsListener = (stats: QueueStats) => void;
+
+/**
+ * A request waiting in the queue
+ */
+interface QueuedRequest {
+  start: () => void;
+}
+
+const DEFAULT_OPTIONS: Required<RequestSchedulerOptions> = {
+  maxConcurrency: 6,
+  requestsPerSecond: 10,
+  burst: 20,
+};
+
+/**
+ * RequestScheduler class
+ * 
+ * Queues requests by priority and starts them as concurrency and rate
+ * limits allow.
+ */
+export class RequestScheduler {
+  private options: Required<RequestSchedulerOptions>;
+  private queues: Record<RequestPriority, QueuedRequest[]> = { high: [], low: [] };
+  private listeners: Set<QueueStatsListener> = new Set();
+  private active = 0;
+  private completed = 0;
+  private failed = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private refillTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Create a new RequestScheduler
+   * 
+   * @param options - Optional concurrency and rate limits
+   */
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.tokens = this.options.burst;
+  }
+
+  /**
+   * Schedule a request
+   * 
+   * @param task - Function performing the request once it may start
+   * @param options - Optional priority and abort signal
+   * @returns Promise settling with the task result
+   */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { priority = 'high', signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new FetchAbortedError());
+        return;
+      }
+
+      const queue = this.queues[priority];
+
+      const onAbort = () => {
+        queue.splice(queue.indexOf(request), 1);
+        reject(new FetchAbortedError());
+        this.notify();
+      };
+
+      const request: QueuedRequest = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active += 1;
+
+          // Free the slot before settling so callers see up-to-date stats
+          task().then(
+            value => {
+              this.finish(true);
+              resolve(value);
+            },
+            error => {
+              this.finish(false);
+              reject(error);
+            }
+          );
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.push(request);
+      this.notify();
+      this.drain();
+    });
+  }
+
+  /**
+   * Get a snapshot of the queue
+   * 
+   * @returns Current queue stats
+   */
+  getStats(): QueueStats {
+    return {
+      queued: this.queues.high.length + this.queues.low.length,
+      active: this.active,
+      completed: this.completed,
+      failed: this.failed,
+    };
+  }
+
+  /**
+   * Listen for queue changes
+   * 
+   * @param listener - Called with fresh stats whenever the queue changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: QueueStatsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Record a finished request and start the next queued ones
+   * 
+   * @param succeeded - Whether the request succeeded
+   */
+  private finish(succeeded: boolean): void {
+    this.active -= 1;
+    if (succeeded) {
+      this.completed += 1;
+    } else {
+      this.failed += 1;
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Start queued requests while concurrency and rate limits allow
+   */
+  private drain(): void {
+    while (this.active < this.options.maxConcurrency && this.hasQueued()) {
+      this.refillTokens();
+
+      if (this.tokens < 1) {
+        this.scheduleRefill();
+        return;
+      }
+
+      this.tokens -= 1;
+      const request = this.queues.high.shift() ?? this.queues.low.shift();
+      request!.start();
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Check whether any request is waiting
+   * 
+   * @returns true if a queue is non-empty
+   */
+  private hasQueued(): boolean {
+    return this.queues.high.length > 0 || this.queues.low.length > 0;
+  }
+
+  /**
+   * Add the tokens earned since the last refill, up to the burst size
+   */
+  private refillTokens(): void {
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) / 1000) * this.options.requestsPerSecond;
+
+    this.tokens = Math.min(this.options.burst, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Resume draining once the next token is available
+   */
+  private scheduleRefill(): void {
+    if (this.refillTimer) {
+      return;
+    }
+
+    const delay = Math.ceil(((1 - this.tokens) / this.options.requestsPerSecond) * 1000);
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = null;
+      this.drain();
+    }, delay);
+  }
+
+  /**
+   * Notify listeners of the current queue stats
+   */
+  private notify(): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const stats = this.getStats();
+    this.listeners.forEach(listener => listener(stats));
+  }
+}
+
+/**
+ * Scheduler shared by every client by default
+ * 
+ * Public nodes rate limit per caller, so clients created for different
+ * wallets must draw from the same budget.
+ */
+export const sharedScheduler = new RequestScheduler();
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for RestClient and CachedRestLookup
+ *
+ * Tests cover endpoint failover, which statuses mean an unknown entry, and
+ * the caching shared by the lookup services.
+ */
+
+import { EndpointRequestError, FetchAbortedError } from './errors';
+import { RequestScheduler } from './request-scheduler';
+import { CachedRestLookup, RestClient } from './rest-lookup';
+
+function jsonResponse(status: number, body: unknown = {}): Response {
+  return { status, ok: status >= 200 && status < 300, json: async () => body } as Response;
+}
+
+/**
+ * A fetch that never answers, rejecting only once its request is aborted
+ */
+function hangingFetch(url: string, init: RequestInit): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    init.signal!.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+  });
+}
+
+/**
+ * Looks names up at /names/<key>; a name is final once it is confirmed
+ */
+class NameLookup extends CachedRestLookup<{ name: string; confirmed: boolean }> {
+  constructor(rest: RestClient) {
+    super('test-names', { rest });
+  }
+
+  protected async lookup(key: string) {
+    return (await this.rest.getJson(`/names/${key}`))?.entry;
+  }
+
+  protected isFinal(entry: { confirmed: boolean }) {
+    return entry.confirmed;
+  }
+
+  protected isPersistent(entry: { confirmed: boolean }) {
+    return entry.confirmed;
+  }
+}
+
+describe('RestClient', () => {
+  let fetchMock: jest.Mock;
+  let rest: RestClient;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    rest = new RestClient(['https://lcd-a.example/', 'https://lcd-b.example'], {
+      scheduler: new RequestScheduler(),
+      pool: { baseDelayMs: 0 },
+    });
+  });
+
+  it('should return the parsed response', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { ok: true }));
+
+    await expect(rest.getJson('/path')).resolves.toEqual({ ok: true });
+    expect(fetchMock).toHaveBeenCalledWith('https://lcd-a.example/path', { signal: expect.any(AbortSignal) });
+  });
+
+  it('should treat only a 404 as an unknown entry', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(404));
+
+    await expect(rest.getJson('/path')).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail over to the next endpoint on server errors and network failures', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(500))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(jsonResponse(200, { ok: true }));
+
+    await expect(rest.getJson('/path')).resolves.toEqual({ ok: true });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://lcd-a.example/path',
+      'https://lcd-b.example/path',
+      'https://lcd-a.example/path',
+    ]);
+  });
+
+  it('should fail over to the next endpoint when a request times out', async () => {
+    rest = new RestClient(['https://lcd-a.example', 'https://lcd-b.example'], {
+      scheduler: new RequestScheduler(),
+      pool: { baseDelayMs: 0 },
+      timeoutMs: 10,
+    });
+    fetchMock
+      .mockImplementationOnce(hangingFetch)
+      .mockResolvedValue(jsonResponse(200, { ok: true }));
+
+    await expect(rest.getJson('/path')).resolves.toEqual({ ok: true });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://lcd-a.example/path',
+      'https://lcd-b.example/path',
+    ]);
+  });
+
+  it('should stop when the caller aborts', async () => {
+    const controller = new AbortController();
+    fetchMock.mockImplementation(hangingFetch);
+
+    const request = rest.getJson('/path', 'high', controller.signal);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(FetchAbortedError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail on client errors without retrying', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(400));
+
+    const failure = rest.getJson('/path');
+
+    await expect(failure).rejects.toBeInstanceOf(EndpointRequestError);
+    await expect(failure).rejects.toThrow('REST lookup failed with status 400: /path');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CachedRestLookup', () => {
+  let fetchMock: jest.Mock;
+  let rest: RestClient;
+  let names: NameLookup;
+
+  beforeEach(() => {
+    localStorage.clear();
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    rest = new RestClient('https://lcd.example', { scheduler: new RequestScheduler(), pool: { maxRetries: 0 } });
+    names = new NameLookup(rest);
+  });
+
+  it('should share a lookup between concurrent callers and keep final entries', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { entry: { name: 'Alice', confirmed: true } }));
+
+    await Promise.all([names.resolve('a'), names.resolve('a')]);
+    await expect(names.resolveAll(['a'])).resolves.toBe(false);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(new NameLookup(rest).get('a')).toEqual({ name: 'Alice', confirmed: true });
+  });
+
+  it('should keep entries that aren\'t final for the session only', async () => {
+    fetchMock.mockResolvedValue(jsonResponse(200, { entry: { name: 'Bob', confirmed: false } }));
+
+    await expect(names.resolveAll(['b'])).resolves.toBe(true);
+    await names.resolve('b');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(names.get('b')).toEqual({ name: 'Bob', confirmed: false });
+    expect(new NameLookup(rest).get('b')).toBeUndefined();
+  });
+
+  it('should forget failed lookups so the next call retries them', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(503));
+
+    await expect(names.resolve('c')).rejects.toThrow('status 503');
+
+    fetchMock.mockResolvedValue(jsonResponse(404));
+    await expect(names.resolve('c')).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
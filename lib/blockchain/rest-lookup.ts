@@ -0,0 +1,316 @@
+/**
+ * Cached lookups against the Osmosis REST (LCD) API
+ *
+ * Denom metadata, governance proposals and contract info are looked up on
+ * chain by key, once per session, and what was found is persisted to
+ * localStorage so transactions can be re-parsed offline. RestClient sends
+ * the requests through the request scheduler and an endpoint pool, and
+ * CachedRestLookup holds the caching every lookup service shares.
+ *
+ * Requirements: 2.1, 9.1 - Reliable transaction fetching
+ */
+
+import { EndpointPool, type EndpointPoolOptions } from './endpoint-pool';
+import { EndpointRequestError, FetchAbortedError } from './errors';
+import { sharedScheduler, type RequestPriority, type RequestScheduler } from './request-scheduler';
+
+/**
+ * Public Osmosis REST (LCD) endpoints used when none are configured
+ */
+export const DEFAULT_REST_ENDPOINTS = [
+  'https://lcd.osmosis.zone',
+  'https://osmosis-rest.publicnode.com',
+  'https://osmosis-api.polkachu.com',
+];
+
+/**
+ * Get the REST endpoints configured through NEXT_PUBLIC_OSMOSIS_REST
+ *
+ * The variable holds a comma-separated list; the public defaults are used
+ * when it is unset or empty.
+ *
+ * @returns REST endpoint URLs
+ */
+function getConfiguredRestEndpoints(): string[] {
+  const configured = (process.env.NEXT_PUBLIC_OSMOSIS_REST || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+
+  return configured.length > 0 ? configured : DEFAULT_REST_ENDPOINTS;
+}
+
+/**
+ * Options for a RestClient
+ */
+export interface RestClientOptions {
+  /** Retry, circuit breaker and health check tunables for the REST pool */
+  pool?: EndpointPoolOptions;
+
+  /** Scheduler for network calls (default: the scheduler shared by all clients) */
+  scheduler?: RequestScheduler;
+
+  /** Time a single request may take, response body included (default: 10000ms) */
+  timeoutMs?: number;
+}
+
+/**
+ * RestClient class
+ *
+ * GETs JSON from the healthiest REST endpoint, failing over to the others
+ * on rate limits, server errors and network failures.
+ */
+export class RestClient {
+  private pool: EndpointPool;
+  private scheduler: RequestScheduler;
+  private timeoutMs: number;
+
+  /**
+   * Create a new RestClient
+   *
+   * @param restEndpoints - REST endpoint URL(s), in order of preference
+   * @param options - Optional endpoint pool tunables, scheduler and request timeout
+   */
+  constructor(
+    restEndpoints: string | string[] = getConfiguredRestEndpoints(),
+    options: RestClientOptions = {}
+  ) {
+    this.pool = new EndpointPool(Array.isArray(restEndpoints) ? restEndpoints : [restEndpoints], options.pool);
+    this.scheduler = options.scheduler ?? sharedScheduler;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+  }
+
+  /**
+   * GET a REST path
+   *
+   * Only a 404 means the chain has no such entry. Any other error status
+   * fails the request once the pool has given up on it, so a node that is
+   * down is never mistaken for an unknown key. A node that doesn't answer
+   * in time counts as a network failure, so the next endpoint is tried.
+   *
+   * @param path - Path below the REST endpoint
+   * @param priority - Scheduling priority (default: 'low')
+   * @param signal - Optional abort signal
+   * @returns Parsed response, or undefined if the chain has no such entry
+   */
+  getJson(path: string, priority: RequestPriority = 'low', signal?: AbortSignal): Promise<any> {
+    return this.scheduler.schedule(
+      () => this.pool.execute(endpoint => this.fetchJson(endpoint, path, signal), signal),
+      { priority, signal }
+    );
+  }
+
+  /**
+   * GET a REST path from one endpoint, giving up after the request timeout
+   *
+   * @param endpoint - REST endpoint URL
+   * @param path - Path below the endpoint
+   * @param signal - Optional abort signal
+   * @returns Parsed response, or undefined if the chain has no such entry
+   */
+  private async fetchJson(endpoint: string, path: string, signal?: AbortSignal): Promise<any> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    const timer = setTimeout(onAbort, this.timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(`${endpoint}${path}`, { signal: controller.signal });
+
+      if (response.status === 404) {
+        return undefined;
+      }
+      if (!response.ok) {
+        throw new EndpointRequestError(
+          endpoint,
+          response.status,
+          `REST lookup failed with status ${response.status}: ${path}`
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new FetchAbortedError();
+      }
+      if (controller.signal.aborted) {
+        // Named like the error of AbortSignal.timeout, which the pool retries
+        throw new DOMException(`REST lookup timed out after ${this.timeoutMs}ms: ${path}`, 'TimeoutError');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * REST client shared by every lookup service by default
+ */
+export const sharedRestClient = new RestClient();
+
+/**
+ * Options for a CachedRestLookup
+ */
+export interface CachedRestLookupOptions {
+  /** REST client to query (default: the client shared by all services) */
+  rest?: RestClient;
+
+  /** Storage to persist entries in (default: localStorage when available) */
+  storage?: Storage | null;
+}
+
+/**
+ * CachedRestLookup class
+ *
+ * Looks entries up by key, at most once at a time, and keeps what was
+ * found in memory and storage. Entries that aren't final yet, and keys the
+ * chain has nothing on, are remembered for the session only, so a later
+ * visit retries them; failed lookups aren't remembered at all.
+ */
+export abstract class CachedRestLookup<T> {
+  protected rest: RestClient;
+  private storageKey: string;
+  private storage: Storage | null;
+  private entries: Map<string, T> | null = null;
+  private lookups: Map<string, Promise<T | undefined>> = new Map();
+
+  /**
+   * Create a new CachedRestLookup
+   *
+   * @param storageKey - Storage key to persist entries under
+   * @param options - Optional REST client and storage
+   */
+  constructor(storageKey: string, options: CachedRestLookupOptions = {}) {
+    this.storageKey = storageKey;
+    this.rest = options.rest ?? sharedRestClient;
+    this.storage = options.storage !== undefined
+      ? options.storage
+      : typeof localStorage !== 'undefined' ? localStorage : null;
+  }
+
+  /**
+   * Get what is known about a key without touching the network
+   *
+   * @param key - Lookup key
+   * @returns Cached entry, or undefined if nothing is known
+   */
+  get(key: string): T | undefined {
+    return this.load().get(key);
+  }
+
+  /**
+   * Look a key up on chain, unless its entry is final
+   *
+   * @param key - Lookup key
+   * @param priority - Scheduling priority (default: 'low')
+   * @returns Entry, or undefined if the chain has none
+   */
+  resolve(key: string, priority: RequestPriority = 'low'): Promise<T | undefined> {
+    const known = this.get(key);
+    if (known !== undefined && this.isFinal(known)) {
+      return Promise.resolve(known);
+    }
+
+    let lookup = this.lookups.get(key);
+    if (!lookup) {
+      lookup = this.lookup(key, priority).then(entry => {
+        if (entry !== undefined) {
+          this.load().set(key, entry);
+          if (this.isPersistent(entry)) {
+            this.persist();
+          }
+        }
+        return entry;
+      });
+      this.lookups.set(key, lookup);
+
+      lookup.catch(() => this.lookups.delete(key));
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Look several keys up, ignoring lookups that fail
+   *
+   * @param keys - Lookup keys
+   * @param priority - Scheduling priority (default: 'low')
+   * @returns true if any key gained new info
+   */
+  async resolveAll(keys: Iterable<string>, priority: RequestPriority = 'low'): Promise<boolean> {
+    const pending = Array.from(new Set(keys)).filter(key => {
+      const known = this.get(key);
+      return known === undefined || !this.isFinal(known);
+    });
+    const before = pending.map(key => this.get(key));
+
+    await Promise.allSettled(pending.map(key => this.resolve(key, priority)));
+
+    return pending.some((key, index) => this.get(key) !== before[index]);
+  }
+
+  /**
+   * Query the chain for a key
+   *
+   * @param key - Lookup key
+   * @param priority - Scheduling priority
+   * @returns Entry, or undefined if the chain has none
+   */
+  protected abstract lookup(key: string, priority: RequestPriority): Promise<T | undefined>;
+
+  /**
+   * Check whether an entry can't change any more, so it is never looked up again
+   *
+   * @param entry - Cached entry
+   * @returns true if the entry is final
+   */
+  protected isFinal(entry: T): boolean {
+    return true;
+  }
+
+  /**
+   * Check whether an entry is worth keeping across sessions
+   *
+   * @param entry - Cached entry
+   * @returns true if the entry is persisted
+   */
+  protected isPersistent(entry: T): boolean {
+    return true;
+  }
+
+  /**
+   * Get the cached entries, loading them from storage on first use
+   *
+   * @returns Cached entries by key
+   */
+  private load(): Map<string, T> {
+    if (!this.entries) {
+      this.entries = new Map();
+
+      try {
+        const data = this.storage?.getItem(this.storageKey);
+        if (data) {
+          this.entries = new Map(Object.entries(JSON.parse(data)));
+        }
+      } catch {
+        // Unreadable storage (e.g. blocked or corrupted) only costs fresh lookups
+      }
+    }
+
+    return this.entries;
+  }
+
+  /**
+   * Write the persistent entries to storage
+   */
+  private persist(): void {
+    try {
+      const persistent = Array.from(this.load()).filter(([, entry]) => this.isPersistent(entry));
+      this.storage?.setItem(this.storageKey, JSON.stringify(Object.fromEntries(persistent)));
+    } catch {
+      // A failed write (e.g. storage full) only repeats the lookups next visit
+    }
+  }
+}
@@ -5,12 +5,106 @@
  */
 
 import { TransactionParser } from './transaction-parser';
+import type { TxEvent } from './event-log';
+import { layerMetadataSources, type DenomInfo, type DenomMetadataSource } from './denom-metadata';
+import { bundledAssets } from './asset-list';
+import { ContractAdapterRegistry, type ContractAdapter } from './contract-adapters';
+
+const SWAPPER = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+const ATOM = 'ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2';
+const USDC = 'ibc/498A0751C798A0D9A389AA3691123DADA57DAA4FE165D5C75894505B876BA6E4';
+const POOL_1 = 'osmo1mw0ac6rwlp5r8wapwk3zs6g29h8fcscxqakdzw9emkne6c8wjp9q0t3v8t';
+const POOL_1464 = 'osmo1rw4rnrx3gzq6a0ntazjjdjlnmwsfyqfc8v9zyxyqy42p4e9e8y9qvr6jyk';
+const FEE_COLLECTOR = 'osmo17xpfvakm2amg962yls6f84z3kell8c5lczssa0';
+const TAKER_FEE_COLLECTOR = 'osmo1dx9kxtwhj3yd8a8n49gr4xy3n9ewzh0ptyckyf';
+
+/**
+ * Build an event the way CosmJS returns it
+ */
+function event(type: string, attributes: Record<string, string>, msgIndex?: number): TxEvent {
+  const entries = Object.entries(attributes).map(([key, value]) => ({ key, value }));
+  if (msgIndex !== undefined) {
+    entries.push({ key: 'msg_index', value: String(msgIndex) });
+  }
+  return { type, attributes: entries };
+}
+
+/**
+ * Bank events of a coin moving between two accounts
+ */
+function move(from: string, to: string, amount: string, msgIndex?: number): TxEvent[] {
+  return [
+    event('coin_spent', { spender: from, amount }, msgIndex),
+    event('coin_received', { receiver: to, amount }, msgIndex),
+    event('transfer', { recipient: to, sender: from, amount }, msgIndex),
+  ];
+}
+
+/**
+ * Events of a uosmo -> ATOM -> USDC route through pools 1 and 1464
+ * 
+ * Mirrors a poolmanager swap on Osmosis: the taker fee is taken from the
+ * input before the first hop, and every hop pays out to the sender.
+ * 
+ * @param amounts - Base unit amounts spent and received along the route
+ * @param options - msgIndex tags the events like SDK 0.50; reportFee adds the tx fee event
+ */
+function multiHopEvents(
+  amounts: { takerFee: string; osmoIn: string; atom: string; usdcOut: string },
+  options: { msgIndex?: number; reportFee?: boolean } = {}
+): TxEvent[] {
+  const { msgIndex, reportFee = true } = options;
+  const feeEvents = [
+    ...move(SWAPPER, FEE_COLLECTOR, '3000uosmo'),
+    ...(reportFee ? [event('tx', { fee: '3000uosmo', fee_payer: SWAPPER })] : []),
+  ];
+
+  return [
+    ...feeEvents,
+    event('message', {
+      action: '/osmosis.poolmanager.v1beta1.MsgSwapExactAmountIn',
+      sender: SWAPPER,
+      module: 'poolmanager',
+    }, msgIndex),
+    ...move(SWAPPER, TAKER_FEE_COLLECTOR, `${amounts.takerFee}uosmo`, msgIndex),
+    ...move(SWAPPER, POOL_1, `${amounts.osmoIn}uosmo`, msgIndex),
+    ...move(POOL_1, SWAPPER, `${amounts.atom}${ATOM}`, msgIndex),
+    event('token_swapped', {
+      module: 'gamm',
+      sender: SWAPPER,
+      pool_id: '1',
+      tokens_in: `${amounts.osmoIn}uosmo`,
+      tokens_out: `${amounts.atom}${ATOM}`,
+    }, msgIndex),
+    ...move(SWAPPER, POOL_1464, `${amounts.atom}${ATOM}`, msgIndex),
+    ...move(POOL_1464, SWAPPER, `${amounts.usdcOut}${USDC}`, msgIndex),
+    event('token_swapped', {
+      module: 'concentratedliquidity',
+      sender: SWAPPER,
+      pool_id: '1464',
+      tokens_in: `${amounts.atom}${ATOM}`,
+      tokens_out: `${amounts.usdcOut}${USDC}`,
+    }, msgIndex),
+  ];
+}
+
+/**
+ * Metadata of the IBC tokens used in the fixtures, as the chain reports it
+ */
+function metadataSource(extra: Record<string, DenomInfo> = {}): DenomMetadataSource {
+  const denoms: Record<string, DenomInfo> = {
+    [ATOM]: { symbol: 'ATOM', exponent: 6, baseDenom: 'uatom', path: 'transfer/channel-0' },
+    [USDC]: { symbol: 'USDC', exponent: 6, baseDenom: 'uusdc', path: 'transfer/channel-750' },
+    ...extra,
+  };
+  return { get: denom => denoms[denom] };
+}
 
 describe('TransactionParser', () => {
   let parser: TransactionParser;
 
   beforeEach(() => {
-    parser = new TransactionParser();
+    parser = new TransactionParser(metadataSource());
   });
 
   describe('parseMessages', () => {
@@ -194,6 +288,11 @@ describe('TransactionParser', () => {
       const result = parser.parseMessages(messages, 'osmo1test');
       expect(result.type).toBe('vote');
       expect(result.amounts).toEqual([]);
+      expect(result.legs[0].governance).toEqual({
+        proposalId: '1',
+        title: undefined,
+        options: [{ option: 'yes', weight: '1' }],
+      });
     });
 
     it('should handle unknown message types', () => {
@@ -209,6 +308,1562 @@ describe('TransactionParser', () => {
     });
   });
 
+  describe('swap events', () => {
+    const exactIn = {
+      '@type': '/osmosis.poolmanager.v1beta1.MsgSwapExactAmountIn',
+      sender: SWAPPER,
+      routes: [
+        { poolId: '1', tokenOutDenom: ATOM },
+        { poolId: '1464', tokenOutDenom: USDC },
+      ],
+      tokenIn: { denom: 'uosmo', amount: '10000000' },
+      tokenOutMinAmount: '5000000',
+    };
+
+    const exactOut = {
+      '@type': '/osmosis.poolmanager.v1beta1.MsgSwapExactAmountOut',
+      sender: SWAPPER,
+      routes: [
+        { poolId: '1', tokenInDenom: 'uosmo' },
+        { poolId: '1464', tokenInDenom: ATOM },
+      ],
+      tokenInMaxAmount: '11000000',
+      tokenOut: { denom: USDC, amount: '5000000' },
+    };
+
+    const exactInAmounts = { takerFee: '10000', osmoIn: '9990000', atom: '612345', usdcOut: '5123456' };
+    const exactOutAmounts = { takerFee: '10490', osmoIn: '10479510', atom: '597612', usdcOut: '5000000' };
+
+    it('should use the actual output of a multi-hop exact-in swap', () => {
+      const events = multiHopEvents(exactInAmounts, { msgIndex: 0 });
+
+      const result = parser.parseMessages([exactIn], SWAPPER, events);
+
+      expect(result.type).toBe('swap');
+      expect(result.amounts).toEqual([
+        { value: '10', denom: 'uosmo', symbol: 'OSMO' },
+        { value: '5.123456', denom: USDC, symbol: 'USDC' },
+      ]);
+    });
+
+    it('should use the actual input of a multi-hop exact-out swap, including the taker fee', () => {
+      const events = multiHopEvents(exactOutAmounts, { msgIndex: 0 });
+
+      const result = parser.parseMessages([exactOut], SWAPPER, events);
+
+      expect(result.amounts.map(amount => [amount.value, amount.denom])).toEqual([
+        ['10.49', 'uosmo'],
+        ['5', USDC],
+      ]);
+    });
+
+    it('should exclude the transaction fee from events without msg_index', () => {
+      // Pre-0.50 events aren't tagged, but the tx event reports the fee
+      const events = multiHopEvents(exactOutAmounts);
+
+      const result = parser.parseMessages([exactOut], SWAPPER, events);
+
+      expect(result.amounts[0]).toEqual({ value: '10.49', denom: 'uosmo', symbol: 'OSMO' });
+    });
+
+    it('should only use events of the swap message', () => {
+      const events = [
+        ...multiHopEvents(exactInAmounts, { msgIndex: 0 }),
+        ...move(SWAPPER, POOL_1, `2000000${USDC}`, 1),
+      ];
+
+      const result = parser.parseMessages(
+        [exactIn, { '@type': '/cosmos.bank.v1beta1.MsgSend', amount: [] }],
+        SWAPPER,
+        events
+      );
+
+      expect(result.amounts[1]).toEqual({ value: '5.123456', denom: USDC, symbol: 'USDC' });
+    });
+
+    it('should net token_swapped hops when balance changes are ambiguous', () => {
+      // No msg_index and no tx fee event: the fee can't be told apart from
+      // the swap input, so the route is read from the token_swapped events
+      const events = multiHopEvents(exactInAmounts, { reportFee: false });
+
+      const inResult = parser.parseMessages([exactIn], SWAPPER, events);
+      expect(inResult.amounts.map(amount => amount.value)).toEqual(['10', '5.123456']);
+
+      const outResult = parser.parseMessages(
+        [exactOut],
+        SWAPPER,
+        multiHopEvents(exactOutAmounts, { reportFee: false })
+      );
+      // token_swapped inputs exclude the taker fee
+      expect(outResult.amounts.map(amount => amount.value)).toEqual(['10.47951', '5']);
+    });
+
+    it('should fall back to the message bounds without events', () => {
+      const inResult = parser.parseMessages([exactIn], SWAPPER, []);
+      expect(inResult.amounts.map(amount => amount.value)).toEqual(['10', '5']);
+
+      const outResult = parser.parseMessages([exactOut], SWAPPER, []);
+      expect(outResult.amounts.map(amount => amount.value)).toEqual(['11', '5']);
+    });
+
+    it('should record the pools of the route', () => {
+      const result = parser.parseMessages([exactIn], SWAPPER, multiHopEvents(exactInAmounts, { msgIndex: 0 }));
+
+      expect(result.legs[0].pools).toEqual(['1', '1464']);
+    });
+  });
+
+  describe('split route swaps', () => {
+    const POOL_1263 = 'osmo1dy46h0a3gyv9ym9q4a6y0khqk5yld8ptm7c9xg5wmqf7fj9qy9mq4jwfz3';
+
+    // As sent by the Osmosis frontend: 60% of the input through OSMO/ATOM
+    // and ATOM/USDC, 40% through the OSMO/USDC pool
+    const splitIn = {
+      '@type': '/osmosis.poolmanager.v1beta1.MsgSplitRouteSwapExactAmountIn',
+      sender: SWAPPER,
+      routes: [
+        {
+          pools: [
+            { poolId: '1', tokenOutDenom: ATOM },
+            { poolId: '1464', tokenOutDenom: USDC },
+          ],
+          tokenInAmount: '6000000',
+        },
+        {
+          pools: [{ poolId: '1263', tokenOutDenom: USDC }],
+          tokenInAmount: '4000000',
+        },
+      ],
+      tokenInDenom: 'uosmo',
+      tokenOutMinAmount: '5000000',
+    };
+
+    const splitOut = {
+      '@type': '/osmosis.poolmanager.v1beta1.MsgSplitRouteSwapExactAmountOut',
+      sender: SWAPPER,
+      routes: [
+        {
+          pools: [
+            { poolId: '1', tokenInDenom: 'uosmo' },
+            { poolId: '1464', tokenInDenom: ATOM },
+          ],
+          tokenOutAmount: '3000000',
+        },
+        {
+          pools: [{ poolId: '1263', tokenInDenom: 'uosmo' }],
+          tokenOutAmount: '2000000',
+        },
+      ],
+      tokenOutDenom: USDC,
+      tokenInMaxAmount: '11000000',
+    };
+
+    /**
+     * Events of the split routes, with the taker fee taken from each route's input
+     */
+    function splitRouteEvents(msgIndex?: number): TxEvent[] {
+      const swapped = (poolId: string, tokensIn: string, tokensOut: string) => event('token_swapped', {
+        module: poolId === '1' ? 'gamm' : 'concentratedliquidity',
+        sender: SWAPPER,
+        pool_id: poolId,
+        tokens_in: tokensIn,
+        tokens_out: tokensOut,
+      }, msgIndex);
+
+      return [
+        ...move(SWAPPER, FEE_COLLECTOR, '3000uosmo'),
+        event('tx', { fee: '3000uosmo', fee_payer: SWAPPER }),
+        ...move(SWAPPER, TAKER_FEE_COLLECTOR, '6000uosmo', msgIndex),
+        ...move(SWAPPER, POOL_1, '5994000uosmo', msgIndex),
+        ...move(POOL_1, SWAPPER, `367407${ATOM}`, msgIndex),
+        swapped('1', '5994000uosmo', `367407${ATOM}`),
+        ...move(SWAPPER, POOL_1464, `367407${ATOM}`, msgIndex),
+        ...move(POOL_1464, SWAPPER, `3074074${USDC}`, msgIndex),
+        swapped('1464', `367407${ATOM}`, `3074074${USDC}`),
+        ...move(SWAPPER, TAKER_FEE_COLLECTOR, '4000uosmo', msgIndex),
+        ...move(SWAPPER, POOL_1263, '3996000uosmo', msgIndex),
+        ...move(POOL_1263, SWAPPER, `2049382${USDC}`, msgIndex),
+        swapped('1263', '3996000uosmo', `2049382${USDC}`),
+      ];
+    }
+
+    it('should total the input and output over all routes', () => {
+      const result = parser.parseMessages([splitIn], SWAPPER, splitRouteEvents(0));
+
+      expect(result.type).toBe('swap');
+      expect(result.amounts).toEqual([
+        { value: '10', denom: 'uosmo', symbol: 'OSMO' },
+        { value: '5.123456', denom: USDC, symbol: 'USDC' },
+      ]);
+      expect(result.legs[0].pools).toEqual(['1', '1464', '1263']);
+    });
+
+    it('should total the route inputs and net the hops when balance changes are ambiguous', () => {
+      const events = splitRouteEvents().filter(candidate => candidate.type !== 'tx');
+
+      const result = parser.parseMessages([splitIn], SWAPPER, events);
+
+      expect(result.amounts.map(amount => [amount.value, amount.denom])).toEqual([
+        ['10', 'uosmo'],
+        ['5.123456', USDC],
+      ]);
+    });
+
+    it('should fall back to the route totals and message bounds without events', () => {
+      const inResult = parser.parseMessages([splitIn], SWAPPER);
+      expect(inResult.amounts.map(amount => [amount.value, amount.denom])).toEqual([
+        ['10', 'uosmo'],
+        ['5', USDC],
+      ]);
+      expect(inResult.legs[0].pools).toEqual(['1', '1464', '1263']);
+
+      const outResult = parser.parseMessages([splitOut], SWAPPER);
+      expect(outResult.amounts.map(amount => [amount.value, amount.denom])).toEqual([
+        ['11', 'uosmo'],
+        ['5', USDC],
+      ]);
+    });
+
+    it('should use the actual input of an exact-out split route swap', () => {
+      const result = parser.parseMessages([splitOut], SWAPPER, splitRouteEvents(0));
+
+      expect(result.type).toBe('swap');
+      expect(result.amounts.map(amount => amount.value)).toEqual(['10', '5.123456']);
+    });
+  });
+
+  describe('reward events', () => {
+    const DISTRIBUTION = 'osmo1jv65s3grqf6v6jl3dp4t6c9t9rk99cd80yhvld';
+    const withdraw = (validator: string) => ({
+      '@type': '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+      delegatorAddress: SWAPPER,
+      validatorAddress: validator,
+    });
+    const validators = [
+      'osmovaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4ep88n0y4',
+      'osmovaloper1z89utvygweg5l56fsk8ak7t6hh88fd0aa9ywed',
+    ];
+
+    it('should total the rewards of every withdraw message per denom', () => {
+      const events = [
+        event('withdraw_rewards', {
+          amount: `1500000uosmo,20${ATOM}`,
+          validator: validators[0],
+          delegator: SWAPPER,
+        }, 0),
+        ...move(DISTRIBUTION, SWAPPER, `1500000uosmo,20${ATOM}`, 0),
+        event('withdraw_rewards', {
+          amount: '250000uosmo',
+          validator: validators[1],
+          delegator: SWAPPER,
+        }, 1),
+        ...move(DISTRIBUTION, SWAPPER, '250000uosmo', 1),
+      ];
+
+      const result = parser.parseMessages(validators.map(withdraw), SWAPPER, events);
+
+      expect(result.type).toBe('claim_rewards');
+      expect(result.amounts).toEqual([
+        { value: '1.75', denom: 'uosmo', symbol: 'OSMO' },
+        { value: '0.00002', denom: ATOM, symbol: 'ATOM' },
+      ]);
+    });
+
+    it('should read withdraw_rewards events without a delegator attribute', () => {
+      const events = [
+        event('withdraw_rewards', { amount: '1000uosmo', validator: validators[0] }),
+        // A validator with nothing accrued reports an empty amount
+        event('withdraw_rewards', { amount: '', validator: validators[1] }),
+      ];
+
+      const result = parser.parseMessages(validators.map(withdraw), SWAPPER, events);
+
+      expect(result.amounts).toEqual([{ value: '0.001', denom: 'uosmo', symbol: 'OSMO' }]);
+    });
+
+    it('should fall back to coin_received events of the withdraw messages', () => {
+      const events = [
+        ...move(SWAPPER, FEE_COLLECTOR, '3000uosmo'),
+        ...move(DISTRIBUTION, SWAPPER, '420000uosmo', 0),
+      ];
+
+      const result = parser.parseMessages([withdraw(validators[0])], SWAPPER, events);
+
+      expect(result.amounts).toEqual([{ value: '0.42', denom: 'uosmo', symbol: 'OSMO' }]);
+    });
+  });
+
+  describe('staking', () => {
+    const DISTRIBUTION = 'osmo1jv65s3grqf6v6jl3dp4t6c9t9rk99cd80yhvld';
+    const BONDED_POOL = 'osmo1fl48vsnmsdzcv85q5d2q4z5ajdha8yu3aq6l09';
+    const VALIDATOR = 'osmovaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4ep88n0y4';
+    const OTHER_VALIDATOR = 'osmovaloper1z89utvygweg5l56fsk8ak7t6hh88fd0aa9ywed';
+    const delegation = {
+      delegatorAddress: SWAPPER,
+      validatorAddress: VALIDATOR,
+      amount: { denom: 'uosmo', amount: '100000000' },
+    };
+    const delegate = { '@type': '/cosmos.staking.v1beta1.MsgDelegate', ...delegation };
+    const autoClaim = (validator: string, amount: string, msgIndex?: number) => [
+      event('withdraw_rewards', { amount, validator, delegator: SWAPPER }, msgIndex),
+      ...move(DISTRIBUTION, SWAPPER, amount, msgIndex),
+    ];
+
+    it('should add the rewards a delegation pays out as an income leg', () => {
+      const events = [
+        ...autoClaim(VALIDATOR, '1234567uosmo', 0),
+        ...move(SWAPPER, BONDED_POOL, '100000000uosmo', 0),
+        event('delegate', { validator: VALIDATOR, delegator: SWAPPER, amount: '100000000uosmo' }, 0),
+      ];
+
+      const result = parser.parseMessages([delegate], SWAPPER, events);
+
+      expect(result.type).toBe('stake');
+      expect(result.amounts).toEqual([{ value: '100', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs).toEqual([
+        expect.objectContaining({ type: 'stake', source: 'message' }),
+        { type: 'claim_rewards', source: 'event', amounts: [{ value: '1.234567', denom: 'uosmo', symbol: 'OSMO' }] },
+      ]);
+    });
+
+    it('should parse MsgBeginRedelegate with the rewards of both validators', () => {
+      const redelegate = {
+        '@type': '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+        delegatorAddress: SWAPPER,
+        validatorSrcAddress: VALIDATOR,
+        validatorDstAddress: OTHER_VALIDATOR,
+        amount: { denom: 'uosmo', amount: '50000000' },
+      };
+      const events = [
+        ...autoClaim(VALIDATOR, '500000uosmo', 0),
+        ...autoClaim(OTHER_VALIDATOR, `100000uosmo,30${ATOM}`, 0),
+        event('redelegate', { source_validator: VALIDATOR, destination_validator: OTHER_VALIDATOR, amount: '50000000uosmo' }, 0),
+      ];
+
+      const result = parser.parseMessages([redelegate], SWAPPER, events);
+
+      expect(result.type).toBe('redelegate');
+      expect(result.amounts).toEqual([{ value: '50', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs[1]).toEqual({
+        type: 'claim_rewards',
+        source: 'event',
+        amounts: [
+          { value: '0.6', denom: 'uosmo', symbol: 'OSMO' },
+          { value: '0.00003', denom: ATOM, symbol: 'ATOM' },
+        ],
+      });
+    });
+
+    it('should parse MsgCancelUnbondingDelegation', () => {
+      const cancel = {
+        '@type': '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+        delegatorAddress: SWAPPER,
+        validatorAddress: VALIDATOR,
+        amount: { denom: 'uosmo', amount: '25000000' },
+        creationHeight: '12345678',
+      };
+
+      const result = parser.parseMessages([cancel], SWAPPER, autoClaim(VALIDATOR, '1000uosmo', 0));
+
+      expect(result.type).toBe('cancel_unbonding');
+      expect(result.amounts).toEqual([{ value: '25', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs[1]).toMatchObject({ type: 'claim_rewards', amounts: [{ value: '0.001' }] });
+    });
+
+    it('should read implicit payouts from distribution transfers before withdraw_rewards was emitted', () => {
+      const undelegate = { ...delegate, '@type': '/cosmos.staking.v1beta1.MsgUndelegate' };
+      const events = [
+        ...move(SWAPPER, FEE_COLLECTOR, '3000uosmo'),
+        event('tx', { fee: '3000uosmo', fee_payer: SWAPPER }),
+        ...move(DISTRIBUTION, SWAPPER, '777000uosmo'),
+        event('unbond', { validator: VALIDATOR, amount: '100000000uosmo' }),
+      ];
+
+      const result = parser.parseMessages([undelegate], SWAPPER, events);
+
+      expect(result.type).toBe('unstake');
+      expect(result.legs[1]).toMatchObject({ type: 'claim_rewards', amounts: [{ value: '0.777' }] });
+    });
+
+    it('should total the rewards of delegations whose events can\'t be told apart', () => {
+      const events = [
+        ...autoClaim(VALIDATOR, '1000uosmo'),
+        ...autoClaim(OTHER_VALIDATOR, '2000uosmo'),
+      ];
+      const messages = [delegate, { ...delegate, validatorAddress: OTHER_VALIDATOR }];
+
+      const result = parser.parseMessages(messages, SWAPPER, events);
+
+      expect(result.legs.filter(leg => leg.type === 'claim_rewards')).toEqual([
+        { type: 'claim_rewards', source: 'event', amounts: [{ value: '0.003', denom: 'uosmo', symbol: 'OSMO' }] },
+      ]);
+    });
+
+    it('should not count rewards of separately parsed messages twice', () => {
+      const withdraw = {
+        '@type': '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+        delegatorAddress: SWAPPER,
+        validatorAddress: VALIDATOR,
+      };
+      const exec = {
+        '@type': '/cosmos.authz.v1beta1.MsgExec',
+        grantee: SWAPPER,
+        msgs: [
+          { typeUrl: '/cosmos.staking.v1beta1.MsgDelegate', value: delegation },
+          { typeUrl: '/cosmos.staking.v1beta1.MsgDelegate', value: { ...delegation, validatorAddress: OTHER_VALIDATOR } },
+        ],
+      };
+      const events = [
+        ...autoClaim(VALIDATOR, '1000uosmo', 0),
+        ...autoClaim(VALIDATOR, '0uosmo', 1),
+        ...autoClaim(OTHER_VALIDATOR, '2000uosmo', 1),
+      ];
+
+      const result = parser.parseMessages([withdraw, exec], SWAPPER, events);
+
+      expect(result.legs.map(leg => [leg.type, leg.source, leg.amounts.map(amount => amount.value)])).toEqual([
+        ['claim_rewards', 'message', ['0.001']],
+        ['stake', 'message', ['100']],
+        ['stake', 'message', ['100']],
+        ['claim_rewards', 'event', ['0.002']],
+      ]);
+    });
+
+    it('should parse validator set delegations with the rewards they pay out', () => {
+      const delegateToSet = {
+        '@type': '/osmosis.valsetpref.v1beta1.MsgDelegateToValidatorSet',
+        delegator: SWAPPER,
+        coin: { denom: 'uosmo', amount: '100000000' },
+      };
+      const events = [
+        ...autoClaim(VALIDATOR, '1000uosmo', 0),
+        ...autoClaim(OTHER_VALIDATOR, '2000uosmo', 0),
+        ...move(SWAPPER, BONDED_POOL, '100000000uosmo', 0),
+      ];
+
+      const result = parser.parseMessages([delegateToSet], SWAPPER, events);
+
+      expect(result.type).toBe('stake');
+      expect(result.amounts).toEqual([{ value: '100', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs[1]).toEqual({
+        type: 'claim_rewards',
+        source: 'event',
+        amounts: [{ value: '0.003', denom: 'uosmo', symbol: 'OSMO' }],
+      });
+      expect(result.balanceMismatches).toEqual([]);
+    });
+
+    it('should parse validator set undelegations, redelegations and reward withdrawals', () => {
+      const undelegate = {
+        '@type': '/osmosis.valsetpref.v1beta1.MsgUndelegateFromValidatorSet',
+        delegator: SWAPPER,
+        coin: { denom: 'uosmo', amount: '5000000' },
+      };
+      const redelegate = { '@type': '/osmosis.valsetpref.v1beta1.MsgRedelegateValidatorSet', delegator: SWAPPER, preferences: [] };
+      const withdraw = { '@type': '/osmosis.valsetpref.v1beta1.MsgWithdrawDelegationRewards', delegator: SWAPPER };
+      const events = [...autoClaim(VALIDATOR, '1000uosmo', 0), ...autoClaim(OTHER_VALIDATOR, '2000uosmo', 0)];
+
+      expect(parser.parseMessages([undelegate], SWAPPER)).toMatchObject({
+        type: 'unstake',
+        amounts: [{ value: '5', denom: 'uosmo', symbol: 'OSMO' }],
+      });
+      expect(parser.parseMessages([redelegate], SWAPPER)).toMatchObject({ type: 'redelegate', amounts: [] });
+      expect(parser.parseMessages([withdraw], SWAPPER, events)).toMatchObject({
+        type: 'claim_rewards',
+        amounts: [{ value: '0.003', denom: 'uosmo', symbol: 'OSMO' }],
+        legs: [expect.objectContaining({ source: 'message' })],
+      });
+    });
+  });
+
+  describe('legs', () => {
+    const send = (amount: string) => ({
+      '@type': '/cosmos.bank.v1beta1.MsgSend',
+      fromAddress: SWAPPER,
+      toAddress: FEE_COLLECTOR,
+      amount: [{ denom: 'uosmo', amount }],
+    });
+
+    it('should create one leg per message in message order', () => {
+      const result = parser.parseMessages([send('1000000'), send('2500000')], SWAPPER);
+
+      expect(result.legs).toEqual([
+        {
+          type: 'transfer',
+          amounts: [{ value: '1', denom: 'uosmo', symbol: 'OSMO' }],
+          source: 'message',
+          msgIndex: 0,
+          typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+          direction: 'out',
+          counterparty: FEE_COLLECTOR,
+        },
+        {
+          type: 'transfer',
+          amounts: [{ value: '2.5', denom: 'uosmo', symbol: 'OSMO' }],
+          source: 'message',
+          msgIndex: 1,
+          typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+          direction: 'out',
+          counterparty: FEE_COLLECTOR,
+        },
+      ]);
+    });
+
+    it('should total the amounts of legs sharing the top-level type', () => {
+      const result = parser.parseMessages([send('1000000'), send('2500000'), send('1')], SWAPPER);
+
+      expect(result.type).toBe('transfer');
+      expect(result.amounts).toEqual([{ value: '3.500001', denom: 'uosmo', symbol: 'OSMO' }]);
+    });
+
+    it('should derive the top-level type from the most significant leg', () => {
+      const messages = [
+        {
+          '@type': '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+          delegatorAddress: SWAPPER,
+          validatorAddress: 'osmovaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4ep88n0y4',
+        },
+        {
+          '@type': '/cosmos.staking.v1beta1.MsgDelegate',
+          delegatorAddress: SWAPPER,
+          validatorAddress: 'osmovaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4ep88n0y4',
+          amount: { denom: 'uosmo', amount: '1500000' },
+        },
+      ];
+      const events = [
+        event('withdraw_rewards', { amount: '1500000uosmo', delegator: SWAPPER }, 0),
+      ];
+
+      const result = parser.parseMessages(messages, SWAPPER, events);
+
+      expect(result.legs.map(leg => leg.type)).toEqual(['claim_rewards', 'stake']);
+      expect(result.legs[0].amounts).toEqual([{ value: '1.5', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.type).toBe('stake');
+      expect(result.amounts).toEqual([{ value: '1.5', denom: 'uosmo', symbol: 'OSMO' }]);
+    });
+
+    it('should add an event leg for rewards no message can be credited with', () => {
+      const messages = [0, 1].map(() => ({
+        '@type': '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+        delegatorAddress: SWAPPER,
+      }));
+      const events = [
+        event('withdraw_rewards', { amount: '1000uosmo' }),
+        event('withdraw_rewards', { amount: '2000uosmo' }),
+      ];
+
+      const result = parser.parseMessages(messages, SWAPPER, events);
+
+      expect(result.legs.map(leg => [leg.source, leg.amounts.length])).toEqual([
+        ['message', 0],
+        ['message', 0],
+        ['event', 1],
+      ]);
+      expect(result.legs[2].amounts).toEqual([{ value: '0.003', denom: 'uosmo', symbol: 'OSMO' }]);
+    });
+
+    it('should keep unknown messages as legs without changing the type', () => {
+      const result = parser.parseMessages([send('1000000'), { '@type': '/unknown.module.MsgUnknown' }], SWAPPER);
+
+      expect(result.type).toBe('transfer');
+      expect(result.legs[1]).toMatchObject({ type: 'unknown', typeUrl: '/unknown.module.MsgUnknown' });
+    });
+  });
+
+  describe('transfers', () => {
+    const OTHER = 'osmo1cyyzpxplxdzkeea7kwsydadg87357qnahakaks';
+    const coins = (amount: string) => [{ denom: 'uosmo', amount }];
+
+    it('should record direction and counterparty of a MsgSend', () => {
+      const send = (fromAddress: string, toAddress: string) => ({
+        '@type': '/cosmos.bank.v1beta1.MsgSend',
+        fromAddress,
+        toAddress,
+        amount: coins('1000000'),
+      });
+
+      expect(parser.parseMessages([send(SWAPPER, OTHER)], SWAPPER)).toMatchObject({
+        direction: 'out',
+        counterparty: OTHER,
+      });
+      expect(parser.parseMessages([send(OTHER, SWAPPER)], SWAPPER)).toMatchObject({
+        direction: 'in',
+        counterparty: OTHER,
+      });
+      expect(parser.parseMessages([send(SWAPPER, SWAPPER)], SWAPPER).direction).toBe('self');
+    });
+
+    it('should count only the wallet\'s own MsgMultiSend inputs or outputs', () => {
+      const multiSend = {
+        '@type': '/cosmos.bank.v1beta1.MsgMultiSend',
+        inputs: [{ address: OTHER, coins: coins('3000000') }],
+        outputs: [
+          { address: SWAPPER, coins: coins('1000000') },
+          { address: FEE_COLLECTOR, coins: coins('2000000') },
+        ],
+      };
+
+      const result = parser.parseMessages([multiSend], SWAPPER);
+
+      expect(result).toMatchObject({
+        type: 'transfer',
+        amounts: [{ value: '1', denom: 'uosmo', symbol: 'OSMO' }],
+        direction: 'in',
+        counterparty: OTHER,
+      });
+    });
+
+    it('should leave the counterparty unset when a MsgMultiSend pays several addresses', () => {
+      const multiSend = {
+        '@type': '/cosmos.bank.v1beta1.MsgMultiSend',
+        inputs: [{ address: SWAPPER, coins: coins('3000000') }],
+        outputs: [
+          { address: OTHER, coins: coins('1000000') },
+          { address: FEE_COLLECTOR, coins: coins('2000000') },
+        ],
+      };
+
+      const result = parser.parseMessages([multiSend], SWAPPER);
+
+      expect(result.amounts).toEqual([{ value: '3', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.direction).toBe('out');
+      expect(result.counterparty).toBeUndefined();
+    });
+
+    it('should drop the top-level direction when transfer legs disagree', () => {
+      const messages = [
+        { '@type': '/cosmos.bank.v1beta1.MsgSend', fromAddress: SWAPPER, toAddress: OTHER, amount: coins('1') },
+        { '@type': '/cosmos.bank.v1beta1.MsgSend', fromAddress: OTHER, toAddress: SWAPPER, amount: coins('1') },
+      ];
+
+      const result = parser.parseMessages(messages, SWAPPER);
+
+      expect(result.legs.map(leg => leg.direction)).toEqual(['out', 'in']);
+      expect(result.direction).toBeUndefined();
+      expect(result.counterparty).toBe(OTHER);
+    });
+  });
+
+  describe('ibc', () => {
+    const HUB_ADDRESS = 'cosmos1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+    const packetData = (data: Record<string, string>) => btoa(JSON.stringify(data));
+    const packet = (data: Record<string, string>) => ({
+      sequence: '1234',
+      sourcePort: 'transfer',
+      sourceChannel: 'channel-0',
+      destinationPort: 'transfer',
+      destinationChannel: 'channel-141',
+      data: packetData(data),
+    });
+    const outgoing = packet({ denom: 'uosmo', amount: '5000000', sender: SWAPPER, receiver: HUB_ADDRESS });
+
+    it('should parse an outgoing MsgTransfer with the channels of its packet', () => {
+      const transfer = {
+        '@type': '/ibc.applications.transfer.v1.MsgTransfer',
+        sourcePort: 'transfer',
+        sourceChannel: 'channel-0',
+        token: { denom: 'uosmo', amount: '5000000' },
+        sender: SWAPPER,
+        receiver: HUB_ADDRESS,
+      };
+      const events = [
+        event('send_packet', {
+          packet_src_port: 'transfer',
+          packet_src_channel: 'channel-0',
+          packet_dst_port: 'transfer',
+          packet_dst_channel: 'channel-141',
+          packet_sequence: '1234',
+        }, 0),
+      ];
+
+      const result = parser.parseMessages([transfer], SWAPPER, events);
+
+      expect(result).toMatchObject({
+        type: 'ibc_transfer_out',
+        amounts: [{ value: '5', denom: 'uosmo', symbol: 'OSMO' }],
+        direction: 'out',
+        counterparty: HUB_ADDRESS,
+      });
+      expect(result.legs[0].ibc).toEqual({
+        sourcePort: 'transfer',
+        sourceChannel: 'channel-0',
+        destinationPort: 'transfer',
+        destinationChannel: 'channel-141',
+        sequence: '1234',
+      });
+    });
+
+    it('should credit the local denom of an incoming MsgRecvPacket', () => {
+      const incoming = {
+        ...packet({ denom: 'uatom', amount: '2500000', sender: HUB_ADDRESS, receiver: SWAPPER }),
+        sourceChannel: 'channel-141',
+        destinationChannel: 'channel-0',
+      };
+      const messages = [
+        { '@type': '/ibc.core.client.v1.MsgUpdateClient', signer: POOL_1 },
+        { '@type': '/ibc.core.channel.v1.MsgRecvPacket', packet: incoming, signer: POOL_1 },
+      ];
+      const events = [
+        event('fungible_token_packet', {
+          module: 'transfer',
+          sender: HUB_ADDRESS,
+          receiver: SWAPPER,
+          denom: 'uatom',
+          amount: '2500000',
+          success: 'true',
+        }, 1),
+        event('coin_received', { receiver: SWAPPER, amount: `2500000${ATOM}` }, 1),
+      ];
+
+      const result = parser.parseMessages(messages, SWAPPER, events);
+
+      expect(result).toMatchObject({
+        type: 'ibc_transfer_in',
+        amounts: [{ value: '2.5', denom: ATOM, symbol: 'ATOM' }],
+        direction: 'in',
+        counterparty: HUB_ADDRESS,
+      });
+      expect(result.legs[1].ibc).toMatchObject({ sourceChannel: 'channel-141', destinationChannel: 'channel-0' });
+    });
+
+    it('should ignore packets relayed for other receivers', () => {
+      const recv = {
+        '@type': '/ibc.core.channel.v1.MsgRecvPacket',
+        packet: packet({ denom: 'uatom', amount: '1', sender: HUB_ADDRESS, receiver: POOL_1 }),
+      };
+
+      expect(parser.parseMessages([recv], SWAPPER)).toMatchObject({ type: 'unknown', amounts: [] });
+    });
+
+    it('should refund the sender of a timed-out packet', () => {
+      const timeout = { '@type': '/ibc.core.channel.v1.MsgTimeout', packet: outgoing };
+      const events = [event('coin_received', { receiver: SWAPPER, amount: '5000000uosmo' }, 0)];
+
+      const result = parser.parseMessages([timeout], SWAPPER, events);
+
+      expect(result).toMatchObject({
+        type: 'ibc_refund',
+        amounts: [{ value: '5', denom: 'uosmo', symbol: 'OSMO' }],
+        direction: 'in',
+        counterparty: HUB_ADDRESS,
+      });
+      expect(result.legs[0].ibc?.sequence).toBe('1234');
+    });
+
+    it('should only refund failed acknowledgements', () => {
+      const ack = (acknowledgement: object) => ({
+        '@type': '/ibc.core.channel.v1.MsgAcknowledgement',
+        packet: outgoing,
+        acknowledgement: btoa(JSON.stringify(acknowledgement)),
+      });
+
+      expect(parser.parseMessages([ack({ result: 'AQ==' })], SWAPPER).type).toBe('unknown');
+      expect(parser.parseMessages([ack({ error: 'ABCI code: 5' })], SWAPPER)).toMatchObject({
+        type: 'ibc_refund',
+        amounts: [{ value: '5', denom: 'uosmo', symbol: 'OSMO' }],
+      });
+    });
+  });
+
+  describe('concentrated liquidity', () => {
+    const CL = '/osmosis.concentratedliquidity.v1beta1';
+    const SPREAD_REWARDS_ACCOUNT = 'osmo1r8fk2ykfhypyj7kdaf9a6zvpp9l3tzhdmc7pl5h2xh4eg6gd7kjq9a6dhm';
+    const INCENTIVES_ACCOUNT = 'osmo1nz7qdp7eg30sr959wvrwn9j9370h4xt6ttm0h3';
+    const range = {
+      pool_id: '1464',
+      lower_tick: '-108000',
+      upper_tick: '342000',
+      join_time: '2024-05-01 10:00:00 +0000 UTC',
+    };
+    const createPosition = {
+      '@type': `${CL}.MsgCreatePosition`,
+      poolId: '1464',
+      sender: SWAPPER,
+      lowerTick: '-108000',
+      upperTick: '342000',
+      tokensProvided: [
+        { denom: ATOM, amount: '10000000' },
+        { denom: USDC, amount: '100000000' },
+      ],
+      tokenMinAmount0: '0',
+      tokenMinAmount1: '0',
+    };
+    const spreadRewardEvents = (positionId: string, tokens: string, msgIndex?: number) => [
+      ...move(SPREAD_REWARDS_ACCOUNT, SWAPPER, tokens, msgIndex),
+      event('collect_spread_rewards', {
+        module: 'concentratedliquidity',
+        sender: SWAPPER,
+        position_id: positionId,
+        tokens_out: tokens,
+      }, msgIndex),
+    ];
+
+    it('should take the deposited tokens of MsgCreatePosition from the events', () => {
+      const events = [
+        ...move(SWAPPER, POOL_1464, `10000000${ATOM},84512345${USDC}`, 0),
+        event('create_position', {
+          module: 'concentratedliquidity',
+          sender: SWAPPER,
+          position_id: '8123',
+          ...range,
+          liquidity: '29088477.123456789012345678',
+          amount0: '10000000',
+          amount1: '84512345',
+        }, 0),
+      ];
+
+      const result = parser.parseMessages([createPosition], SWAPPER, events);
+
+      expect(result.type).toBe('provide_liquidity');
+      expect(result.amounts).toEqual([
+        { value: '10', denom: ATOM, symbol: 'ATOM' },
+        { value: '84.512345', denom: USDC, symbol: 'USDC' },
+      ]);
+      expect(result.legs[0].position).toEqual({
+        positionIds: ['8123'],
+        poolId: '1464',
+        lowerTick: '-108000',
+        upperTick: '342000',
+        liquidity: '29088477.123456789012345678',
+      });
+    });
+
+    it('should fall back to the tokens provided when the events are missing', () => {
+      const result = parser.parseMessages([createPosition], SWAPPER);
+
+      expect(result.amounts.map(amount => amount.value)).toEqual(['10', '100']);
+      expect(result.legs[0].position).toMatchObject({ positionIds: [], poolId: '1464', lowerTick: '-108000' });
+    });
+
+    it('should split collected rewards off a MsgWithdrawPosition', () => {
+      const withdraw = {
+        '@type': `${CL}.MsgWithdrawPosition`,
+        positionId: '8123',
+        sender: SWAPPER,
+        liquidityAmount: '29088477.123456789012345678',
+      };
+      const events = [
+        ...spreadRewardEvents('8123', `1500${ATOM},12000${USDC}`, 0),
+        ...move(INCENTIVES_ACCOUNT, SWAPPER, '250000uosmo', 0),
+        event('collect_incentives', {
+          module: 'concentratedliquidity',
+          sender: SWAPPER,
+          position_id: '8123',
+          tokens_out: '250000uosmo',
+          forfeited_tokens: '',
+        }, 0),
+        ...move(POOL_1464, SWAPPER, `9000000${ATOM},95000000${USDC}`, 0),
+        event('withdraw_position', {
+          module: 'concentratedliquidity',
+          sender: SWAPPER,
+          position_id: '8123',
+          ...range,
+          liquidity: '-29088477.123456789012345678',
+          amount0: '9000000',
+          amount1: '95000000',
+        }, 0),
+      ];
+
+      const result = parser.parseMessages([withdraw], SWAPPER, events);
+
+      expect(result.type).toBe('remove_liquidity');
+      expect(result.legs).toMatchObject([
+        {
+          type: 'remove_liquidity',
+          source: 'message',
+          amounts: [
+            { value: '9', denom: ATOM, symbol: 'ATOM' },
+            { value: '95', denom: USDC, symbol: 'USDC' },
+          ],
+          position: { positionIds: ['8123'], poolId: '1464', liquidity: '29088477.123456789012345678' },
+        },
+        {
+          type: 'collect_spread_rewards',
+          source: 'event',
+          amounts: [
+            { value: '0.0015', denom: ATOM, symbol: 'ATOM' },
+            { value: '0.012', denom: USDC, symbol: 'USDC' },
+          ],
+          position: { positionIds: ['8123'] },
+        },
+        {
+          type: 'collect_incentives',
+          source: 'event',
+          amounts: [{ value: '0.25', denom: 'uosmo', symbol: 'OSMO' }],
+        },
+      ]);
+    });
+
+    it('should count only the added tokens of MsgAddToPosition', () => {
+      const add = {
+        '@type': `${CL}.MsgAddToPosition`,
+        positionId: '8123',
+        sender: SWAPPER,
+        amount0: '5000000',
+        amount1: '50000000',
+        tokenMinAmount0: '0',
+        tokenMinAmount1: '0',
+      };
+      const events = [
+        ...spreadRewardEvents('8123', `1500${ATOM}`, 0),
+        ...move(POOL_1464, SWAPPER, `10000000${ATOM},84512345${USDC}`, 0),
+        event('withdraw_position', { sender: SWAPPER, position_id: '8123', ...range, liquidity: '-29088477.1' }, 0),
+        ...move(SWAPPER, POOL_1464, `15000000${ATOM},134512345${USDC}`, 0),
+        event('create_position', { sender: SWAPPER, position_id: '8200', ...range, liquidity: '45000000.2' }, 0),
+        event('add_to_position', {
+          module: 'concentratedliquidity',
+          sender: SWAPPER,
+          position_id: '8123',
+          new_position_id: '8200',
+          amount0: '5000000',
+          amount1: '50000000',
+        }, 0),
+      ];
+
+      const result = parser.parseMessages([add], SWAPPER, events);
+
+      expect(result.type).toBe('provide_liquidity');
+      expect(result.amounts).toEqual([
+        { value: '5', denom: ATOM, symbol: 'ATOM' },
+        { value: '50', denom: USDC, symbol: 'USDC' },
+      ]);
+      expect(result.legs[0].position).toEqual({
+        positionIds: ['8123'],
+        newPositionId: '8200',
+        poolId: '1464',
+        lowerTick: '-108000',
+        upperTick: '342000',
+        liquidity: '45000000.2',
+      });
+      expect(result.legs[1]).toMatchObject({ type: 'collect_spread_rewards', amounts: [{ value: '0.0015' }] });
+    });
+
+    it('should total the rewards of every position in MsgCollectSpreadRewards', () => {
+      const collect = {
+        '@type': `${CL}.MsgCollectSpreadRewards`,
+        positionIds: ['8123', '8124'],
+        sender: SWAPPER,
+      };
+      const events = [
+        ...spreadRewardEvents('8123', `1500${ATOM}`, 0),
+        ...spreadRewardEvents('8124', `2500${ATOM},7000${USDC}`, 0),
+      ];
+
+      const result = parser.parseMessages([collect], SWAPPER, events);
+
+      expect(result.type).toBe('collect_spread_rewards');
+      expect(result.amounts).toEqual([
+        { value: '0.004', denom: ATOM, symbol: 'ATOM' },
+        { value: '0.007', denom: USDC, symbol: 'USDC' },
+      ]);
+      expect(result.legs).toHaveLength(1);
+      expect(result.legs[0].position).toEqual({ positionIds: ['8123', '8124'] });
+    });
+
+    it('should read MsgCollectIncentives from what the wallet received without collect events', () => {
+      const collect = { '@type': `${CL}.MsgCollectIncentives`, positionIds: ['8123'], sender: SWAPPER };
+      const events = move(INCENTIVES_ACCOUNT, SWAPPER, '250000uosmo', 0);
+
+      const result = parser.parseMessages([collect], SWAPPER, events);
+
+      expect(result).toMatchObject({
+        type: 'collect_incentives',
+        amounts: [{ value: '0.25', denom: 'uosmo', symbol: 'OSMO' }],
+      });
+    });
+  });
+
+  describe('lockups and superfluid staking', () => {
+    const VALIDATOR = 'osmovaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4ep88n0y4';
+    const SHARES = 'gamm/pool/1';
+    const lockEvent = (type: string, attributes: Record<string, string> = {}) => event(type, {
+      period_lock_id: '4321',
+      owner: SWAPPER,
+      amount: `5000000000000000000${SHARES}`,
+      duration: '336h0m0s',
+      unlock_time: '0001-01-01 00:00:00 +0000 UTC',
+      ...attributes,
+    }, 0);
+
+    it('should parse MsgLockTokens with the lock ID and duration', () => {
+      const lock = {
+        '@type': '/osmosis.lockup.MsgLockTokens',
+        owner: SWAPPER,
+        duration: '1209600s',
+        coins: [{ denom: SHARES, amount: '5000000000000000000' }],
+      };
+
+      const result = parser.parseMessages([lock], SWAPPER, [lockEvent('lock_tokens')]);
+
+      expect(result.type).toBe('lock_tokens');
+      expect(result.amounts).toEqual([{ value: '5', denom: SHARES, symbol: 'GAMM-1' }]);
+      expect(result.legs[0].lock).toEqual({ lockId: '4321', durationSeconds: 1209600 });
+    });
+
+    it('should take the tokens of a whole-lock MsgBeginUnlocking from its event', () => {
+      const unlock = { '@type': '/osmosis.lockup.MsgBeginUnlocking', owner: SWAPPER, ID: '4321', coins: [] };
+
+      const result = parser.parseMessages([unlock], SWAPPER, [
+        lockEvent('begin_unlock', { unlock_time: '2024-05-15 10:00:00 +0000 UTC' }),
+      ]);
+
+      expect(result.type).toBe('begin_unlocking');
+      expect(result.amounts).toEqual([{ value: '5', denom: SHARES, symbol: 'GAMM-1' }]);
+      expect(result.legs[0].lock).toEqual({ lockId: '4321', durationSeconds: 1209600 });
+    });
+
+    it('should parse MsgLockAndSuperfluidDelegate with the new lock and validator', () => {
+      const lockAndDelegate = {
+        '@type': '/osmosis.superfluid.MsgLockAndSuperfluidDelegate',
+        sender: SWAPPER,
+        coins: [{ denom: SHARES, amount: '5000000000000000000' }],
+        valAddr: VALIDATOR,
+      };
+      const events = [
+        lockEvent('lock_tokens'),
+        event('superfluid_delegate', { lock_id: '4321', validator: VALIDATOR }, 0),
+      ];
+
+      const result = parser.parseMessages([lockAndDelegate], SWAPPER, events);
+
+      expect(result.type).toBe('superfluid_delegate');
+      expect(result.amounts).toEqual([{ value: '5', denom: SHARES, symbol: 'GAMM-1' }]);
+      expect(result.legs[0].lock).toEqual({ lockId: '4321', durationSeconds: 1209600, validator: VALIDATOR });
+    });
+
+    it('should not move tokens when superfluid delegating an existing lock', () => {
+      const delegate = {
+        '@type': '/osmosis.superfluid.MsgSuperfluidDelegate',
+        sender: SWAPPER,
+        lockId: '4321',
+        valAddr: VALIDATOR,
+      };
+
+      const result = parser.parseMessages([delegate], SWAPPER, [
+        event('superfluid_delegate', { lock_id: '4321', validator: VALIDATOR }, 0),
+      ]);
+
+      expect(result.type).toBe('superfluid_delegate');
+      expect(result.amounts).toEqual([]);
+      expect(result.legs[0].lock).toMatchObject({ lockId: '4321', validator: VALIDATOR });
+    });
+
+    it('should parse MsgSuperfluidUndelegateAndUnbondLock with the unbonded shares', () => {
+      const undelegate = {
+        '@type': '/osmosis.superfluid.MsgSuperfluidUndelegateAndUnbondLock',
+        sender: SWAPPER,
+        lockId: '4321',
+        coin: { denom: SHARES, amount: '2000000000000000000' },
+      };
+      const events = [
+        event('superfluid_undelegate', { lock_id: '4321' }, 0),
+        lockEvent('begin_unlock', { period_lock_id: '4400', amount: `2000000000000000000${SHARES}` }),
+      ];
+
+      const result = parser.parseMessages([undelegate], SWAPPER, events);
+
+      expect(result.type).toBe('superfluid_undelegate');
+      expect(result.amounts).toEqual([{ value: '2', denom: SHARES, symbol: 'GAMM-1' }]);
+      expect(result.legs[0].lock).toEqual({ lockId: '4321', durationSeconds: 1209600 });
+    });
+
+    it('should read protobuf duration objects', () => {
+      const lock = {
+        '@type': '/osmosis.lockup.MsgLockTokens',
+        owner: SWAPPER,
+        duration: { seconds: '86400', nanos: 0 },
+        coins: [{ denom: SHARES, amount: '1000000000000000000' }],
+      };
+
+      const result = parser.parseMessages([lock], SWAPPER);
+
+      expect(result.legs[0].lock).toEqual({ durationSeconds: 86400 });
+    });
+  });
+
+  describe('governance', () => {
+    const GOV_MODULE = 'osmo10d07y265gmmuvt4z0w9aw880jnsr700jjeq4qp';
+    const deposit = {
+      '@type': '/cosmos.gov.v1beta1.MsgDeposit',
+      proposalId: '700',
+      depositor: SWAPPER,
+      amount: [{ denom: 'uosmo', amount: '500000000' }],
+    };
+
+    it('should parse MsgVoteWeighted with normalized weights', () => {
+      const vote = {
+        '@type': '/cosmos.gov.v1.MsgVoteWeighted',
+        proposalId: '701',
+        voter: SWAPPER,
+        options: [
+          { option: 1, weight: '0.700000000000000000' },
+          { option: 'VOTE_OPTION_ABSTAIN', weight: '300000000000000000' },
+        ],
+      };
+
+      const result = parser.parseMessages([vote], SWAPPER);
+
+      expect(result.type).toBe('vote');
+      expect(result.legs[0].governance?.options).toEqual([
+        { option: 'yes', weight: '0.7' },
+        { option: 'abstain', weight: '0.3' },
+      ]);
+    });
+
+    it('should parse MsgDeposit as an outflow without an outcome until the proposal is known', () => {
+      const result = parser.parseMessages([deposit], SWAPPER, move(SWAPPER, GOV_MODULE, '500000000uosmo', 0));
+
+      expect(result.type).toBe('deposit');
+      expect(result.amounts).toEqual([{ value: '500', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs[0].governance).toEqual({ proposalId: '700', title: undefined });
+    });
+
+    it('should record the deposit outcome of known proposals', () => {
+      const proposals = {
+        get: (id: string) => id === '700'
+          ? { title: 'Upgrade', status: 'PROPOSAL_STATUS_PASSED', depositOutcome: 'refunded' as const, settledAt: '2024-03-01T12:00:00Z' }
+          : undefined,
+      };
+      const governed = new TransactionParser(metadataSource(), proposals);
+
+      const result = governed.parseMessages([deposit], SWAPPER);
+
+      expect(result.legs[0].governance).toEqual({
+        proposalId: '700',
+        title: 'Upgrade',
+        depositOutcome: 'refunded',
+        settledAt: new Date('2024-03-01T12:00:00Z'),
+      });
+    });
+
+    it('should take the ID of a submitted proposal from its events', () => {
+      const submit = {
+        '@type': '/cosmos.gov.v1.MsgSubmitProposal',
+        proposer: SWAPPER,
+        title: 'Add incentives',
+        initialDeposit: [{ denom: 'uosmo', amount: '400000000' }],
+        messages: [],
+      };
+      const events = [
+        ...move(SWAPPER, GOV_MODULE, '400000000uosmo', 0),
+        event('submit_proposal', { proposal_id: '702', proposal_messages: ',' }, 0),
+      ];
+
+      const result = parser.parseMessages([submit], SWAPPER, events);
+
+      expect(result.type).toBe('submit_proposal');
+      expect(result.amounts).toEqual([{ value: '400', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs[0].governance).toEqual({ proposalId: '702', title: 'Add incentives' });
+    });
+  });
+
+  describe('token factory', () => {
+    const OTHER = 'osmo1cyyzpxplxdzkeea7kwsydadg87357qnahakaks';
+    const COMMUNITY_POOL = 'osmo1jv65s3grqf6v6jl3dp4t6c9t9rk99cd80yhvld';
+    const MILK = `factory/${SWAPPER}/umilk`;
+    const mint = (mintToAddress: string) => ({
+      '@type': '/osmosis.tokenfactory.v1beta1.MsgMint',
+      sender: SWAPPER,
+      amount: { denom: MILK, amount: '2500000' },
+      mintToAddress,
+    });
+
+    it('should parse MsgCreateDenom with the new denom and the creation fee', () => {
+      const create = { '@type': '/osmosis.tokenfactory.v1beta1.MsgCreateDenom', sender: SWAPPER, subdenom: 'umilk' };
+      const events = [
+        ...move(SWAPPER, COMMUNITY_POOL, '10000000uosmo', 0),
+        event('create_denom', { creator: SWAPPER, new_token_denom: MILK }, 0),
+      ];
+
+      const result = parser.parseMessages([create], SWAPPER, events);
+
+      expect(result).toMatchObject({
+        type: 'create_denom',
+        amounts: [{ value: '10', denom: 'uosmo', symbol: 'OSMO' }],
+        direction: 'out',
+      });
+      expect(result.legs[0].tokenFactory).toEqual({ denom: MILK });
+      expect(result.balanceMismatches).toEqual([]);
+    });
+
+    it('should only credit minted tokens the wallet received', () => {
+      expect(parser.parseMessages([mint('')], SWAPPER)).toMatchObject({
+        type: 'mint',
+        amounts: [{ value: '2500000', denom: MILK, symbol: 'UMILK', unresolved: true }],
+        direction: 'in',
+      });
+      expect(parser.parseMessages([mint(OTHER)], SWAPPER)).toMatchObject({ type: 'mint', amounts: [], counterparty: OTHER });
+    });
+
+    it('should parse MsgBurn and MsgChangeAdmin', () => {
+      const burn = { '@type': '/osmosis.tokenfactory.v1beta1.MsgBurn', sender: SWAPPER, amount: { denom: MILK, amount: '1000000' } };
+      const changeAdmin = { '@type': '/osmosis.tokenfactory.v1beta1.MsgChangeAdmin', sender: SWAPPER, denom: MILK, newAdmin: OTHER };
+
+      expect(parser.parseMessages([burn], SWAPPER)).toMatchObject({
+        type: 'burn',
+        amounts: [{ value: '1000000', denom: MILK, symbol: 'UMILK', unresolved: true }],
+        direction: 'out',
+      });
+      expect(parser.parseMessages([changeAdmin], SWAPPER).legs[0]).toMatchObject({
+        type: 'change_denom_admin',
+        amounts: [],
+        tokenFactory: { denom: MILK, newAdmin: OTHER },
+      });
+    });
+
+    it('should parse ProtoRev admin messages', () => {
+      const setRoutes = { '@type': '/osmosis.protorev.v1beta1.MsgSetHotRoutes', admin: SWAPPER, hotRoutes: [] };
+
+      expect(parser.parseMessages([setRoutes], SWAPPER)).toMatchObject({ type: 'protorev', amounts: [] });
+    });
+  });
+
+  describe('message handlers', () => {
+    const OTHER = 'osmo1cyyzpxplxdzkeea7kwsydadg87357qnahakaks';
+
+    it('should match message types exactly', () => {
+      const valset = {
+        '@type': '/example.valset.v1beta1.MsgDelegateToSet',
+        delegator: SWAPPER,
+        coin: { denom: 'uosmo', amount: '1000000' },
+      };
+
+      const result = parser.parseMessages([valset], SWAPPER);
+
+      expect(result.type).toBe('unknown');
+    });
+
+    it('should parse unknown messages from their balance changes', () => {
+      const unknown = { '@type': '/unknown.module.MsgUnknown', sender: SWAPPER };
+      const events = [...move(SWAPPER, OTHER, '1000000uosmo', 0), ...move(OTHER, SWAPPER, `2000000${ATOM}`, 0)];
+
+      const result = parser.parseMessages([unknown], SWAPPER, events);
+
+      expect(result.type).toBe('unknown');
+      expect(result.legs).toEqual([
+        expect.objectContaining({ type: 'unknown', source: 'message', direction: 'out', amounts: [{ value: '1', denom: 'uosmo', symbol: 'OSMO' }] }),
+        expect.objectContaining({ type: 'unknown', source: 'event', direction: 'in', amounts: [{ value: '2', denom: ATOM, symbol: 'ATOM' }] }),
+      ]);
+    });
+
+    it('should leave unknown messages without amounts when their events cannot be told apart', () => {
+      const unknown = { '@type': '/unknown.module.MsgUnknown', sender: SWAPPER };
+      const send = { '@type': '/cosmos.bank.v1beta1.MsgSend', fromAddress: SWAPPER, toAddress: OTHER, amount: [] };
+
+      const result = parser.parseMessages([unknown, send], SWAPPER, move(SWAPPER, OTHER, '1000000uosmo'));
+
+      expect(result.legs[0]).toMatchObject({ type: 'unknown', amounts: [] });
+    });
+
+    it('should use registered handlers, replacing built-in ones', () => {
+      parser
+        .register('/example.module.MsgStake', msg => ({ type: 'stake', amounts: [parser.parseAmount(msg.coin)] }))
+        .register('/cosmos.gov.v1beta1.MsgVote', () => ({ type: 'unknown', amounts: [] }));
+
+      const staked = parser.parseMessages([{ '@type': '/example.module.MsgStake', coin: { denom: 'uosmo', amount: '5000000' } }], SWAPPER);
+      const voted = parser.parseMessages([{ '@type': '/cosmos.gov.v1beta1.MsgVote', proposalId: '1', option: 1 }], SWAPPER);
+
+      expect(staked.type).toBe('stake');
+      expect(staked.amounts).toEqual([{ value: '5', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(voted.type).toBe('unknown');
+    });
+
+    it('should reject type URLs that are not fully qualified', () => {
+      expect(() => parser.register('MsgVote', () => ({ type: 'vote', amounts: [] })))
+        .toThrow('Invalid message type URL: MsgVote');
+    });
+  });
+
+  describe('contract executions', () => {
+    const CONTRACT = 'osmo1nc5tatafv6eyq7llkr2gv50ff9e22mnf70qgjlv737ktmt4eswrqvlx82r';
+    const CW20 = 'osmo1z0qrq605sjgcqpylfl4aa6s90x738j7m58wyatt0tdzflg2ha26q67k743';
+    const execute = (msg: unknown, funds: unknown[] = []) => ({
+      '@type': '/cosmwasm.wasm.v1.MsgExecuteContract',
+      sender: SWAPPER,
+      contract: CONTRACT,
+      msg,
+      funds,
+    });
+
+    it('should parse an execution that swaps one token for another as a swap', () => {
+      const msg = execute({ swap: { offer_asset: 'uosmo' } }, [{ denom: 'uosmo', amount: '1000000' }]);
+      const events = [
+        ...move(SWAPPER, CONTRACT, '1000000uosmo', 0),
+        event('wasm', { _contract_address: CONTRACT, action: 'swap' }, 0),
+        ...move(CONTRACT, SWAPPER, `2500000${USDC}`, 0),
+      ];
+
+      const result = parser.parseMessages([msg], SWAPPER, events);
+
+      expect(result.type).toBe('swap');
+      expect(result.amounts).toEqual([
+        { value: '1', denom: 'uosmo', symbol: 'OSMO' },
+        { value: '2.5', denom: USDC, symbol: 'USDC' },
+      ]);
+      expect(result.legs[0].contract).toEqual({
+        address: CONTRACT,
+        codeId: undefined,
+        label: undefined,
+        action: 'swap',
+        adapter: 'generic',
+      });
+    });
+
+    it('should decode base64 execute JSON and count CW20 transfers', () => {
+      const msg = execute(btoa(JSON.stringify({ claim: {} })));
+      const events = [
+        event('wasm', { _contract_address: CONTRACT, action: 'claim' }, 0),
+        event('wasm', { _contract_address: CW20, action: 'transfer', from: CONTRACT, to: SWAPPER, amount: '5000' }, 0),
+      ];
+
+      const result = parser.parseMessages([msg], SWAPPER, events);
+
+      expect(result.type).toBe('execute_contract');
+      expect(result.direction).toBe('in');
+      expect(result.amounts).toEqual([{ value: '5000', denom: `cw20:${CW20}`, symbol: `cw20:${CW20}`, unresolved: true }]);
+      expect(result.legs[0].contract?.action).toBe('claim');
+    });
+
+    it('should split tokens sent and received into a message leg and an event leg', () => {
+      const msg = execute({ deposit: {} }, [{ denom: 'uosmo', amount: '1000000' }, { denom: ATOM, amount: '2000000' }]);
+      const events = [
+        ...move(SWAPPER, CONTRACT, `1000000uosmo,2000000${ATOM}`, 0),
+        event('wasm', { _contract_address: CW20, action: 'mint', to: SWAPPER, amount: '700' }, 0),
+      ];
+
+      const result = parser.parseMessages([msg], SWAPPER, events);
+
+      expect(result.legs).toHaveLength(2);
+      expect(result.legs[0]).toEqual(expect.objectContaining({
+        type: 'execute_contract',
+        source: 'message',
+        direction: 'out',
+        amounts: [{ value: '1', denom: 'uosmo', symbol: 'OSMO' }, { value: '2', denom: ATOM, symbol: 'ATOM' }],
+      }));
+      expect(result.legs[1]).toEqual(expect.objectContaining({
+        type: 'execute_contract',
+        source: 'event',
+        direction: 'in',
+        amounts: [expect.objectContaining({ value: '700', denom: `cw20:${CW20}`, unresolved: true })],
+      }));
+    });
+
+    it('should fall back to the funds sent without per-message events', () => {
+      const msg = execute({ deposit: {} }, [{ denom: 'uosmo', amount: '1000000' }]);
+      const bank = { '@type': '/cosmos.bank.v1beta1.MsgSend', fromAddress: SWAPPER, toAddress: POOL_1, amount: [] };
+
+      const result = parser.parseMessages([msg, bank], SWAPPER, move(SWAPPER, CONTRACT, '1000000uosmo'));
+
+      expect(result.legs[0]).toEqual(expect.objectContaining({
+        type: 'execute_contract',
+        direction: 'out',
+        amounts: [{ value: '1', denom: 'uosmo', symbol: 'OSMO' }],
+      }));
+    });
+
+    it('should use the adapter registered for the code ID of the contract', () => {
+      const vault: ContractAdapter = {
+        name: 'vault',
+        codeIds: ['42'],
+        parse: execution => [{ type: 'provide_liquidity', coins: execution.funds }],
+      };
+      const registry = new ContractAdapterRegistry({ get: address => address === CONTRACT ? { codeId: '42', label: 'Vault' } : undefined });
+      registry.register(vault);
+      const adapted = new TransactionParser(metadataSource(), undefined, registry);
+
+      const result = adapted.parseMessages([execute({ deposit: {} }, [{ denom: 'uosmo', amount: '3000000' }])], SWAPPER);
+
+      expect(result.type).toBe('provide_liquidity');
+      expect(result.amounts).toEqual([{ value: '3', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs[0].contract).toEqual(expect.objectContaining({ codeId: '42', label: 'Vault', adapter: 'vault' }));
+    });
+
+    it('should prefer adapters registered for the address and fall back when they return no legs', () => {
+      const byCode: ContractAdapter = { name: 'by-code', codeIds: ['42'], parse: () => [{ type: 'stake', coins: [] }] };
+      const byAddress: ContractAdapter = { name: 'by-address', addresses: [CONTRACT], parse: () => [] };
+      const registry = new ContractAdapterRegistry({ get: () => ({ codeId: '42' }) }).register(byCode).register(byAddress);
+
+      expect(registry.find(CONTRACT, '42')).toBe(byAddress);
+
+      const adapted = new TransactionParser(metadataSource(), undefined, registry);
+      const result = adapted.parseMessages([execute({ ping: {} })], SWAPPER);
+
+      expect(result.type).toBe('execute_contract');
+      expect(result.legs[0].contract?.adapter).toBe('generic');
+    });
+
+    it('should reject adapters that match no contract', () => {
+      expect(() => new ContractAdapterRegistry().register({ name: 'nothing', parse: () => [] }))
+        .toThrow('Contract adapter "nothing" must name contract addresses or code IDs');
+    });
+  });
+
+  describe('balance changes', () => {
+    const OTHER = 'osmo1cyyzpxplxdzkeea7kwsydadg87357qnahakaks';
+    const exactIn = {
+      '@type': '/osmosis.poolmanager.v1beta1.MsgSwapExactAmountIn',
+      sender: SWAPPER,
+      routes: [
+        { poolId: '1', tokenOutDenom: ATOM },
+        { poolId: '1464', tokenOutDenom: USDC },
+      ],
+      tokenIn: { denom: 'uosmo', amount: '10000000' },
+      tokenOutMinAmount: '5000000',
+    };
+    const amounts = { takerFee: '10000', osmoIn: '9990000', atom: '612345', usdcOut: '5123456' };
+    const fee = { amount: [{ denom: 'uosmo', amount: '3000' }], gasLimit: '250000' };
+    const send = (amount: string) => ({
+      '@type': '/cosmos.bank.v1beta1.MsgSend',
+      fromAddress: SWAPPER,
+      toAddress: OTHER,
+      amount: [{ denom: 'uosmo', amount }],
+    });
+
+    it('should report the net change per denom, fee included, and match it against the legs', () => {
+      const result = parser.parseMessages([exactIn], SWAPPER, multiHopEvents(amounts, { msgIndex: 0 }), fee);
+
+      expect(result.balanceChanges).toEqual([
+        { value: '5.123456', denom: USDC, symbol: 'USDC' },
+        { value: '-10.003', denom: 'uosmo', symbol: 'OSMO' },
+      ]);
+      expect(result.balanceMismatches).toEqual([]);
+    });
+
+    it('should count the fee when the payer is not reported but the wallet was charged it', () => {
+      const events = multiHopEvents(amounts, { reportFee: false });
+
+      expect(parser.parseMessages([exactIn], SWAPPER, events, fee).balanceMismatches).toEqual([]);
+    });
+
+    it('should flag denoms whose change the legs do not account for', () => {
+      const events = [...move(SWAPPER, OTHER, '1500000uosmo', 0), ...move(OTHER, SWAPPER, `2000000${ATOM}`, 0)];
+
+      expect(parser.parseMessages([send('1000000')], SWAPPER, events).balanceMismatches).toEqual([
+        { denom: 'uosmo', symbol: 'OSMO', expected: '-1', actual: '-1.5' },
+        { denom: ATOM, symbol: 'ATOM', expected: '0', actual: '2' },
+      ]);
+    });
+
+    it('should not flag pool shares minted for a liquidity deposit', () => {
+      const join = {
+        '@type': '/osmosis.gamm.v1beta1.MsgJoinPool',
+        sender: SWAPPER,
+        poolId: '1',
+        tokensIn: [{ denom: 'uosmo', amount: '1000000' }],
+      };
+      const events = [
+        ...move(SWAPPER, POOL_1, '1000000uosmo', 0),
+        ...move(POOL_1, SWAPPER, '500000000000000000gamm/pool/1', 0),
+      ];
+
+      const result = parser.parseMessages([join], SWAPPER, events);
+
+      expect(result.balanceChanges).toContainEqual({ value: '0.5', denom: 'gamm/pool/1', symbol: 'GAMM-1' });
+      expect(result.balanceMismatches).toEqual([]);
+    });
+
+    it('should skip the check when a leg has no direction, and everything without events', () => {
+      const others = { ...send('1000000'), fromAddress: OTHER, toAddress: POOL_1 };
+
+      expect(parser.parseMessages([others], SWAPPER, move(OTHER, POOL_1, '1000000uosmo'))).toMatchObject({
+        balanceChanges: [],
+        balanceMismatches: undefined,
+      });
+      expect(parser.parseMessages([send('1000000')], SWAPPER).balanceChanges).toBeUndefined();
+    });
+  });
+
+  describe('authz', () => {
+    const GRANTEE = 'osmo1cyyzpxplxdzkeea7kwsydadg87357qnahakaks';
+    const VALIDATOR = 'osmovaloper1clpqr4nrk4khgkxj78fcwwh6dl3uw4ep88n0y4';
+    const delegate = (delegatorAddress: string, amount: string) => ({
+      '@type': '/cosmos.staking.v1beta1.MsgDelegate',
+      delegatorAddress,
+      validatorAddress: VALIDATOR,
+      amount: { denom: 'uosmo', amount },
+    });
+    const exec = (grantee: string, msgs: any[]) => ({
+      '@type': '/cosmos.authz.v1beta1.MsgExec',
+      grantee,
+      msgs,
+    });
+
+    it('should attribute messages executed for the wallet to the wallet', () => {
+      const result = parser.parseMessages([exec(GRANTEE, [delegate(SWAPPER, '2000000')])], SWAPPER);
+
+      expect(result.type).toBe('stake');
+      expect(result.amounts).toEqual([{ value: '2', denom: 'uosmo', symbol: 'OSMO' }]);
+      expect(result.legs).toEqual([
+        {
+          type: 'stake',
+          amounts: [{ value: '2', denom: 'uosmo', symbol: 'OSMO' }],
+          source: 'message',
+          msgIndex: 0,
+          typeUrl: '/cosmos.staking.v1beta1.MsgDelegate',
+          granter: SWAPPER,
+          executor: GRANTEE,
+        },
+      ]);
+    });
+
+    it('should unwrap nested MsgExec messages and Any-encoded inner messages', () => {
+      const inner = {
+        typeUrl: '/cosmos.staking.v1beta1.MsgDelegate',
+        value: { delegatorAddress: SWAPPER, validatorAddress: VALIDATOR, amount: { denom: 'uosmo', amount: '1000000' } },
+      };
+      const messages = [exec(POOL_1, [exec(GRANTEE, [inner, delegate(SWAPPER, '500000')])])];
+
+      const result = parser.parseMessages(messages, SWAPPER);
+
+      expect(result.legs.map(leg => [leg.type, leg.msgIndex, leg.executor])).toEqual([
+        ['stake', 0, GRANTEE],
+        ['stake', 0, GRANTEE],
+      ]);
+      expect(result.amounts).toEqual([{ value: '1.5', denom: 'uosmo', symbol: 'OSMO' }]);
+    });
+
+    it('should not count tokens of other granters for the executing wallet', () => {
+      const result = parser.parseMessages([exec(SWAPPER, [delegate(GRANTEE, '2000000')])], SWAPPER);
+
+      expect(result.legs[0]).toMatchObject({ type: 'stake', amounts: [], granter: GRANTEE, executor: SWAPPER });
+    });
+
+    it('should claim rewards of several inner withdrawals from the shared events', () => {
+      const withdraw = {
+        '@type': '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+        delegatorAddress: SWAPPER,
+        validatorAddress: VALIDATOR,
+      };
+      const events = [
+        event('withdraw_rewards', { amount: '1000uosmo', delegator: SWAPPER }, 0),
+        event('withdraw_rewards', { amount: '2000uosmo', delegator: SWAPPER }, 0),
+      ];
+
+      const result = parser.parseMessages([exec(GRANTEE, [withdraw, withdraw])], SWAPPER, events);
+
+      expect(result.type).toBe('claim_rewards');
+      expect(result.legs.map(leg => leg.source)).toEqual(['message', 'message', 'event']);
+      expect(result.amounts).toEqual([{ value: '0.003', denom: 'uosmo', symbol: 'OSMO' }]);
+    });
+  });
+
+  describe('parseFeePayer', () => {
+    it('should prefer the fee granter', () => {
+      const fee = { amount: [{ denom: 'uosmo', amount: '5000' }], granter: POOL_1, payer: '' };
+      const events = [event('tx', { fee: '5000uosmo', fee_payer: POOL_1 })];
+
+      expect(parser.parseFeePayer(fee, events)).toBe(POOL_1);
+    });
+
+    it('should fall back to the fee payer reported in events', () => {
+      const fee = { amount: [{ denom: 'uosmo', amount: '5000' }], granter: '', payer: '' };
+      const events = [event('tx', { fee: '5000uosmo', fee_payer: SWAPPER })];
+
+      expect(parser.parseFeePayer(fee, events)).toBe(SWAPPER);
+      expect(parser.parseFeePayer(fee)).toBeUndefined();
+    });
+  });
+
   describe('parseAmount', () => {
     it('should parse valid amount', () => {
       const amount = {
@@ -313,9 +1968,113 @@ describe('TransactionParser', () => {
       expect(parser.denomToSymbol('uatom')).toBe('ATOM');
     });
 
-    it('should handle IBC tokens', () => {
-      const result = parser.denomToSymbol('ibc/27394FB092D2ECCD56123C74F36E4C1F926001CEADA9CA97EA622B25F41E5EB2');
-      expect(result).toMatch(/^IBC\//);
+    it('should use the resolved symbol of IBC tokens', () => {
+      expect(parser.denomToSymbol(ATOM)).toBe('ATOM');
+    });
+
+    it('should show IBC tokens without a symbol by origin denom only once their decimals are known', () => {
+      const traced = 'ibc/0954E1C28EB7AF5B72D24F3BC2B47BBB2FDF91BDDFD57B74B99E133AED40972A';
+      const resolved = 'ibc/C7BC1DE2D1E1DC6B1DC7D4F4E8A4A3FE5CC1B8A24B2A6CE3C6FA5B5B7E0B6B11';
+      const unknown = 'ibc/E6931F78057F7CC5DA0FD6CEF82FF39373A6E0452BF1FD76910B93292CF356C1';
+      parser = new TransactionParser(metadataSource({
+        [traced]: { baseDenom: 'aevmos', path: 'transfer/channel-204' },
+        [resolved]: { baseDenom: 'aevmos', path: 'transfer/channel-204', exponent: 18 },
+      }));
+
+      // Without decimals the amount stays in base units, so it mustn't pass for aevmos
+      expect(parser.denomToSymbol(traced)).toBe(traced);
+      expect(parser.parseAmount({ denom: traced, amount: '5' })).toEqual({
+        value: '5',
+        denom: traced,
+        symbol: traced,
+        unresolved: true,
+      });
+      expect(parser.denomToSymbol(resolved)).toBe('aevmos');
+      expect(parser.denomToSymbol(unknown)).toBe(unknown);
+    });
+
+    it('should name token factory tokens after their subdenom', () => {
+      expect(parser.denomToSymbol(`factory/${SWAPPER}/wbtc`)).toBe('WBTC');
+      expect(parser.denomToSymbol(`factory/${SWAPPER}/alloyed/allBTC`)).toBe('allBTC');
+    });
+
+    it('should keep a leading u of token factory subdenoms', () => {
+      expect(parser.denomToSymbol(`factory/${SWAPPER}/unknowncoin`)).toBe('UNKNOWNCOIN');
+      expect(parser.denomToSymbol(`factory/${SWAPPER}/usdc`)).toBe('USDC');
+      expect(parser.denomToSymbol(`factory/${SWAPPER}/umilk`)).toBe('UMILK');
+      expect(parser.denomToSymbol(`factory/${SWAPPER}/umilkTIA`)).toBe('umilkTIA');
+    });
+
+    it('should prefer the metadata symbol of token factory tokens', () => {
+      const milk = `factory/${SWAPPER}/umilk`;
+      parser = new TransactionParser(metadataSource({ [milk]: { symbol: 'MILK', exponent: 6 } }));
+
+      expect(parser.denomToSymbol(milk)).toBe('MILK');
+      expect(parser.parseAmount({ denom: milk, amount: '2500000' })).toEqual({ value: '2.5', denom: milk, symbol: 'MILK' });
+    });
+  });
+
+  describe('denom metadata', () => {
+    const WETH = 'ibc/EA1D43981D5C9A1C4AAEA9C23BB1D4FA126BA9BC7020A25E0AE4AA841EA25DC5';
+
+    it('should apply the resolved exponent of 18-decimal tokens', () => {
+      parser = new TransactionParser(metadataSource({ [WETH]: { symbol: 'WETH.axl', exponent: 18 } }));
+
+      expect(parser.parseAmount({ denom: WETH, amount: '1500000000000000000' })).toEqual({
+        value: '1.5',
+        denom: WETH,
+        symbol: 'WETH.axl',
+      });
+    });
+
+    it('should keep unresolved IBC amounts in base units and mark them', () => {
+      parser = new TransactionParser({ get: () => undefined });
+
+      expect(parser.parseAmount({ denom: WETH, amount: '1500000000000000000' })).toEqual({
+        value: '1500000000000000000',
+        denom: WETH,
+        symbol: WETH,
+        unresolved: true,
+      });
+    });
+
+    it('should keep token factory and unknown native amounts in base units and mark them', () => {
+      parser = new TransactionParser({ get: () => undefined });
+      const factory = `factory/${SWAPPER}/umilk`;
+
+      expect(parser.parseAmount({ denom: factory, amount: '2500000' })).toEqual({
+        value: '2500000',
+        denom: factory,
+        symbol: 'UMILK',
+        unresolved: true,
+      });
+      expect(parser.parseAmount({ denom: 'utest', amount: '2500000' })).toMatchObject({ value: '2500000', unresolved: true });
+      expect(parser.parseAmount({ denom: 'gamm/pool/1', amount: '2500000000000000000' })).toEqual({
+        value: '2.5',
+        denom: 'gamm/pool/1',
+        symbol: 'GAMM-1',
+      });
+    });
+
+    it('should resolve listed tokens from the bundled asset list by default', () => {
+      parser = new TransactionParser();
+
+      expect(parser.parseAmount({ denom: WETH, amount: '1500000000000000000' })).toEqual({
+        value: '1.5',
+        denom: WETH,
+        symbol: 'WETH.axelar',
+      });
+    });
+
+    it('should let an override rename a token while keeping the listed exponent', () => {
+      const overrides: DenomMetadataSource = { get: denom => (denom === WETH ? { symbol: 'ETH' } : undefined) };
+      parser = new TransactionParser(layerMetadataSources(overrides, bundledAssets));
+
+      expect(parser.parseAmount({ denom: WETH, amount: '2000000000000000000' })).toEqual({
+        value: '2',
+        denom: WETH,
+        symbol: 'ETH',
+      });
     });
 
     it('should remove u prefix for unknown tokens', () => {
@@ -7,19 +7,115 @@
  * Requirements: 2.6, 13.5 - Transaction parsing and type classification
  */
 
-import type { Amount, TransactionType } from './types';
+import type {
+  Amount,
+  BalanceMismatch,
+  ContractInfo,
+  GovernanceInfo,
+  IbcPacketInfo,
+  LockInfo,
+  PositionInfo,
+  TokenFactoryInfo,
+  TransactionLeg,
+  TransactionType,
+  TransferDirection,
+  VoteOption,
+  WeightedVoteOption,
+} from './types';
+import { EventLog, type Coin, type TxEvent } from './event-log';
+import type { DenomMetadataSource } from './denom-metadata';
+import type { ProposalSource } from './proposals';
+import { ContractAdapterRegistry } from './contract-adapters';
+import { MessageHandlerRegistry, type MessageHandler } from './message-handlers';
+import { bundledAssets } from './asset-list';
+import { AmountFormatter } from '../utils/amount-formatter';
 
 /**
- * Result of parsing transaction messages
+ * Result of parsing a single message
  */
-export interface ParsedTransaction {
-  /** Transaction type */
+export interface ParsedMessage {
+  /** Message type */
   type: TransactionType;
   
-  /** Array of amounts involved in the transaction */
+  /** Array of amounts involved in the message */
   amounts: Amount[];
+  
+  /** Transfer direction relative to the wallet */
+  direction?: TransferDirection;
+  
+  /** Address on the other side of a transfer */
+  counterparty?: string;
+  
+  /** Packet channels and sequence of an IBC transfer */
+  ibc?: IbcPacketInfo;
+  
+  /** IDs of the pools a swap traded through */
+  pools?: string[];
+  
+  /** Governance proposal the message acted on */
+  governance?: GovernanceInfo;
+  
+  /** Lock the message acted on */
+  lock?: LockInfo;
+  
+  /** Concentrated liquidity position the message acted on */
+  position?: PositionInfo;
+  
+  /** Contract the message executed */
+  contract?: ContractInfo;
+  
+  /** Token factory denom the message acted on */
+  tokenFactory?: TokenFactoryInfo;
+}
+
+/**
+ * Result of parsing transaction messages
+ */
+export interface ParsedTransaction extends ParsedMessage {
+  /** Typed legs, in message order followed by event-derived legs */
+  legs: TransactionLeg[];
+  
+  /** Signed balance changes of the wallet per denom, fee included (only when there are events) */
+  balanceChanges?: Amount[];
+  
+  /** Denoms whose balance change the legs don't account for (only when the legs' effect can be told) */
+  balanceMismatches?: BalanceMismatch[];
+}
+
+/**
+ * A message to parse, with authz MsgExec wrappers removed
+ */
+interface MessageEntry {
+  /** The (inner) message */
+  msg: any;
+  
+  /** Index of the top-level message it was found in */
+  msgIndex: number;
+  
+  /** Events of the message */
+  log: EventLog;
+  
+  /** Grantee that executed the message through authz, if wrapped */
+  executor?: string;
 }
 
+/**
+ * Leg types of the rewards a concentrated liquidity position pays out
+ * 
+ * Each is also the type of the event reporting the collected tokens.
+ */
+type CollectedRewardType = 'collect_spread_rewards' | 'collect_incentives';
+
+/**
+ * How the amounts of a leg change the wallet's balance
+ */
+type BalanceEffect =
+  | 'in'                    // Amounts enter the wallet
+  | 'out'                   // Amounts leave the wallet
+  | 'none'                  // Amounts only change state held elsewhere (e.g. a delegation)
+  | 'swap'                  // The first amount leaves the wallet, the others enter it
+  | 'direction';            // Depends on the leg's transfer direction
+
 /**
  * TransactionParser class
  * 
@@ -29,152 +125,1632 @@ export interface ParsedTransaction {
  */
 export class TransactionParser {
   /**
-   * Parse transaction messages to determine type and amounts
+   * Parser version
+   * 
+   * Bump whenever parsing output changes so cached transactions are
+   * re-parsed from their raw data.
+   */
+  static readonly VERSION = 22;
+
+  /**
+   * Leg types from most to least significant
+   * 
+   * The top-level type of a transaction is the first of these any of its
+   * legs has, e.g. claiming rewards and re-delegating them is a stake.
+   */
+  private static readonly LEG_PRIORITY: TransactionType[] = [
+    'swap',
+    'provide_liquidity',
+    'remove_liquidity',
+    'transfer',
+    'ibc_transfer_in',
+    'ibc_transfer_out',
+    'ibc_refund',
+    'create_denom',
+    'mint',
+    'burn',
+    'unstake',
+    'stake',
+    'cancel_unbonding',
+    'redelegate',
+    'superfluid_undelegate',
+    'superfluid_delegate',
+    'begin_unlocking',
+    'lock_tokens',
+    'claim_rewards',
+    'collect_spread_rewards',
+    'collect_incentives',
+    'submit_proposal',
+    'deposit',
+    'vote',
+    'execute_contract',
+    'change_denom_admin',
+    'protorev',
+  ];
+
+  /**
+   * How the amounts of each leg type change the wallet's balance when the
+   * transaction executes
+   * 
+   * Unbonding and unlocking tokens return later without a transaction of
+   * the wallet, so starting either changes nothing yet.
+   */
+  private static readonly BALANCE_EFFECTS: Record<TransactionType, BalanceEffect> = {
+    swap: 'swap',
+    transfer: 'direction',
+    ibc_transfer_out: 'out',
+    ibc_transfer_in: 'in',
+    ibc_refund: 'in',
+    stake: 'out',
+    unstake: 'none',
+    redelegate: 'none',
+    cancel_unbonding: 'none',
+    lock_tokens: 'out',
+    begin_unlocking: 'none',
+    superfluid_delegate: 'out',
+    superfluid_undelegate: 'none',
+    claim_rewards: 'in',
+    provide_liquidity: 'out',
+    remove_liquidity: 'in',
+    collect_spread_rewards: 'in',
+    collect_incentives: 'in',
+    vote: 'none',
+    deposit: 'out',
+    submit_proposal: 'out',
+    execute_contract: 'direction',
+    create_denom: 'out',
+    mint: 'in',
+    burn: 'out',
+    change_denom_admin: 'none',
+    protorev: 'none',
+    unknown: 'direction',
+  };
+
+  /**
+   * Messages that change a delegation, which makes the chain pay out the
+   * rewards pending on the validators involved
+   */
+  private static readonly DELEGATION_CHANGES = [
+    '/cosmos.staking.v1beta1.MsgDelegate',
+    '/cosmos.staking.v1beta1.MsgUndelegate',
+    '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+    '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+    '/osmosis.valsetpref.v1beta1.MsgDelegateToValidatorSet',
+    '/osmosis.valsetpref.v1beta1.MsgUndelegateFromValidatorSet',
+    '/osmosis.valsetpref.v1beta1.MsgUndelegateFromRebalancedValidatorSet',
+    '/osmosis.valsetpref.v1beta1.MsgRedelegateValidatorSet',
+  ];
+
+  /**
+   * Messages that withdraw staking rewards, from one validator or from
+   * every validator of the wallet's validator set
+   */
+  private static readonly REWARD_WITHDRAWALS = [
+    '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+    '/osmosis.valsetpref.v1beta1.MsgWithdrawDelegationRewards',
+  ];
+
+  /**
+   * ProtoRev messages, all of which change module settings only its admin may change
+   */
+  private static readonly PROTOREV_MESSAGES = [
+    '/osmosis.protorev.v1beta1.MsgSetHotRoutes',
+    '/osmosis.protorev.v1beta1.MsgSetDeveloperAccount',
+    '/osmosis.protorev.v1beta1.MsgSetMaxPoolPointsPerTx',
+    '/osmosis.protorev.v1beta1.MsgSetMaxPoolPointsPerBlock',
+    '/osmosis.protorev.v1beta1.MsgSetInfoByPoolType',
+    '/osmosis.protorev.v1beta1.MsgSetBaseDenoms',
+  ];
+
+  /**
+   * Module account of the distribution module, which pays out staking rewards
+   */
+  private static readonly DISTRIBUTION_MODULE = 'osmo1jv65s3grqf6v6jl3dp4t6c9t9rk99cd80yhvld';
+
+  /**
+   * Concentrated liquidity messages that withdraw from a position, which
+   * collects the position's spread rewards and incentives as a side effect
+   */
+  private static readonly POSITION_WITHDRAWALS = [
+    '/osmosis.concentratedliquidity.v1beta1.MsgWithdrawPosition',
+    '/osmosis.concentratedliquidity.v1beta1.MsgAddToPosition',
+  ];
+
+  /**
+   * Concentrated liquidity messages that only collect rewards, by the leg type they produce
+   */
+  private static readonly REWARD_COLLECTIONS: Record<string, CollectedRewardType> = {
+    '/osmosis.concentratedliquidity.v1beta1.MsgCollectSpreadRewards': 'collect_spread_rewards',
+    '/osmosis.concentratedliquidity.v1beta1.MsgCollectIncentives': 'collect_incentives',
+  };
+
+  /**
+   * Vote options by their protobuf enum value
+   */
+  private static readonly VOTE_OPTIONS: VoteOption[] = ['unspecified', 'yes', 'abstain', 'no', 'no_with_veto'];
+
+  private metadata: DenomMetadataSource;
+  private proposals?: ProposalSource;
+  private contracts: ContractAdapterRegistry;
+  private handlers: MessageHandlerRegistry = new MessageHandlerRegistry();
+
+  /**
+   * Create a new TransactionParser
+   * 
+   * @param metadata - Denom metadata for symbols and decimals (default: the bundled asset list)
+   * @param proposals - Known proposals, for titles and deposit outcomes
+   * @param contracts - Adapters for CosmWasm contracts (default: the generic adapter only)
+   */
+  constructor(
+    metadata: DenomMetadataSource = bundledAssets,
+    proposals?: ProposalSource,
+    contracts: ContractAdapterRegistry = new ContractAdapterRegistry()
+  ) {
+    this.metadata = metadata;
+    this.proposals = proposals;
+    this.contracts = contracts;
+    this.registerBuiltInHandlers();
+  }
+
+  /**
+   * Parse transaction messages to determine type, amounts and legs
+   * 
+   * Requirements: 2.6, 13.5 - Transaction details extraction and type classification
+   * 
+   * Every message becomes a leg, followed by legs for effects that only
+   * show up in the events. Messages wrapped in authz MsgExec are unwrapped
+   * and become legs of their own. The top-level type and amounts are
+   * derived from the legs.
+   * 
+   * The wallet's balance changes are read from the events and checked
+   * against what the legs and fee account for.
+   * 
+   * @param messages - Array of transaction messages from blockchain
+   * @param address - The wallet address (used to determine transaction direction)
+   * @param events - Transaction events, used for amounts the messages don't state exactly
+   * @param fee - Fee object from the transaction's auth info, for the balance check
+   * @returns Parsed transaction with type, amounts, legs and balance changes
+   */
+  parseMessages(messages: any[], address: string, events: readonly TxEvent[] = [], fee?: any): ParsedTransaction {
+    if (!messages || messages.length === 0) {
+      return { type: 'unknown', amounts: [], legs: [] };
+    }
+
+    const log = new EventLog(events);
+    const entries = messages.flatMap((msg, index) => (
+      this.unwrapMessage(msg, index, log.forMessage(index, messages.length))
+    ));
+
+    // Contract executions may add legs of their own, which go with the event-derived legs
+    const parsed = entries.map(entry => this.parseEntry(entry, address));
+    const legs: TransactionLeg[] = parsed.map(([leg]) => leg);
+    legs.push(...parsed.flatMap(([, ...extra]) => extra), ...this.parseEventLegs(entries, log, address));
+
+    const result: ParsedTransaction = { ...this.summarizeLegs(legs), legs };
+    if (!log.isEmpty() && address) {
+      const changes = log.balanceChanges(address);
+      result.balanceChanges = Array.from(changes, ([denom, amount]) => this.toSignedAmount(denom, amount));
+      result.balanceMismatches = this.findBalanceMismatches(legs, changes, fee, this.parseFeePayer(fee, events), address);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the account that paid a transaction's fee
+   * 
+   * A fee granter pays instead of the signer. The tx event names the
+   * account the fee was deducted from; older transactions only state a
+   * granter or explicit payer in the fee itself.
+   * 
+   * @param fee - Fee object from the transaction's auth info
+   * @param events - Transaction events
+   * @returns Fee payer address, or undefined if the transaction doesn't tell
+   */
+  parseFeePayer(fee: any, events: readonly TxEvent[] = []): string | undefined {
+    if (fee?.granter) {
+      return fee.granter;
+    }
+
+    const reported = new EventLog(events).find('tx').find(event => event.fee_payer);
+    return reported?.fee_payer || fee?.payer || undefined;
+  }
+
+  /**
+   * Flatten authz MsgExec messages into the messages they execute
+   * 
+   * Nested MsgExec messages are unwrapped recursively; the executor is the
+   * grantee of the innermost MsgExec, which holds the granter's grant.
+   * Inner messages share the events of their top-level message, so they
+   * only count as scoped when there is a single one.
+   * 
+   * @param msg - Top-level or inner message
+   * @param msgIndex - Index of the top-level message
+   * @param log - Events of the message
+   * @param executor - Grantee of the enclosing MsgExec, if any
+   * @returns Messages to parse
+   */
+  private unwrapMessage(msg: any, msgIndex: number, log: EventLog, executor?: string): MessageEntry[] {
+    if (this.getTypeUrl(msg) !== '/cosmos.authz.v1beta1.MsgExec' || !msg.msgs?.length) {
+      return [{ msg, msgIndex, log, executor }];
+    }
+
+    const innerLog = msg.msgs.length === 1 ? log : log.unscoped();
+    return msg.msgs.flatMap((inner: any) => (
+      this.unwrapMessage(this.decodeMessage(inner), msgIndex, innerLog, msg.grantee || executor)
+    ));
+  }
+
+  /**
+   * Decode an inner message into the flat form of top-level messages
+   * 
+   * Inner messages may come as an Any with the fields under `value`.
+   * 
+   * @param msg - Inner message
+   * @returns Message with its type URL and fields at the top level
+   */
+  private decodeMessage(msg: any): any {
+    if (msg && msg.typeUrl && msg.value && typeof msg.value === 'object' && !(msg.value instanceof Uint8Array)) {
+      return { typeUrl: msg.typeUrl, ...msg.value };
+    }
+    return msg;
+  }
+
+  /**
+   * Parse a message entry into legs
+   * 
+   * Messages executed through authz are attributed to the granter that
+   * signed them; when that isn't the wallet (e.g. the wallet runs an
+   * auto-compounder for others), the legs keep their type but move none
+   * of the wallet's tokens.
+   * 
+   * @param entry - Message entry
+   * @param address - The wallet address
+   * @returns Message leg, followed by event-derived legs of messages with several effects
+   */
+  private parseEntry(entry: MessageEntry, address: string): [TransactionLeg, ...TransactionLeg[]] {
+    const typeUrl = this.getTypeUrl(entry.msg);
+    const [first, ...extra] = this.parseMessage(entry.msg, entry.log, address);
+
+    const legs: [TransactionLeg, ...TransactionLeg[]] = [
+      { ...first, source: 'message', msgIndex: entry.msgIndex, typeUrl },
+      ...extra.map(parsed => ({ ...parsed, source: 'event' as const })),
+    ];
+
+    if (entry.executor) {
+      const granter = this.getSigner(entry.msg);
+
+      for (const leg of legs) {
+        leg.executor = entry.executor;
+        leg.granter = granter;
+
+        if (granter && granter !== address) {
+          leg.amounts = [];
+        }
+      }
+    }
+
+    return legs;
+  }
+
+  /**
+   * Parse MsgExecuteContract message (CosmWasm contract execution)
+   * 
+   * The adapter registered for the contract, or the generic adapter,
+   * turns the execution into legs; each records the contract and what was
+   * executed.
+   * 
+   * @param msg - The execute message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed legs, the first standing for the message
+   */
+  private parseMsgExecuteContract(msg: any, log: EventLog, address: string): [ParsedMessage, ...ParsedMessage[]] {
+    const { execution, adapter, legs } = this.contracts.parse(msg, log, address);
+    const contract: ContractInfo = {
+      address: execution.contract,
+      codeId: execution.codeId,
+      label: execution.label,
+      action: execution.action,
+      adapter,
+    };
+
+    const parsed = legs.map(leg => ({
+      type: leg.type,
+      amounts: this.parseAmounts(leg.coins),
+      direction: leg.direction,
+      counterparty: leg.counterparty,
+      contract,
+    }));
+
+    return parsed.length > 0
+      ? parsed as [ParsedMessage, ...ParsedMessage[]]
+      : [{ type: 'execute_contract', amounts: [], contract }];
+  }
+
+  /**
+   * Get the account a message acts for
+   * 
+   * @param msg - The message
+   * @returns Signer address, or undefined if the message type isn't known to name one
+   */
+  private getSigner(msg: any): string | undefined {
+    return msg.sender
+      || msg.fromAddress
+      || msg.delegatorAddress
+      || msg.delegator
+      || msg.voter
+      || msg.depositor
+      || msg.proposer
+      || msg.owner
+      || undefined;
+  }
+
+  /**
+   * Register a handler for one or more message types
+   * 
+   * Handlers are matched by exact type URL and replace any handler
+   * registered for the same type before, built-in ones included. Messages
+   * without a handler are parsed from their balance changes.
+   * 
+   * @param typeUrls - Exact type URL(s), e.g. "/cosmos.bank.v1beta1.MsgSend"
+   * @param handler - Handler for messages of these types
+   * @returns The parser, for chaining
+   */
+  register(typeUrls: string | string[], handler: MessageHandler): this {
+    this.handlers.register(typeUrls, handler);
+    return this;
+  }
+
+  /**
+   * Register the handlers of the message types the parser knows
+   */
+  private registerBuiltInHandlers(): void {
+    const gov = (name: string) => [`/cosmos.gov.v1beta1.${name}`, `/cosmos.gov.v1.${name}`];
+
+    this.handlers
+      // Swaps
+      .register(
+        '/osmosis.poolmanager.v1beta1.MsgSplitRouteSwapExactAmountIn',
+        (msg, log, address) => this.parseMsgSplitRouteSwapExactAmountIn(msg, log, address)
+      )
+      .register(
+        '/osmosis.poolmanager.v1beta1.MsgSplitRouteSwapExactAmountOut',
+        (msg, log, address) => this.parseMsgSplitRouteSwapExactAmountOut(msg, log, address)
+      )
+      .register(
+        ['/osmosis.poolmanager.v1beta1.MsgSwapExactAmountIn', '/osmosis.gamm.v1beta1.MsgSwapExactAmountIn'],
+        (msg, log, address) => this.parseMsgSwapExactAmountIn(msg, log, address)
+      )
+      .register(
+        ['/osmosis.poolmanager.v1beta1.MsgSwapExactAmountOut', '/osmosis.gamm.v1beta1.MsgSwapExactAmountOut'],
+        (msg, log, address) => this.parseMsgSwapExactAmountOut(msg, log, address)
+      )
+
+      // Bank and IBC transfers
+      .register('/cosmos.bank.v1beta1.MsgSend', (msg, log, address) => this.parseMsgSend(msg, address))
+      .register('/cosmos.bank.v1beta1.MsgMultiSend', (msg, log, address) => this.parseMsgMultiSend(msg, address))
+      .register('/ibc.applications.transfer.v1.MsgTransfer', (msg, log, address) => this.parseMsgTransfer(msg, log, address))
+      .register('/ibc.core.channel.v1.MsgRecvPacket', (msg, log, address) => this.parseMsgRecvPacket(msg, log, address))
+      .register(
+        '/ibc.core.channel.v1.MsgAcknowledgement',
+        (msg, log, address) => this.parseMsgAcknowledgement(msg, log, address)
+      )
+      .register(
+        ['/ibc.core.channel.v1.MsgTimeout', '/ibc.core.channel.v1.MsgTimeoutOnClose'],
+        (msg, log, address) => this.parseIbcRefund(msg.packet, log, address)
+      )
+
+      // Liquidity
+      .register('/osmosis.gamm.v1beta1.MsgJoinPool', msg => this.parseMsgJoinPool(msg))
+      .register('/osmosis.gamm.v1beta1.MsgExitPool', msg => this.parseMsgExitPool(msg))
+      .register(
+        '/osmosis.concentratedliquidity.v1beta1.MsgCreatePosition',
+        (msg, log, address) => this.parseMsgCreatePosition(msg, log, address)
+      )
+      .register(
+        '/osmosis.concentratedliquidity.v1beta1.MsgAddToPosition',
+        (msg, log, address) => this.parseMsgAddToPosition(msg, log, address)
+      )
+      .register(
+        '/osmosis.concentratedliquidity.v1beta1.MsgWithdrawPosition',
+        (msg, log, address) => this.parseMsgWithdrawPosition(msg, log, address)
+      );
+
+    for (const [typeUrl, type] of Object.entries(TransactionParser.REWARD_COLLECTIONS)) {
+      this.handlers.register(typeUrl, (msg, log, address) => this.parseMsgCollectRewards(msg, log, address, type));
+    }
+
+    this.handlers
+      // Lockups and superfluid staking
+      .register('/osmosis.lockup.MsgLockTokens', (msg, log, address) => this.parseMsgLockTokens(msg, log, address))
+      .register(
+        '/osmosis.lockup.MsgBeginUnlocking',
+        (msg, log, address) => this.parseMsgBeginUnlocking(log, address, msg.ID ?? msg.id, msg.coins)
+      )
+      .register(
+        '/osmosis.superfluid.MsgSuperfluidDelegate',
+        (msg, log, address) => this.parseMsgSuperfluidDelegate(msg, log, address)
+      )
+      .register(
+        '/osmosis.superfluid.MsgLockAndSuperfluidDelegate',
+        (msg, log, address) => this.parseMsgLockAndSuperfluidDelegate(msg, log, address)
+      )
+      .register('/osmosis.superfluid.MsgSuperfluidUndelegate', msg => this.parseMsgSuperfluidUndelegate(msg))
+      .register(
+        '/osmosis.superfluid.MsgSuperfluidUnbondLock',
+        (msg, log, address) => this.parseMsgBeginUnlocking(log, address, msg.lockId)
+      )
+      .register(
+        '/osmosis.superfluid.MsgSuperfluidUndelegateAndUnbondLock',
+        (msg, log, address) => this.parseMsgSuperfluidUndelegateAndUnbondLock(msg, log, address)
+      )
+
+      // Staking and distribution
+      .register('/cosmos.staking.v1beta1.MsgDelegate', msg => this.parseMsgDelegate(msg))
+      .register('/cosmos.staking.v1beta1.MsgUndelegate', msg => this.parseMsgUndelegate(msg))
+      .register('/cosmos.staking.v1beta1.MsgBeginRedelegate', msg => this.parseMsgBeginRedelegate(msg))
+      .register(
+        '/cosmos.staking.v1beta1.MsgCancelUnbondingDelegation',
+        msg => this.parseMsgCancelUnbondingDelegation(msg)
+      )
+      .register(
+        TransactionParser.REWARD_WITHDRAWALS,
+        (msg, log, address) => this.parseMsgWithdrawDelegatorReward(log, address)
+      )
+
+      // Validator set preference staking
+      .register('/osmosis.valsetpref.v1beta1.MsgDelegateToValidatorSet', msg => this.parseValidatorSetStaking(msg, 'stake'))
+      .register(
+        ['/osmosis.valsetpref.v1beta1.MsgUndelegateFromValidatorSet', '/osmosis.valsetpref.v1beta1.MsgUndelegateFromRebalancedValidatorSet'],
+        msg => this.parseValidatorSetStaking(msg, 'unstake')
+      )
+      .register(
+        '/osmosis.valsetpref.v1beta1.MsgRedelegateValidatorSet',
+        msg => this.parseValidatorSetStaking(msg, 'redelegate')
+      )
+
+      // Governance
+      .register(gov('MsgVote'), msg => this.parseMsgVote(msg))
+      .register(gov('MsgVoteWeighted'), msg => this.parseMsgVoteWeighted(msg))
+      .register(gov('MsgDeposit'), msg => this.parseMsgDeposit(msg))
+      .register(gov('MsgSubmitProposal'), (msg, log) => this.parseMsgSubmitProposal(msg, log))
+
+      // CosmWasm
+      .register(
+        '/cosmwasm.wasm.v1.MsgExecuteContract',
+        (msg, log, address) => this.parseMsgExecuteContract(msg, log, address)
+      )
+
+      // Token factory
+      .register(
+        '/osmosis.tokenfactory.v1beta1.MsgCreateDenom',
+        (msg, log, address) => this.parseMsgCreateDenom(msg, log, address)
+      )
+      .register('/osmosis.tokenfactory.v1beta1.MsgMint', (msg, log, address) => this.parseMsgMint(msg, address))
+      .register('/osmosis.tokenfactory.v1beta1.MsgBurn', (msg, log, address) => this.parseMsgBurn(msg, address))
+      .register('/osmosis.tokenfactory.v1beta1.MsgChangeAdmin', msg => this.parseMsgChangeAdmin(msg))
+
+      // ProtoRev
+      .register(TransactionParser.PROTOREV_MESSAGES, () => ({ type: 'protorev', amounts: [] }));
+  }
+
+  /**
+   * Parse a single message with the handler registered for its type
+   * 
+   * @param msg - The message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message, or several when the message has several effects
+   */
+  private parseMessage(msg: any, log: EventLog, address: string): [ParsedMessage, ...ParsedMessage[]] {
+    const handler = this.handlers.get(this.getTypeUrl(msg));
+    const parsed = handler ? handler(msg, log, address) : this.parseUnknownMessage(log, address);
+    const all = Array.isArray(parsed) ? parsed : [parsed];
+
+    return all.length > 0 ? all as [ParsedMessage, ...ParsedMessage[]] : [{ type: 'unknown', amounts: [] }];
+  }
+
+  /**
+   * Parse a message no handler knows from its balance changes
+   * 
+   * Tokens the wallet sent and received in the message's events become an
+   * outgoing and an incoming leg. Without per-message events, the changes
+   * can't be attributed to the message, so it moves nothing.
+   * 
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed legs of unknown type
+   */
+  private parseUnknownMessage(log: EventLog, address: string): ParsedMessage[] {
+    if (!log.scoped) {
+      return [{ type: 'unknown', amounts: [] }];
+    }
+
+    const flows = Array.from(log.netCoinFlows(address));
+    const received = this.toAmounts(new Map(flows.filter(([, amount]) => amount > BigInt(0))));
+    const sent = this.toAmounts(this.negate(new Map(flows.filter(([, amount]) => amount < BigInt(0)))));
+
+    const parsed: ParsedMessage[] = [];
+    if (sent.length > 0) {
+      parsed.push({ type: 'unknown', amounts: sent, direction: 'out' });
+    }
+    if (received.length > 0) {
+      parsed.push({ type: 'unknown', amounts: received, direction: 'in' });
+    }
+    return parsed;
+  }
+
+  /**
+   * Derive legs for effects no message leg accounts for
+   * 
+   * Staking rewards no message leg accounts for become a single
+   * claim_rewards leg: those paid out by withdraw messages whose events
+   * can't be told apart (pre-0.50 transactions with several messages, or
+   * several messages in one MsgExec), and those the chain pays out
+   * implicitly when a delegation changes. Spread
+   * rewards and incentives collected by withdrawing from a concentrated
+   * liquidity position become a leg per reward type.
+   * 
+   * @param entries - All (unwrapped) messages of the transaction
+   * @param log - Events of the whole transaction
+   * @param address - The wallet address
+   * @returns Event-derived legs
+   */
+  private parseEventLegs(entries: MessageEntry[], log: EventLog, address: string): TransactionLeg[] {
+    const legs: TransactionLeg[] = [];
+
+    const rewards = this.toAmounts(this.sumUnclaimedRewards(entries, log, address));
+    if (rewards.length > 0) {
+      legs.push({ type: 'claim_rewards', amounts: rewards, source: 'event' });
+    }
+
+    const withdrawals = entries.filter(entry => (
+      TransactionParser.POSITION_WITHDRAWALS.includes(this.getTypeUrl(entry.msg))
+    ));
+    if (withdrawals.length > 0) {
+      // Without per-message events, tell the rewards of collect messages in the same transaction apart by position
+      const shared = withdrawals.some(entry => !entry.log.scoped);
+      const logs = shared ? [log] : withdrawals.map(entry => entry.log);
+      const collectedPositions = new Set(entries
+        .filter(entry => TransactionParser.REWARD_COLLECTIONS[this.getTypeUrl(entry.msg)])
+        .flatMap(entry => (entry.msg.positionIds || []).map(String)));
+
+      for (const type of ['collect_spread_rewards', 'collect_incentives'] as const) {
+        const collected = logs
+          .flatMap(source => this.findCollectedRewards(source, address, type))
+          .filter(rewards => !shared || !collectedPositions.has(rewards.position_id));
+        const amounts = this.toAmounts(this.sumCollectedRewards(collected));
+
+        if (amounts.length > 0) {
+          const positionIds = Array.from(new Set(collected.map(rewards => rewards.position_id).filter(Boolean)));
+          legs.push({ type, amounts, source: 'event', position: { positionIds } });
+        }
+      }
+    }
+
+    return legs;
+  }
+
+  /**
+   * Derive the top-level type and amounts from the legs
+   * 
+   * The type is the most significant leg type; the amounts are those of
+   * the legs of that type, totalled per denom when there are several
+   * (e.g. a batch of sends or claims from several validators). Direction
+   * and counterparty carry over when those legs agree on them.
+   * 
+   * @param legs - Transaction legs
+   * @returns Top-level type, amounts, direction and counterparty
+   */
+  private summarizeLegs(legs: TransactionLeg[]): ParsedMessage {
+    const type = TransactionParser.LEG_PRIORITY.find(t => legs.some(leg => leg.type === t)) || 'unknown';
+    const matching = legs.filter(leg => leg.type === type);
+
+    const amounts = matching.length === 1
+      ? matching[0].amounts
+      : AmountFormatter.sumByDenom(matching.flatMap(leg => leg.amounts));
+
+    const directions = new Set(matching.map(leg => leg.direction));
+    const counterparties = new Set(matching.map(leg => leg.counterparty));
+
+    return {
+      type,
+      amounts,
+      direction: directions.size === 1 ? matching[0].direction : undefined,
+      counterparty: counterparties.size === 1 ? matching[0].counterparty : undefined,
+    };
+  }
+
+  /**
+   * Compare the wallet's balance changes with what the legs and fee account for
+   * 
+   * Requirements: 2.6 - Transaction details extraction
+   * 
+   * The fee counts when the wallet paid it; when the payer isn't known, it
+   * counts if the wallet's change in the fee denom is off by exactly the
+   * fee. CW20 tokens don't move through the bank module, and pool shares
+   * minted or burned when joining or exiting a pool have no leg of their
+   * own, so neither is compared.
+   * 
+   * @param legs - Transaction legs
+   * @param actual - Balance changes in base units per denom, from the events
+   * @param fee - Fee object from the transaction's auth info
+   * @param feePayer - Account the fee was deducted from, if known
+   * @param address - The wallet address
+   * @returns Mismatching denoms, or undefined if the legs' effect can't be told
+   */
+  private findBalanceMismatches(
+    legs: TransactionLeg[],
+    actual: Map<string, bigint>,
+    fee: any,
+    feePayer: string | undefined,
+    address: string
+  ): BalanceMismatch[] | undefined {
+    const expected = this.sumBalanceEffects(legs);
+    if (!expected) {
+      return undefined;
+    }
+
+    const zero = BigInt(0);
+    for (const coin of fee?.amount || []) {
+      const amount = BigInt(coin.amount || 0);
+      const unexplained = (actual.get(coin.denom) ?? zero) - (expected.get(coin.denom) ?? zero);
+      if (feePayer === address || (feePayer === undefined && unexplained === -amount)) {
+        expected.set(coin.denom, (expected.get(coin.denom) ?? zero) - amount);
+      }
+    }
+
+    const liquidity = legs.some(leg => leg.type === 'provide_liquidity' || leg.type === 'remove_liquidity');
+    const denoms = new Set([...Array.from(expected.keys()), ...Array.from(actual.keys())]);
+
+    return Array.from(denoms)
+      .filter(denom => !denom.startsWith('cw20:'))
+      .filter(denom => !(liquidity && denom.startsWith('gamm/pool/') && !expected.has(denom)))
+      .filter(denom => (expected.get(denom) ?? zero) !== (actual.get(denom) ?? zero))
+      .map(denom => {
+        const expectedAmount = this.toSignedAmount(denom, expected.get(denom) ?? zero);
+        const mismatch: BalanceMismatch = {
+          denom,
+          symbol: expectedAmount.symbol,
+          expected: expectedAmount.value,
+          actual: this.toSignedAmount(denom, actual.get(denom) ?? zero).value,
+        };
+        if (expectedAmount.unresolved) {
+          mismatch.unresolved = true;
+        }
+        return mismatch;
+      });
+  }
+
+  /**
+   * Sum the balance changes the legs account for, per denom
+   * 
+   * @param legs - Transaction legs
+   * @returns Changes in base units per denom, or undefined if a leg moving
+   *   tokens has no direction
+   */
+  private sumBalanceEffects(legs: TransactionLeg[]): Map<string, bigint> | undefined {
+    const totals = new Map<string, bigint>();
+
+    for (const leg of legs) {
+      const effect = TransactionParser.BALANCE_EFFECTS[leg.type];
+      for (const [index, amount] of leg.amounts.entries()) {
+        let sign: number | undefined;
+        if (effect === 'swap') {
+          sign = index === 0 ? -1 : 1;
+        } else if (effect === 'direction') {
+          sign = leg.direction === 'in' ? 1 : leg.direction === 'out' ? -1 : leg.direction === 'self' ? 0 : undefined;
+        } else {
+          sign = effect === 'in' ? 1 : effect === 'out' ? -1 : 0;
+        }
+
+        if (sign === undefined) {
+          return undefined;
+        }
+
+        const value = BigInt(AmountFormatter.toBaseUnits(amount.value, this.getDecimals(amount.denom) ?? 0));
+        totals.set(amount.denom, (totals.get(amount.denom) ?? BigInt(0)) + BigInt(sign) * value);
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Convert a signed change in base units into an amount
+   * 
+   * @param denom - Token denomination
+   * @param amount - Change in base units, negative for outflows
+   * @returns Amount with a signed value
+   */
+  private toSignedAmount(denom: string, amount: bigint): Amount {
+    const parsed = this.parseAmount({ denom, amount: (amount < BigInt(0) ? -amount : amount).toString() });
+    return amount < BigInt(0) ? { ...parsed, value: `-${parsed.value}` } : parsed;
+  }
+
+  /**
+   * Get the type URL of a message
+   * 
+   * @param msg - The message
+   * @returns Type URL, or an empty string if the message has none
+   */
+  private getTypeUrl(msg: any): string {
+    return msg['@type'] || msg.typeUrl || '';
+  }
+
+  /**
+   * Parse MsgSwapExactAmountIn message
+   * 
+   * This message type specifies the exact input amount for a swap. The
+   * output comes from the swap events; the message only holds the minimum
+   * accepted output, which is used when the events are missing.
+   * 
+   * @param msg - The swap message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed transaction
+   */
+  private parseMsgSwapExactAmountIn(msg: any, log: EventLog, address: string): ParsedMessage {
+    const pools = this.getSwapPools((msg.routes || []).map((route: any) => route.poolId), log);
+    const changes = this.parseSwapBalanceChanges(log, address);
+    if (changes) {
+      return { type: 'swap', amounts: [this.parseAmount(changes.tokenIn), this.parseAmount(changes.tokenOut)], pools };
+    }
+
+    const amounts: Amount[] = [];
+
+    // Parse input token
+    if (msg.tokenIn) {
+      amounts.push(this.parseAmount(msg.tokenIn));
+    }
+
+    // Parse output token (actual output, or the minimum expected without events)
+    const swapped = this.parseSwappedTokens(log, address);
+    if (swapped) {
+      amounts.push(this.parseAmount(swapped.tokenOut));
+    } else if (msg.tokenOutMinAmount && msg.routes && msg.routes.length > 0) {
+      const lastRoute = msg.routes[msg.routes.length - 1];
+      amounts.push(this.parseAmount({ denom: lastRoute.tokenOutDenom, amount: msg.tokenOutMinAmount }));
+    }
+
+    return { type: 'swap', amounts, pools };
+  }
+
+  /**
+   * Parse MsgSwapExactAmountOut message
+   * 
+   * This message type specifies the exact output amount for a swap. The
+   * input comes from the swap events; the message only holds the maximum
+   * accepted input, which is used when the events are missing.
+   * 
+   * @param msg - The swap message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed transaction
+   */
+  private parseMsgSwapExactAmountOut(msg: any, log: EventLog, address: string): ParsedMessage {
+    const pools = this.getSwapPools((msg.routes || []).map((route: any) => route.poolId), log);
+    const changes = this.parseSwapBalanceChanges(log, address);
+    if (changes) {
+      return { type: 'swap', amounts: [this.parseAmount(changes.tokenIn), this.parseAmount(changes.tokenOut)], pools };
+    }
+
+    const amounts: Amount[] = [];
+
+    // Parse input token (actual input, or the maximum willing to pay without events)
+    const swapped = this.parseSwappedTokens(log, address);
+    if (swapped) {
+      amounts.push(this.parseAmount(swapped.tokenIn));
+    } else if (msg.tokenInMaxAmount && msg.routes && msg.routes.length > 0) {
+      const firstRoute = msg.routes[0];
+      amounts.push(this.parseAmount({ denom: firstRoute.tokenInDenom, amount: msg.tokenInMaxAmount }));
+    }
+
+    // Parse output token
+    if (msg.tokenOut) {
+      amounts.push(this.parseAmount(msg.tokenOut));
+    }
+
+    return { type: 'swap', amounts, pools };
+  }
+
+  /**
+   * Parse MsgSplitRouteSwapExactAmountIn message
+   * 
+   * The input is split over several routes, each with its own amount and
+   * pools; the routes share the input and output denoms. The input is the
+   * total over the routes, and the output the total the routes returned,
+   * from the events. Without events the output falls back to the minimum
+   * accepted for all routes together.
+   * 
+   * @param msg - The split route swap message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the total input and output
+   */
+  private parseMsgSplitRouteSwapExactAmountIn(msg: any, log: EventLog, address: string): ParsedMessage {
+    const routes: any[] = msg.routes || [];
+    const pools = this.getSwapPools(routes.flatMap(route => (route.pools || []).map((pool: any) => pool.poolId)), log);
+    const changes = this.parseSwapBalanceChanges(log, address);
+    if (changes) {
+      return { type: 'swap', amounts: [this.parseAmount(changes.tokenIn), this.parseAmount(changes.tokenOut)], pools };
+    }
+
+    const amounts: Amount[] = [];
+
+    const tokenInAmount = this.sumRouteAmounts(routes, 'tokenInAmount');
+    if (msg.tokenInDenom && tokenInAmount > BigInt(0)) {
+      amounts.push(this.parseAmount({ denom: msg.tokenInDenom, amount: tokenInAmount.toString() }));
+    }
+
+    const swapped = this.parseSwappedTokens(log, address);
+    const lastPool = routes[0]?.pools?.[routes[0].pools.length - 1];
+    if (swapped) {
+      amounts.push(this.parseAmount(swapped.tokenOut));
+    } else if (msg.tokenOutMinAmount && lastPool) {
+      amounts.push(this.parseAmount({ denom: lastPool.tokenOutDenom, amount: msg.tokenOutMinAmount }));
+    }
+
+    return { type: 'swap', amounts, pools };
+  }
+
+  /**
+   * Parse MsgSplitRouteSwapExactAmountOut message
+   * 
+   * The output is split over several routes, each with its own amount and
+   * pools; the routes share the input and output denoms. The output is
+   * the total over the routes, and the input the total the routes took,
+   * from the events. Without events the input falls back to the maximum
+   * accepted for all routes together.
+   * 
+   * @param msg - The split route swap message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the total input and output
+   */
+  private parseMsgSplitRouteSwapExactAmountOut(msg: any, log: EventLog, address: string): ParsedMessage {
+    const routes: any[] = msg.routes || [];
+    const pools = this.getSwapPools(routes.flatMap(route => (route.pools || []).map((pool: any) => pool.poolId)), log);
+    const changes = this.parseSwapBalanceChanges(log, address);
+    if (changes) {
+      return { type: 'swap', amounts: [this.parseAmount(changes.tokenIn), this.parseAmount(changes.tokenOut)], pools };
+    }
+
+    const amounts: Amount[] = [];
+
+    const swapped = this.parseSwappedTokens(log, address);
+    const firstPool = routes[0]?.pools?.[0];
+    if (swapped) {
+      amounts.push(this.parseAmount(swapped.tokenIn));
+    } else if (msg.tokenInMaxAmount && firstPool) {
+      amounts.push(this.parseAmount({ denom: firstPool.tokenInDenom, amount: msg.tokenInMaxAmount }));
+    }
+
+    const tokenOutAmount = this.sumRouteAmounts(routes, 'tokenOutAmount');
+    if (msg.tokenOutDenom && tokenOutAmount > BigInt(0)) {
+      amounts.push(this.parseAmount({ denom: msg.tokenOutDenom, amount: tokenOutAmount.toString() }));
+    }
+
+    return { type: 'swap', amounts, pools };
+  }
+
+  /**
+   * Total an amount field over the routes of a split route swap
+   * 
+   * @param routes - Split routes
+   * @param field - Amount field of each route
+   * @returns Total in base units
+   */
+  private sumRouteAmounts(routes: any[], field: 'tokenInAmount' | 'tokenOutAmount'): bigint {
+    return routes.reduce((total, route) => total + BigInt(route[field] || 0), BigInt(0));
+  }
+
+  /**
+   * Get the pools a swap traded through
+   * 
+   * @param poolIds - Pool IDs of the message's routes, in route order
+   * @param log - Events of the swap message, used when the routes name no pools
+   * @returns Distinct pool IDs, or undefined if neither source names any
+   */
+  private getSwapPools(poolIds: any[], log: EventLog): string[] | undefined {
+    const ids = poolIds.filter(id => id !== undefined && id !== null).map(String);
+    const pools = Array.from(new Set(
+      ids.length > 0 ? ids : log.find('token_swapped').map(swap => swap.pool_id).filter(Boolean)
+    ));
+
+    return pools.length > 0 ? pools : undefined;
+  }
+
+  /**
+   * Derive what a swap cost and returned from the sender's balance changes
+   * 
+   * Uses coin_spent/coin_received, which include the taker fee, so only
+   * works when the events can be attributed to the swap message.
+   * Intermediate denoms of a multi-hop route pass through the sender and
+   * cancel out.
+   * 
+   * @param log - Events of the swap message
+   * @param address - The wallet address
+   * @returns Tokens paid and received, or undefined if the events don't tell
+   */
+  private parseSwapBalanceChanges(log: EventLog, address: string): { tokenIn: Coin; tokenOut: Coin } | undefined {
+    return log.scoped ? this.splitNetChanges(log.netCoinFlows(address)) : undefined;
+  }
+
+  /**
+   * Derive the route input and output from the token_swapped events
+   * 
+   * Nets the events of every hop so intermediate denoms cancel out. The
+   * input excludes the taker fee, so the message's exact side should be
+   * preferred over it.
+   * 
+   * @param log - Events of the swap message
+   * @param address - The wallet address
+   * @returns Route input and output, or undefined if the events don't tell
+   */
+  private parseSwappedTokens(log: EventLog, address: string): { tokenIn: Coin; tokenOut: Coin } | undefined {
+    const swaps = log.find('token_swapped');
+    const ownSwaps = swaps.filter(swap => swap.sender === address);
+    const net = new Map<string, bigint>();
+
+    for (const swap of ownSwaps.length > 0 ? ownSwaps : swaps) {
+      for (const coin of EventLog.parseCoins(swap.tokens_in)) {
+        net.set(coin.denom, (net.get(coin.denom) ?? BigInt(0)) - BigInt(coin.amount));
+      }
+      for (const coin of EventLog.parseCoins(swap.tokens_out)) {
+        net.set(coin.denom, (net.get(coin.denom) ?? BigInt(0)) + BigInt(coin.amount));
+      }
+    }
+
+    return this.splitNetChanges(net);
+  }
+
+  /**
+   * Split net balance changes into a single input and output
+   * 
+   * @param net - Net change per denom (negative = paid, positive = received)
+   * @returns Input and output, or undefined unless exactly one of each
+   */
+  private splitNetChanges(net: Map<string, bigint>): { tokenIn: Coin; tokenOut: Coin } | undefined {
+    const paid = Array.from(net).filter(([, amount]) => amount < BigInt(0));
+    const received = Array.from(net).filter(([, amount]) => amount > BigInt(0));
+
+    if (paid.length !== 1 || received.length !== 1) {
+      return undefined;
+    }
+
+    return {
+      tokenIn: { denom: paid[0][0], amount: (-paid[0][1]).toString() },
+      tokenOut: { denom: received[0][0], amount: received[0][1].toString() },
+    };
+  }
+
+  /**
+   * Parse MsgSend message (transfer)
+   * 
+   * @param msg - The send message
+   * @param address - The wallet address to determine direction
+   * @returns Parsed transaction
+   */
+  private parseMsgSend(msg: any, address: string): ParsedMessage {
+    const amounts = this.parseAmounts(msg.amount || []);
+    return { type: 'transfer', amounts, ...this.getTransferParties(msg.fromAddress, msg.toAddress, address) };
+  }
+
+  /**
+   * Parse MsgMultiSend message (batched transfer)
+   * 
+   * Only the wallet's own inputs or outputs are counted. The counterparty
+   * is set when a single address is on the other side.
+   * 
+   * @param msg - The multi-send message
+   * @param address - The wallet address to determine direction
+   * @returns Parsed transaction
+   */
+  private parseMsgMultiSend(msg: any, address: string): ParsedMessage {
+    const inputs: any[] = msg.inputs || [];
+    const outputs: any[] = msg.outputs || [];
+    const sent = inputs.filter(input => input.address === address);
+    const received = outputs.filter(output => output.address === address);
+
+    const otherAddresses = (entries: any[]) => {
+      const others = new Set(entries.map(entry => entry.address).filter(other => other !== address));
+      return others.size === 1 ? Array.from(others)[0] : undefined;
+    };
+
+    if (sent.length > 0) {
+      const amounts = AmountFormatter.sumByDenom(sent.flatMap(input => this.parseAmounts(input.coins || [])));
+      const counterparty = otherAddresses(outputs);
+      return {
+        type: 'transfer',
+        amounts,
+        direction: received.length > 0 && counterparty === undefined ? 'self' : 'out',
+        counterparty,
+      };
+    }
+
+    if (received.length > 0) {
+      const amounts = AmountFormatter.sumByDenom(received.flatMap(output => this.parseAmounts(output.coins || [])));
+      return { type: 'transfer', amounts, direction: 'in', counterparty: otherAddresses(inputs) };
+    }
+
+    return { type: 'transfer', amounts: [] };
+  }
+
+  /**
+   * Parse IBC MsgTransfer message (outgoing cross-chain transfer)
+   * 
+   * The destination channel and sequence come from the send_packet event.
+   * 
+   * @param msg - The IBC transfer message
+   * @param log - Events of the message
+   * @param address - The wallet address to determine direction
+   * @returns Parsed transaction
+   */
+  private parseMsgTransfer(msg: any, log: EventLog, address: string): ParsedMessage {
+    const amounts = msg.token ? [this.parseAmount(msg.token)] : [];
+    const sent = log.find('send_packet').filter(packet => packet.packet_src_channel === msg.sourceChannel);
+    const packet = sent.length === 1 ? sent[0] : undefined;
+
+    return {
+      type: 'ibc_transfer_out',
+      amounts,
+      ...this.getTransferParties(msg.sender, msg.receiver, address),
+      ibc: {
+        sourcePort: msg.sourcePort,
+        sourceChannel: msg.sourceChannel,
+        destinationPort: packet?.packet_dst_port,
+        destinationChannel: packet?.packet_dst_channel,
+        sequence: packet?.packet_sequence,
+      },
+    };
+  }
+
+  /**
+   * Parse IBC MsgRecvPacket message (incoming cross-chain transfer)
+   * 
+   * Relayers batch packets for many accounts into one transaction, so
+   * packets for other receivers are of no concern to the wallet. The
+   * amount received comes from the coin_received events, which hold the
+   * local (ibc/...) denom rather than the sender's denom trace.
+   * 
+   * @param msg - The receive message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed transaction
+   */
+  private parseMsgRecvPacket(msg: any, log: EventLog, address: string): ParsedMessage {
+    const packet = msg.packet || {};
+    const data = this.decodeJson(packet.data);
+    if (!data || data.receiver !== address) {
+      return { type: 'unknown', amounts: [] };
+    }
+
+    // A packet the receiving chain rejected moves no tokens; the sender gets a refund
+    const result = log.find('fungible_token_packet').find(event => (
+      event.receiver === data.receiver && event.amount === data.amount && event.denom === data.denom
+    ));
+    const received = result?.success !== 'false';
+
+    const returning = `${packet.sourcePort}/${packet.sourceChannel}/`;
+    const localDenom = String(data.denom).startsWith(returning) ? data.denom.slice(returning.length) : data.denom;
+
+    return {
+      type: 'ibc_transfer_in',
+      amounts: received ? [this.parseAmount(this.findReceivedCoin(log, address, data.amount, localDenom))] : [],
+      direction: 'in',
+      counterparty: data.sender,
+      ibc: this.getPacketInfo(packet),
+    };
+  }
+
+  /**
+   * Parse IBC MsgAcknowledgement message
+   * 
+   * A successful acknowledgement moves no tokens; a failed one refunds
+   * the sender.
+   * 
+   * @param msg - The acknowledgement message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed transaction
+   */
+  private parseMsgAcknowledgement(msg: any, log: EventLog, address: string): ParsedMessage {
+    const acknowledgement = this.decodeJson(msg.acknowledgement);
+    const failed = acknowledgement?.error !== undefined
+      || log.find('fungible_token_packet').some(event => event.error !== undefined);
+
+    if (!failed) {
+      return { type: 'unknown', amounts: [] };
+    }
+
+    return this.parseIbcRefund(msg.packet, log, address);
+  }
+
+  /**
+   * Parse the refund of an IBC transfer (timeout or failed acknowledgement)
+   * 
+   * The escrowed or burned tokens are returned to the sender, so the
+   * refund offsets the original outgoing transfer.
+   * 
+   * @param packet - The refunded packet
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed transaction
+   */
+  private parseIbcRefund(packet: any, log: EventLog, address: string): ParsedMessage {
+    const data = this.decodeJson(packet?.data);
+    if (!data || data.sender !== address) {
+      return { type: 'unknown', amounts: [] };
+    }
+
+    return {
+      type: 'ibc_refund',
+      amounts: [this.parseAmount(this.findReceivedCoin(log, address, data.amount, data.denom))],
+      direction: 'in',
+      counterparty: data.receiver,
+      ibc: this.getPacketInfo(packet),
+    };
+  }
+
+  /**
+   * Find the coin an IBC packet credited to the wallet
+   * 
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @param amount - Packet amount in base units
+   * @param denom - Expected local denom, used when no event matches
+   * @returns Credited coin
+   */
+  private findReceivedCoin(log: EventLog, address: string, amount: string, denom: string): Coin {
+    const coins = log.find('coin_received')
+      .filter(event => event.receiver === address)
+      .flatMap(event => EventLog.parseCoins(event.amount))
+      .filter(coin => coin.amount === String(amount));
+
+    return coins.find(coin => coin.denom === denom) || coins[0] || { denom, amount: String(amount) };
+  }
+
+  /**
+   * Get the channels and sequence of an IBC packet
+   * 
+   * @param packet - The packet
+   * @returns Packet channels and sequence
+   */
+  private getPacketInfo(packet: any): IbcPacketInfo {
+    return {
+      sourcePort: packet.sourcePort,
+      sourceChannel: packet.sourceChannel,
+      destinationPort: packet.destinationPort,
+      destinationChannel: packet.destinationChannel,
+      sequence: packet.sequence !== undefined ? String(packet.sequence) : undefined,
+    };
+  }
+
+  /**
+   * Decode JSON carried as bytes, e.g. IBC packet data and acknowledgements
+   * 
+   * @param data - Base64 string, bytes or an already decoded object
+   * @returns Decoded value, or undefined if it isn't valid JSON
+   */
+  private decodeJson(data: any): any {
+    if (!data) {
+      return undefined;
+    }
+    if (typeof data === 'object' && !(data instanceof Uint8Array)) {
+      return data;
+    }
+
+    try {
+      const text = typeof data === 'string' ? atob(data) : new TextDecoder().decode(data);
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Work out the direction and counterparty of a transfer between two addresses
+   * 
+   * @param from - Sending address
+   * @param to - Receiving address
+   * @param address - The wallet address
+   * @returns Direction and counterparty, or neither if the wallet isn't a party
+   */
+  private getTransferParties(
+    from: string | undefined,
+    to: string | undefined,
+    address: string
+  ): Pick<ParsedMessage, 'direction' | 'counterparty'> {
+    if (from === address && to === address) {
+      return { direction: 'self', counterparty: address };
+    }
+    if (from === address) {
+      return { direction: 'out', counterparty: to };
+    }
+    if (to === address) {
+      return { direction: 'in', counterparty: from };
+    }
+    return {};
+  }
+
+  /**
+   * Parse MsgDelegate message (staking)
+   * 
+   * @param msg - The delegate message
+   * @returns Parsed transaction
+   */
+  private parseMsgDelegate(msg: any): ParsedMessage {
+    const amounts = msg.amount ? [this.parseAmount(msg.amount)] : [];
+    return { type: 'stake', amounts };
+  }
+
+  /**
+   * Parse MsgUndelegate message (unstaking)
+   * 
+   * @param msg - The undelegate message
+   * @returns Parsed transaction
+   */
+  private parseMsgUndelegate(msg: any): ParsedMessage {
+    const amounts = msg.amount ? [this.parseAmount(msg.amount)] : [];
+    return { type: 'unstake', amounts };
+  }
+
+  /**
+   * Parse MsgLockTokens message (lockup)
+   * 
+   * The lock ID is only known from the lock_tokens event.
+   * 
+   * @param msg - The lock tokens message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the locked tokens and the lock
+   */
+  private parseMsgLockTokens(msg: any, log: EventLog, address: string): ParsedMessage {
+    const locked = this.findLockEvent(log, 'lock_tokens', address);
+
+    return {
+      type: 'lock_tokens',
+      amounts: this.parseLockedCoins(msg.coins, locked),
+      lock: {
+        lockId: locked?.period_lock_id,
+        durationSeconds: this.parseDuration(msg.duration) ?? this.parseDuration(locked?.duration),
+      },
+    };
+  }
+
+  /**
+   * Parse MsgBeginUnlocking and MsgSuperfluidUnbondLock messages (lockup)
+   * 
+   * Without coins MsgBeginUnlocking unlocks the whole lock, whose tokens
+   * are only named by the begin_unlock event. The tokens return to the
+   * wallet once the lock duration has passed, without a transaction.
+   * 
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @param lockId - ID of the lock being unlocked
+   * @param coins - Tokens to unlock, if not the whole lock
+   * @returns Parsed message with the unlocking tokens and the lock
+   */
+  private parseMsgBeginUnlocking(log: EventLog, address: string, lockId: any, coins?: any[]): ParsedMessage {
+    const id = this.toOptionalString(lockId);
+    const unlocking = this.findLockEvent(log, 'begin_unlock', address, id);
+
+    return {
+      type: 'begin_unlocking',
+      amounts: this.parseLockedCoins(coins, unlocking),
+      lock: { lockId: id ?? unlocking?.period_lock_id, durationSeconds: this.parseDuration(unlocking?.duration) },
+    };
+  }
+
+  /**
+   * Parse MsgSuperfluidDelegate message (superfluid staking)
+   * 
+   * Delegates tokens that are already locked, so no tokens move.
+   * 
+   * @param msg - The superfluid delegate message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the lock and validator
+   */
+  private parseMsgSuperfluidDelegate(msg: any, log: EventLog, address: string): ParsedMessage {
+    const lockId = this.toOptionalString(msg.lockId);
+    const locked = this.findLockEvent(log, 'lock_tokens', address, lockId);
+
+    return {
+      type: 'superfluid_delegate',
+      amounts: [],
+      lock: { lockId, durationSeconds: this.parseDuration(locked?.duration), validator: msg.valAddr },
+    };
+  }
+
+  /**
+   * Parse MsgLockAndSuperfluidDelegate message (superfluid staking)
+   * 
+   * Locks the tokens for the unbonding period and delegates the new lock.
+   * 
+   * @param msg - The lock and superfluid delegate message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the locked tokens, the new lock and validator
+   */
+  private parseMsgLockAndSuperfluidDelegate(msg: any, log: EventLog, address: string): ParsedMessage {
+    const locked = this.findLockEvent(log, 'lock_tokens', address);
+    const delegated = log.find('superfluid_delegate')[0];
+
+    return {
+      type: 'superfluid_delegate',
+      amounts: this.parseLockedCoins(msg.coins, locked),
+      lock: {
+        lockId: locked?.period_lock_id ?? delegated?.lock_id,
+        durationSeconds: this.parseDuration(locked?.duration),
+        validator: msg.valAddr ?? delegated?.validator,
+      },
+    };
+  }
+
+  /**
+   * Parse MsgSuperfluidUndelegate message (superfluid staking)
+   * 
+   * The tokens stay locked; unlocking them takes a separate message.
+   * 
+   * @param msg - The superfluid undelegate message
+   * @returns Parsed message with the lock
+   */
+  private parseMsgSuperfluidUndelegate(msg: any): ParsedMessage {
+    return { type: 'superfluid_undelegate', amounts: [], lock: { lockId: this.toOptionalString(msg.lockId) } };
+  }
+
+  /**
+   * Parse MsgSuperfluidUndelegateAndUnbondLock message (superfluid staking)
+   * 
+   * Undelegates the stated tokens of a lock and starts unlocking them.
+   * 
+   * @param msg - The undelegate and unbond message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the unlocking tokens and the lock
+   */
+  private parseMsgSuperfluidUndelegateAndUnbondLock(msg: any, log: EventLog, address: string): ParsedMessage {
+    const lockId = this.toOptionalString(msg.lockId);
+    const unlocking = this.findLockEvent(log, 'begin_unlock', address);
+
+    return {
+      type: 'superfluid_undelegate',
+      amounts: this.parseLockedCoins(msg.coin ? [msg.coin] : [], unlocking),
+      lock: { lockId, durationSeconds: this.parseDuration(unlocking?.duration) },
+    };
+  }
+
+  /**
+   * Find a lockup event of the wallet
+   * 
+   * @param log - Events to search
+   * @param type - Event type (e.g. "lock_tokens")
+   * @param address - The wallet address
+   * @param lockId - Lock ID the event must have, if known
+   * @returns Event attributes, or undefined if there is no such event
+   */
+  private findLockEvent(log: EventLog, type: string, address: string, lockId?: string): Record<string, string> | undefined {
+    return log.find(type).find(lock => (
+      (lock.owner === undefined || lock.owner === address) &&
+      (lockId === undefined || lock.period_lock_id === undefined || lock.period_lock_id === lockId)
+    ));
+  }
+
+  /**
+   * Parse the tokens of a lockup message, falling back to its event
+   * 
+   * @param coins - Coins stated by the message
+   * @param event - Lockup event attributes, if found
+   * @returns Amounts
+   */
+  private parseLockedCoins(coins: any[] | undefined, event: Record<string, string> | undefined): Amount[] {
+    if (coins && coins.length > 0) {
+      return this.parseAmounts(coins);
+    }
+    return this.parseAmounts(EventLog.parseCoins(event?.amount));
+  }
+
+  /**
+   * Parse a lock duration into seconds
    * 
-   * Requirements: 2.6, 13.5 - Transaction details extraction and type classification
+   * Messages hold a protobuf Duration, either as an object or as its
+   * JSON form ("1209600s"); events use Go's format ("336h0m0s").
    * 
-   * @param messages - Array of transaction messages from blockchain
-   * @param address - The wallet address (used to determine transaction direction)
-   * @returns Parsed transaction with type and amounts
+   * @param duration - Duration in any of these forms
+   * @returns Duration in seconds, or undefined if it can't be read
    */
-  parseMessages(messages: any[], address: string): ParsedTransaction {
-    if (!messages || messages.length === 0) {
-      return { type: 'unknown', amounts: [] };
+  private parseDuration(duration: any): number | undefined {
+    if (duration && typeof duration === 'object' && duration.seconds !== undefined) {
+      return Number(duration.seconds);
+    }
+    if (typeof duration !== 'string') {
+      return undefined;
     }
 
-    // Get the first message to determine transaction type
-    const firstMsg = messages[0];
-    const msgType = firstMsg['@type'] || firstMsg.typeUrl || '';
-
-    // Parse based on message type
-    if (msgType.includes('MsgSwapExactAmountIn')) {
-      return this.parseMsgSwapExactAmountIn(firstMsg);
-    } else if (msgType.includes('MsgSwapExactAmountOut')) {
-      return this.parseMsgSwapExactAmountOut(firstMsg);
-    } else if (msgType.includes('MsgSend')) {
-      return this.parseMsgSend(firstMsg, address);
-    } else if (msgType.includes('MsgDelegate')) {
-      return this.parseMsgDelegate(firstMsg);
-    } else if (msgType.includes('MsgUndelegate')) {
-      return this.parseMsgUndelegate(firstMsg);
-    } else if (msgType.includes('MsgWithdrawDelegatorReward')) {
-      return this.parseMsgWithdrawDelegatorReward(firstMsg);
-    } else if (msgType.includes('MsgJoinPool') || msgType.includes('JoinPool')) {
-      return this.parseMsgJoinPool(firstMsg);
-    } else if (msgType.includes('MsgExitPool') || msgType.includes('ExitPool')) {
-      return this.parseMsgExitPool(firstMsg);
-    } else if (msgType.includes('MsgVote')) {
-      return this.parseMsgVote(firstMsg);
+    const match = duration.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s)?$/);
+    if (!match || (!match[1] && !match[2] && !match[3])) {
+      return undefined;
     }
+    return Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  }
 
-    return { type: 'unknown', amounts: [] };
+  /**
+   * Parse MsgBeginRedelegate message (redelegation)
+   * 
+   * The tokens stay staked, moving from one validator to another.
+   * 
+   * @param msg - The redelegate message
+   * @returns Parsed message with the redelegated tokens
+   */
+  private parseMsgBeginRedelegate(msg: any): ParsedMessage {
+    const amounts = msg.amount ? [this.parseAmount(msg.amount)] : [];
+    return { type: 'redelegate', amounts };
   }
 
   /**
-   * Parse MsgSwapExactAmountIn message
+   * Parse MsgCancelUnbondingDelegation message
    * 
-   * This message type specifies the exact input amount for a swap.
+   * Delegates tokens that were unbonding to the validator again.
    * 
-   * @param msg - The swap message
-   * @returns Parsed transaction
+   * @param msg - The cancel unbonding message
+   * @returns Parsed message with the tokens staked again
    */
-  private parseMsgSwapExactAmountIn(msg: any): ParsedTransaction {
-    const amounts: Amount[] = [];
+  private parseMsgCancelUnbondingDelegation(msg: any): ParsedMessage {
+    const amounts = msg.amount ? [this.parseAmount(msg.amount)] : [];
+    return { type: 'cancel_unbonding', amounts };
+  }
 
-    // Parse input token
-    if (msg.tokenIn) {
-      amounts.push(this.parseAmount(msg.tokenIn));
+  /**
+   * Parse validator set preference staking messages
+   * 
+   * MsgDelegateToValidatorSet and the undelegate messages split the coin
+   * over the wallet's validator set; MsgRedelegateValidatorSet moves the
+   * whole delegation to a new set without stating an amount. Like any
+   * delegation change, they pay out pending rewards, which become a leg of
+   * their own.
+   * 
+   * @param msg - The validator set message
+   * @param type - Leg type
+   * @returns Parsed message with the coin delegated or undelegated
+   */
+  private parseValidatorSetStaking(msg: any, type: 'stake' | 'unstake' | 'redelegate'): ParsedMessage {
+    const amounts = msg.coin ? [this.parseAmount(msg.coin)] : [];
+    return { type, amounts };
+  }
+
+  /**
+   * Parse MsgWithdrawDelegatorReward message (claim rewards)
+   * 
+   * Reward amounts aren't part of the message; the distribution module
+   * reports them in a withdraw_rewards event. When the message's events
+   * can't be told apart from the rest of the transaction the rewards are
+   * left to an event-derived leg instead.
+   * 
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with one amount per reward denom
+   */
+  private parseMsgWithdrawDelegatorReward(log: EventLog, address: string): ParsedMessage {
+    if (!log.scoped) {
+      return { type: 'claim_rewards', amounts: [] };
     }
 
-    // Parse output token (minimum expected)
-    if (msg.tokenOutMinAmount && msg.routes && msg.routes.length > 0) {
-      const lastRoute = msg.routes[msg.routes.length - 1];
-      amounts.push({
-        value: this.formatAmount(msg.tokenOutMinAmount, lastRoute.tokenOutDenom),
-        denom: lastRoute.tokenOutDenom || 'unknown',
-        symbol: this.denomToSymbol(lastRoute.tokenOutDenom || 'unknown'),
-      });
+    let rewards = this.sumWithdrawnRewards(log, address);
+
+    // Without a withdraw_rewards event, count what the message paid out
+    if (rewards.size === 0) {
+      log.find('coin_received')
+        .filter(received => received.receiver === address)
+        .forEach(received => {
+          rewards = this.addCoins(rewards, EventLog.parseCoins(received.amount));
+        });
     }
 
-    return { type: 'swap', amounts };
+    return { type: 'claim_rewards', amounts: this.toAmounts(rewards) };
   }
 
   /**
-   * Parse MsgSwapExactAmountOut message
+   * Total the staking rewards no withdraw message leg accounts for
    * 
-   * This message type specifies the exact output amount for a swap.
+   * Delegation changes pay out the pending rewards of the validators
+   * involved without saying so in the message; they are read from the
+   * events of each such message. When the events of withdraw messages or
+   * delegation changes can't be told apart, every withdrawal in the
+   * transaction is counted instead, except those of messages that were
+   * accounted for on their own.
    * 
-   * @param msg - The swap message
-   * @returns Parsed transaction
+   * @param entries - All (unwrapped) messages of the transaction
+   * @param log - Events of the whole transaction
+   * @param address - The wallet address
+   * @returns Rewards in base units per denom
    */
-  private parseMsgSwapExactAmountOut(msg: any): ParsedTransaction {
-    const amounts: Amount[] = [];
+  private sumUnclaimedRewards(entries: MessageEntry[], log: EventLog, address: string): Map<string, bigint> {
+    const payingEntries = entries.filter(entry => {
+      const typeUrl = this.getTypeUrl(entry.msg);
+      return TransactionParser.REWARD_WITHDRAWALS.includes(typeUrl) || TransactionParser.DELEGATION_CHANGES.includes(typeUrl);
+    });
+    const attributed = payingEntries.filter(entry => entry.log.scoped);
+    let totals = new Map<string, bigint>();
 
-    // Parse input token (maximum willing to pay)
-    if (msg.tokenInMaxAmount && msg.routes && msg.routes.length > 0) {
-      const firstRoute = msg.routes[0];
-      amounts.push({
-        value: this.formatAmount(msg.tokenInMaxAmount, firstRoute.tokenInDenom),
-        denom: firstRoute.tokenInDenom || 'unknown',
-        symbol: this.denomToSymbol(firstRoute.tokenInDenom || 'unknown'),
+    for (const entry of attributed) {
+      if (TransactionParser.REWARD_WITHDRAWALS.includes(this.getTypeUrl(entry.msg))) {
+        continue;
+      }
+
+      const rewards = this.sumWithdrawnRewards(entry.log, address);
+      rewards.forEach((amount, denom) => {
+        totals.set(denom, (totals.get(denom) ?? BigInt(0)) + amount);
       });
+
+      // Before SDK 0.47 implicit payouts only show up as transfers from the distribution module
+      if (rewards.size === 0) {
+        entry.log.find('transfer')
+          .filter(transfer => transfer.sender === TransactionParser.DISTRIBUTION_MODULE && transfer.recipient === address)
+          .forEach(transfer => {
+            totals = this.addCoins(totals, EventLog.parseCoins(transfer.amount));
+          });
+      }
     }
 
-    // Parse output token
-    if (msg.tokenOut) {
-      amounts.push(this.parseAmount(msg.tokenOut));
+    if (payingEntries.some(entry => !entry.log.scoped)) {
+      const accountedFor = new Set(attributed.map(entry => String(entry.msgIndex)));
+      this.sumWithdrawnRewards(log, address, accountedFor).forEach((amount, denom) => {
+        totals.set(denom, (totals.get(denom) ?? BigInt(0)) + amount);
+      });
     }
 
-    return { type: 'swap', amounts };
+    return totals;
   }
 
   /**
-   * Parse MsgSend message (transfer)
+   * Total the rewards reported by withdraw_rewards events per denom
    * 
-   * @param msg - The send message
-   * @param address - The wallet address to determine direction
-   * @returns Parsed transaction
+   * @param log - Events to read
+   * @param address - The wallet address
+   * @param skipMessages - Indexes of messages whose events to leave out
+   * @returns Rewards in base units per denom
    */
-  private parseMsgSend(msg: any, address: string): ParsedTransaction {
-    const amounts = this.parseAmounts(msg.amount || []);
-    return { type: 'transfer', amounts };
-  }
+  private sumWithdrawnRewards(log: EventLog, address: string, skipMessages?: Set<string>): Map<string, bigint> {
+    let totals = new Map<string, bigint>();
 
-  /**
-   * Parse MsgDelegate message (staking)
-   * 
-   * @param msg - The delegate message
-   * @returns Parsed transaction
-   */
-  private parseMsgDelegate(msg: any): ParsedTransaction {
-    const amounts = msg.amount ? [this.parseAmount(msg.amount)] : [];
-    return { type: 'stake', amounts };
+    // Older SDK versions omit the delegator attribute
+    log.find('withdraw_rewards')
+      .filter(withdrawal => withdrawal.delegator === undefined || withdrawal.delegator === address)
+      .filter(withdrawal => !skipMessages || withdrawal.msg_index === undefined || !skipMessages.has(withdrawal.msg_index))
+      .forEach(withdrawal => {
+        totals = this.addCoins(totals, EventLog.parseCoins(withdrawal.amount));
+      });
+
+    return totals;
   }
 
   /**
-   * Parse MsgUndelegate message (unstaking)
+   * Add coins to per-denom totals
    * 
-   * @param msg - The undelegate message
-   * @returns Parsed transaction
+   * @param totals - Totals in base units per denom
+   * @param coins - Coins to add
+   * @returns Updated totals
    */
-  private parseMsgUndelegate(msg: any): ParsedTransaction {
-    const amounts = msg.amount ? [this.parseAmount(msg.amount)] : [];
-    return { type: 'unstake', amounts };
+  private addCoins(totals: Map<string, bigint>, coins: Coin[]): Map<string, bigint> {
+    for (const coin of coins) {
+      totals.set(coin.denom, (totals.get(coin.denom) ?? BigInt(0)) + BigInt(coin.amount));
+    }
+    return totals;
   }
 
   /**
-   * Parse MsgWithdrawDelegatorReward message (claim rewards)
+   * Convert per-denom totals in base units into amounts
    * 
-   * Note: Reward amounts are typically found in transaction events,
-   * not in the message itself.
-   * 
-   * @param msg - The withdraw reward message
-   * @returns Parsed transaction
+   * @param totals - Totals in base units per denom
+   * @returns Amounts, skipping zero totals
    */
-  private parseMsgWithdrawDelegatorReward(msg: any): ParsedTransaction {
-    // Rewards amounts are in the transaction events, not in the message
-    // The actual reward amounts would need to be extracted from tx.events
-    return { type: 'claim_rewards', amounts: [] };
+  private toAmounts(totals: Map<string, bigint>): Amount[] {
+    return Array.from(totals)
+      .filter(([, amount]) => amount > BigInt(0))
+      .map(([denom, amount]) => this.parseAmount({ denom, amount: amount.toString() }));
   }
 
   /**
@@ -183,7 +1759,7 @@ export class TransactionParser {
    * @param msg - The join pool message
    * @returns Parsed transaction
    */
-  private parseMsgJoinPool(msg: any): ParsedTransaction {
+  private parseMsgJoinPool(msg: any): ParsedMessage {
     const amounts = this.parseAmounts(msg.tokensIn || []);
     return { type: 'provide_liquidity', amounts };
   }
@@ -194,20 +1770,432 @@ export class TransactionParser {
    * @param msg - The exit pool message
    * @returns Parsed transaction
    */
-  private parseMsgExitPool(msg: any): ParsedTransaction {
+  private parseMsgExitPool(msg: any): ParsedMessage {
     const amounts = this.parseAmounts(msg.tokensOut || []);
     return { type: 'remove_liquidity', amounts };
   }
 
+  /**
+   * Parse MsgCreatePosition message (concentrated liquidity)
+   * 
+   * The pool only takes as much of each token as the price range needs,
+   * so the amounts are what the wallet actually spent. The message's
+   * tokensProvided, an upper bound, is used when the events can't be
+   * attributed to the message.
+   * 
+   * @param msg - The create position message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the deposited tokens and the new position
+   */
+  private parseMsgCreatePosition(msg: any, log: EventLog, address: string): ParsedMessage {
+    const created = this.findPositionEvent(log, 'create_position', address, {
+      pool_id: this.toOptionalString(msg.poolId),
+      lower_tick: this.toOptionalString(msg.lowerTick),
+      upper_tick: this.toOptionalString(msg.upperTick),
+    });
+    const flows = this.getLiquidityFlows(log, address);
+    const spent = flows ? this.toAmounts(this.negate(flows)) : [];
+
+    return {
+      type: 'provide_liquidity',
+      amounts: spent.length > 0 ? spent : this.parseAmounts(msg.tokensProvided || []),
+      position: this.getPositionInfo(created, msg),
+    };
+  }
+
+  /**
+   * Parse MsgAddToPosition message (concentrated liquidity)
+   * 
+   * The chain withdraws the old position and creates a new one holding
+   * both the old and the added liquidity. Only the added tokens leave the
+   * wallet; rewards the withdrawal collects become legs of their own.
+   * 
+   * @param msg - The add to position message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the added tokens, the old and the new position
+   */
+  private parseMsgAddToPosition(msg: any, log: EventLog, address: string): ParsedMessage {
+    const positionId = this.toOptionalString(msg.positionId);
+    const added = this.findPositionEvent(log, 'add_to_position', address, { position_id: positionId });
+    const created = this.findPositionEvent(log, 'create_position', address, { position_id: added?.new_position_id });
+    const flows = this.getLiquidityFlows(log, address);
+
+    return {
+      type: 'provide_liquidity',
+      amounts: flows ? this.toAmounts(this.negate(flows)) : [],
+      position: {
+        ...this.getPositionInfo(created, msg),
+        positionIds: positionId !== undefined ? [positionId] : [],
+        newPositionId: added?.new_position_id ?? created?.position_id,
+      },
+    };
+  }
+
+  /**
+   * Parse MsgWithdrawPosition message (concentrated liquidity)
+   * 
+   * The message states the liquidity to withdraw, not the tokens it is
+   * worth, so the amounts come from the events; rewards the withdrawal
+   * collects become legs of their own.
+   * 
+   * @param msg - The withdraw position message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the withdrawn tokens and the position
+   */
+  private parseMsgWithdrawPosition(msg: any, log: EventLog, address: string): ParsedMessage {
+    const positionId = this.toOptionalString(msg.positionId);
+    const withdrawn = this.findPositionEvent(log, 'withdraw_position', address, { position_id: positionId });
+    const flows = this.getLiquidityFlows(log, address);
+    const position = this.getPositionInfo(withdrawn, msg, positionId);
+
+    // The event reports the liquidity change, which is negative for a withdrawal
+    position.liquidity = position.liquidity?.replace(/^-/, '') ?? this.toOptionalString(msg.liquidityAmount);
+
+    return { type: 'remove_liquidity', amounts: flows ? this.toAmounts(flows) : [], position };
+  }
+
+  /**
+   * Parse MsgCollectSpreadRewards and MsgCollectIncentives messages
+   * 
+   * The collected tokens come from the collect event of each position,
+   * or from what the wallet received if the events don't report them.
+   * 
+   * @param msg - The collect message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @param type - Leg type, also the type of the collect events
+   * @returns Parsed message with the collected tokens and positions
+   */
+  private parseMsgCollectRewards(msg: any, log: EventLog, address: string, type: CollectedRewardType): ParsedMessage {
+    const positionIds: string[] = (msg.positionIds || []).map(String);
+    const collected = this.findCollectedRewards(log, address, type)
+      .filter(rewards => positionIds.length === 0 || positionIds.includes(rewards.position_id));
+
+    let totals = this.sumCollectedRewards(collected);
+    if (collected.length === 0 && log.scoped) {
+      totals = log.netCoinFlows(address);
+    }
+
+    return { type, amounts: this.toAmounts(totals), position: { positionIds } };
+  }
+
+  /**
+   * Find the event of a position change made by the wallet
+   * 
+   * @param log - Events to search
+   * @param type - Event type (e.g. "create_position")
+   * @param address - The wallet address
+   * @param match - Attribute values the event must have (undefined values match anything)
+   * @returns Event attributes, or undefined if there is no such event
+   */
+  private findPositionEvent(
+    log: EventLog,
+    type: string,
+    address: string,
+    match: Record<string, string | undefined>
+  ): Record<string, string> | undefined {
+    return log.find(type).find(attributes => (
+      (attributes.sender === undefined || attributes.sender === address) &&
+      Object.entries(match).every(([key, value]) => value === undefined || attributes[key] === value)
+    ));
+  }
+
+  /**
+   * Read a position from its event, falling back to the message fields
+   * 
+   * @param event - Position event attributes, if found
+   * @param msg - The message
+   * @param positionId - Position ID stated by the message, if any
+   * @returns Position info
+   */
+  private getPositionInfo(event: Record<string, string> | undefined, msg: any, positionId?: string): PositionInfo {
+    const id = event?.position_id ?? positionId;
+
+    return {
+      positionIds: id !== undefined ? [id] : [],
+      poolId: event?.pool_id ?? this.toOptionalString(msg.poolId),
+      lowerTick: event?.lower_tick ?? this.toOptionalString(msg.lowerTick),
+      upperTick: event?.upper_tick ?? this.toOptionalString(msg.upperTick),
+      liquidity: event?.liquidity,
+    };
+  }
+
+  /**
+   * Net token flows of a position change, without the rewards it collected
+   * 
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Net change in base units per denom, or undefined if the events can't be attributed to the message
+   */
+  private getLiquidityFlows(log: EventLog, address: string): Map<string, bigint> | undefined {
+    if (!log.scoped) {
+      return undefined;
+    }
+
+    const flows = log.netCoinFlows(address);
+    const rewards = this.sumCollectedRewards([
+      ...this.findCollectedRewards(log, address, 'collect_spread_rewards'),
+      ...this.findCollectedRewards(log, address, 'collect_incentives'),
+    ]);
+    rewards.forEach((amount, denom) => {
+      flows.set(denom, (flows.get(denom) ?? BigInt(0)) - amount);
+    });
+
+    return flows;
+  }
+
+  /**
+   * Find the collect events of the wallet's positions
+   * 
+   * @param log - Events to search
+   * @param address - The wallet address
+   * @param type - Collect event type
+   * @returns Event attributes, one per collecting position
+   */
+  private findCollectedRewards(log: EventLog, address: string, type: CollectedRewardType): Record<string, string>[] {
+    return log.find(type).filter(rewards => rewards.sender === undefined || rewards.sender === address);
+  }
+
+  /**
+   * Total the tokens collected by collect events per denom
+   * 
+   * @param collected - Collect event attributes
+   * @returns Collected tokens in base units per denom
+   */
+  private sumCollectedRewards(collected: Record<string, string>[]): Map<string, bigint> {
+    return collected.reduce(
+      (totals, rewards) => this.addCoins(totals, EventLog.parseCoins(rewards.tokens_out)),
+      new Map<string, bigint>()
+    );
+  }
+
+  /**
+   * Flip the sign of per-denom changes, e.g. to turn spent tokens positive
+   * 
+   * @param changes - Changes in base units per denom
+   * @returns Negated changes
+   */
+  private negate(changes: Map<string, bigint>): Map<string, bigint> {
+    return new Map(Array.from(changes, ([denom, amount]) => [denom, -amount]));
+  }
+
+  /**
+   * Convert an optional numeric message field to a string
+   * 
+   * Decoded uint64 fields may be numbers, strings or Long objects.
+   * 
+   * @param value - Field value
+   * @returns String value, or undefined if the field is absent
+   */
+  private toOptionalString(value: any): string | undefined {
+    return value === undefined || value === null ? undefined : String(value);
+  }
+
   /**
    * Parse MsgVote message (governance vote)
    * 
    * @param msg - The vote message
-   * @returns Parsed transaction
+   * @returns Parsed transaction with the proposal and option voted for
    */
-  private parseMsgVote(msg: any): ParsedTransaction {
+  private parseMsgVote(msg: any): ParsedMessage {
     // Vote transactions don't involve token amounts
-    return { type: 'vote', amounts: [] };
+    return {
+      type: 'vote',
+      amounts: [],
+      governance: {
+        ...this.getProposalInfo(msg.proposalId),
+        options: [{ option: this.parseVoteOption(msg.option), weight: '1' }],
+      },
+    };
+  }
+
+  /**
+   * Parse MsgVoteWeighted message (governance vote split over options)
+   * 
+   * @param msg - The weighted vote message
+   * @returns Parsed transaction with the proposal and weighted options
+   */
+  private parseMsgVoteWeighted(msg: any): ParsedMessage {
+    const options: WeightedVoteOption[] = (msg.options || []).map((option: any) => ({
+      option: this.parseVoteOption(option.option),
+      weight: this.parseVoteWeight(String(option.weight ?? '')),
+    }));
+
+    return { type: 'vote', amounts: [], governance: { ...this.getProposalInfo(msg.proposalId), options } };
+  }
+
+  /**
+   * Parse MsgDeposit message (governance deposit)
+   * 
+   * The deposit leaves the wallet; whether it comes back depends on how
+   * the proposal ends, which is looked up separately.
+   * 
+   * @param msg - The deposit message
+   * @returns Parsed transaction with the deposit and proposal
+   */
+  private parseMsgDeposit(msg: any): ParsedMessage {
+    return {
+      type: 'deposit',
+      amounts: this.parseAmounts(msg.amount || []),
+      governance: this.getProposalInfo(msg.proposalId, true),
+    };
+  }
+
+  /**
+   * Parse MsgSubmitProposal message (governance proposal)
+   * 
+   * The proposal ID is assigned on submission, so it comes from the
+   * submit_proposal event.
+   * 
+   * @param msg - The submit proposal message
+   * @param log - Events of the message
+   * @returns Parsed transaction with the initial deposit and proposal
+   */
+  private parseMsgSubmitProposal(msg: any, log: EventLog): ParsedMessage {
+    const submitted = log.find('submit_proposal').find(attributes => attributes.proposal_id !== undefined);
+    const governance = this.getProposalInfo(submitted?.proposal_id, true);
+
+    // gov v1 proposals have a title of their own; v1beta1 ones carry it in their content
+    governance.title ??= msg.title || msg.content?.title || msg.content?.value?.title || undefined;
+
+    return { type: 'submit_proposal', amounts: this.parseAmounts(msg.initialDeposit || []), governance };
+  }
+
+  /**
+   * Get what is known about a proposal
+   * 
+   * @param proposalId - Proposal ID from the message, if any
+   * @param withDeposit - Whether to include what became of deposits
+   * @returns Governance info
+   */
+  private getProposalInfo(proposalId: any, withDeposit = false): GovernanceInfo {
+    const id = this.toOptionalString(proposalId);
+    const proposal = id !== undefined ? this.proposals?.get(id) : undefined;
+    const governance: GovernanceInfo = { proposalId: id, title: proposal?.title };
+
+    if (withDeposit && proposal) {
+      governance.depositOutcome = proposal.depositOutcome;
+      governance.settledAt = proposal.settledAt ? new Date(proposal.settledAt) : undefined;
+    }
+
+    return governance;
+  }
+
+  /**
+   * Normalize a vote option
+   * 
+   * @param option - Option as a protobuf enum value or name (e.g. 1 or "VOTE_OPTION_YES")
+   * @returns Vote option
+   */
+  private parseVoteOption(option: any): VoteOption {
+    if (typeof option === 'number' || /^\d+$/.test(String(option))) {
+      return TransactionParser.VOTE_OPTIONS[Number(option)] ?? 'unspecified';
+    }
+
+    const name = String(option ?? '').replace(/^VOTE_OPTION_/, '').toLowerCase() as VoteOption;
+    return TransactionParser.VOTE_OPTIONS.includes(name) ? name : 'unspecified';
+  }
+
+  /**
+   * Normalize a vote weight to a plain decimal string
+   * 
+   * Weights are sdk.Dec values: decimal strings in JSON, but integers
+   * scaled by 10^18 when decoded from protobuf.
+   * 
+   * @param weight - Weight as found in the message
+   * @returns Decimal string without trailing zeros (e.g. "0.5")
+   */
+  private parseVoteWeight(weight: string): string {
+    if (/^\d{2,}$/.test(weight)) {
+      return AmountFormatter.fromBaseUnits(weight, 18);
+    }
+    return weight.includes('.') ? weight.replace(/0+$/, '').replace(/\.$/, '') : weight;
+  }
+
+  /**
+   * Parse MsgCreateDenom message (token factory)
+   * 
+   * The new denom comes from the create_denom event. Creating a denom
+   * costs a creation fee, read from what the creator spent besides the
+   * transaction fee; without per-message events it isn't known.
+   * 
+   * @param msg - The create denom message
+   * @param log - Events of the message
+   * @param address - The wallet address
+   * @returns Parsed message with the creation fee and the new denom
+   */
+  private parseMsgCreateDenom(msg: any, log: EventLog, address: string): ParsedMessage {
+    const created = log.find('create_denom').find(event => event.creator === undefined || event.creator === msg.sender);
+    const denom = created?.new_token_denom ?? `factory/${msg.sender}/${msg.subdenom}`;
+
+    const spent = log.scoped && msg.sender === address
+      ? this.toAmounts(this.negate(log.netCoinFlows(address)))
+      : [];
+
+    return {
+      type: 'create_denom',
+      amounts: spent,
+      direction: spent.length > 0 ? 'out' : undefined,
+      tokenFactory: { denom },
+    };
+  }
+
+  /**
+   * Parse MsgMint message (token factory)
+   * 
+   * The admin mints to itself unless the message names another
+   * recipient; tokens minted for someone else don't enter the wallet.
+   * 
+   * @param msg - The mint message
+   * @param address - The wallet address
+   * @returns Parsed message with the minted tokens, if the wallet received them
+   */
+  private parseMsgMint(msg: any, address: string): ParsedMessage {
+    const recipient = msg.mintToAddress || msg.sender;
+    const tokenFactory = msg.amount?.denom ? { denom: msg.amount.denom } : undefined;
+
+    if (recipient !== address) {
+      return { type: 'mint', amounts: [], counterparty: recipient, tokenFactory };
+    }
+    return { type: 'mint', amounts: msg.amount ? [this.parseAmount(msg.amount)] : [], direction: 'in', tokenFactory };
+  }
+
+  /**
+   * Parse MsgBurn message (token factory)
+   * 
+   * The admin burns its own tokens unless the message names another
+   * account to burn from; burning someone else's tokens leaves the wallet
+   * untouched.
+   * 
+   * @param msg - The burn message
+   * @param address - The wallet address
+   * @returns Parsed message with the burned tokens, if they were the wallet's
+   */
+  private parseMsgBurn(msg: any, address: string): ParsedMessage {
+    const owner = msg.burnFromAddress || msg.sender;
+    const tokenFactory = msg.amount?.denom ? { denom: msg.amount.denom } : undefined;
+
+    if (owner !== address) {
+      return { type: 'burn', amounts: [], tokenFactory };
+    }
+    return { type: 'burn', amounts: msg.amount ? [this.parseAmount(msg.amount)] : [], direction: 'out', tokenFactory };
+  }
+
+  /**
+   * Parse MsgChangeAdmin message (token factory)
+   * 
+   * @param msg - The change admin message
+   * @returns Parsed message with the denom and its new admin
+   */
+  private parseMsgChangeAdmin(msg: any): ParsedMessage {
+    return {
+      type: 'change_denom_admin',
+      amounts: [],
+      tokenFactory: { denom: msg.denom ?? '', newAdmin: msg.newAdmin || undefined },
+    };
   }
 
   /**
@@ -226,6 +2214,9 @@ export class TransactionParser {
   /**
    * Parse a single amount
    * 
+   * Amounts of denoms whose decimals aren't known stay in base units and
+   * are marked unresolved.
+   * 
    * @param amount - Amount object with denom and amount
    * @returns Normalized Amount object
    */
@@ -236,12 +2227,17 @@ export class TransactionParser {
 
     const denom = amount.denom || 'unknown';
     const value = amount.amount || '0';
-
-    return {
+    const parsed: Amount = {
       value: this.formatAmount(value, denom),
       denom,
-      symbol: this.denomToSymbol(denom),
+      symbol: amount.denom ? this.denomToSymbol(denom) : 'UNKNOWN',
     };
+
+    if (this.getDecimals(denom) === undefined) {
+      parsed.unresolved = true;
+    }
+
+    return parsed;
   }
 
   /**
@@ -264,17 +2260,17 @@ export class TransactionParser {
    * Requirements: 13.3 - Decimal precision preservation
    * 
    * Converts base units (e.g., uosmo) to decimal representation (e.g., OSMO)
-   * while preserving full precision.
+   * while preserving full precision. Denoms with unknown decimals are left
+   * in base units rather than guessed.
    * 
    * @param value - Raw amount value (in base units)
    * @param denom - Token denomination
    * @returns Formatted amount as decimal string
    */
   formatAmount(value: string, denom: string): string {
-    // Most Cosmos tokens use 6 decimal places (micro units)
-    const decimals = this.getDecimals(denom);
+    const decimals = this.getDecimals(denom) ?? 0;
     const numValue = BigInt(value);
-    const divisor = BigInt(10 ** decimals);
+    const divisor = BigInt(10) ** BigInt(decimals);
     
     const integerPart = numValue / divisor;
     const fractionalPart = numValue % divisor;
@@ -293,33 +2289,53 @@ export class TransactionParser {
   /**
    * Get the number of decimal places for a token denomination
    * 
+   * Only native denoms and pool shares have fixed decimals. IBC, token
+   * factory and CW20 tokens have any number (18 is common for EVM-derived
+   * assets), so they rely on resolved metadata rather than a guess.
+   * 
    * @param denom - Token denomination
-   * @returns Number of decimal places
+   * @returns Number of decimal places, or undefined if unknown
    */
-  private getDecimals(denom: string): number {
-    // Most Cosmos SDK tokens use 6 decimals (micro units)
-    // IBC tokens also typically use 6 decimals
-    if (denom.startsWith('ibc/')) {
-      return 6;
+  private getDecimals(denom: string): number | undefined {
+    const exponent = this.metadata.get(denom)?.exponent;
+    if (exponent !== undefined) {
+      return exponent;
     }
-    
+
     // Known denominations
     const knownDecimals: Record<string, number> = {
       'uosmo': 6,
       'uion': 6,
       'uatom': 6,
     };
-    
-    return knownDecimals[denom] || 6;
+
+    if (knownDecimals[denom] !== undefined) {
+      return knownDecimals[denom];
+    }
+
+    // Classic pool (LP) shares
+    if (denom.startsWith('gamm/pool/')) {
+      return 18;
+    }
+
+    return undefined;
   }
 
   /**
    * Convert a denomination to a human-readable symbol
    * 
+   * Check the unresolved flag of parsed amounts before trusting an IBC
+   * token's symbol.
+   * 
    * @param denom - Token denomination
    * @returns Human-readable symbol
    */
   denomToSymbol(denom: string): string {
+    const info = this.metadata.get(denom);
+    if (info?.symbol) {
+      return info.symbol;
+    }
+
     // Known denominations
     const knownSymbols: Record<string, string> = {
       'uosmo': 'OSMO',
@@ -331,9 +2347,32 @@ export class TransactionParser {
       return knownSymbols[denom];
     }
 
-    // For IBC tokens, use a shortened version of the hash
+    // Classic pool (LP) shares are named after their pool, e.g. GAMM-1
+    const poolShare = denom.match(/^gamm\/pool\/(\d+)$/);
+    if (poolShare) {
+      return `GAMM-${poolShare[1]}`;
+    }
+
+    // Token factory tokens without metadata are named after their subdenom,
+    // e.g. factory/osmo1.../umilk is UMILK. A leading u may or may not be a
+    // micro prefix (usdc, unknowncoin), and their amounts stay in base units
+    // anyway, so it is kept; metadata or a rename gives the display name.
+    const factory = denom.match(/^factory\/[^/]+\/(.+)$/);
+    if (factory) {
+      const name = factory[1].split('/').pop() || factory[1];
+      return name === name.toLowerCase() ? name.toUpperCase() : name;
+    }
+
+    // CW20 tokens show their full denom, so tokens of different contracts stay apart
+    if (denom.startsWith('cw20:')) {
+      return denom;
+    }
+
+    // IBC tokens without a symbol show their origin denom if the trace and
+    // decimals are known, otherwise the full denom, so amounts in base units
+    // can't be mistaken for the origin token's
     if (denom.startsWith('ibc/')) {
-      return `IBC/${denom.slice(4, 10).toUpperCase()}`;
+      return info?.baseDenom && info.exponent !== undefined ? info.baseDenom : denom;
     }
 
     // For unknown tokens, try to extract a symbol from the denom
@@ -18,14 +18,161 @@ export type TransactionStatus = 'success' | 'failed' | 'pending';
 export type TransactionType = 
   | 'swap'                  // Token swap transactions
   | 'transfer'              // Send/receive transactions
+  | 'ibc_transfer_out'      // Outgoing IBC transfer
+  | 'ibc_transfer_in'       // Incoming IBC transfer
+  | 'ibc_refund'            // IBC transfer refunded after a timeout or failed acknowledgement
   | 'stake'                 // Delegation transactions
   | 'unstake'               // Undelegation transactions
+  | 'redelegate'            // Delegation moved to another validator
+  | 'cancel_unbonding'      // Unbonding tokens delegated again
+  | 'lock_tokens'           // Tokens (usually LP shares) locked for a duration
+  | 'begin_unlocking'       // Unlocking of locked tokens started
+  | 'superfluid_delegate'   // Locked LP shares delegated through superfluid staking
+  | 'superfluid_undelegate' // Superfluid delegation removed
   | 'claim_rewards'         // Reward claim transactions
   | 'provide_liquidity'     // Add liquidity to pool
   | 'remove_liquidity'      // Remove liquidity from pool
+  | 'collect_spread_rewards' // Spread rewards collected from a concentrated liquidity position
+  | 'collect_incentives'    // Incentives collected from a concentrated liquidity position
   | 'vote'                  // Governance vote
+  | 'deposit'               // Deposit on a governance proposal
+  | 'submit_proposal'       // Governance proposal submitted, with its initial deposit
+  | 'execute_contract'      // CosmWasm contract execution no adapter classified further
+  | 'create_denom'          // Token factory denom created, paying the creation fee
+  | 'mint'                  // Token factory tokens minted by the denom admin
+  | 'burn'                  // Token factory tokens burned by the denom admin
+  | 'change_denom_admin'    // Token factory denom handed to another admin
+  | 'protorev'              // ProtoRev module settings changed by its admin
   | 'unknown';              // Unrecognized transaction type
 
+/**
+ * Direction of a transfer relative to the tracked wallet
+ */
+export type TransferDirection = 
+  | 'in'                    // Received by the wallet
+  | 'out'                   // Sent by the wallet
+  | 'self';                 // Sent by the wallet to itself
+
+/**
+ * Channels and sequence identifying an IBC packet
+ */
+export interface IbcPacketInfo {
+  /** Port on the sending chain (e.g. "transfer") */
+  sourcePort?: string;
+  
+  /** Channel on the sending chain (e.g. "channel-0") */
+  sourceChannel?: string;
+  
+  /** Port on the receiving chain */
+  destinationPort?: string;
+  
+  /** Channel on the receiving chain */
+  destinationChannel?: string;
+  
+  /** Packet sequence number on the source channel */
+  sequence?: string;
+}
+
+/**
+ * Concentrated liquidity position a leg acted on
+ */
+export interface PositionInfo {
+  /** IDs of the positions (the position before the change for MsgAddToPosition) */
+  positionIds: string[];
+  
+  /** ID of the position MsgAddToPosition replaced the old one with */
+  newPositionId?: string;
+  
+  /** Concentrated liquidity pool ID */
+  poolId?: string;
+  
+  /** Lower tick of the position's price range */
+  lowerTick?: string;
+  
+  /** Upper tick of the position's price range */
+  upperTick?: string;
+  
+  /** Liquidity added or removed */
+  liquidity?: string;
+}
+
+/**
+ * Lockup a leg acted on
+ */
+export interface LockInfo {
+  /** Lock ID (assigned by the chain when locking) */
+  lockId?: string;
+  
+  /** Lock duration in seconds (e.g. 1209600 for 14 days) */
+  durationSeconds?: number;
+  
+  /** Validator of a superfluid delegation */
+  validator?: string;
+}
+
+/**
+ * Governance vote option
+ */
+export type VoteOption = 'yes' | 'abstain' | 'no' | 'no_with_veto' | 'unspecified';
+
+/**
+ * A vote option with its share of the voting power
+ */
+export interface WeightedVoteOption {
+  option: VoteOption;
+  
+  /** Share of the voting power as a decimal string (e.g. "0.5"); "1" for a plain vote */
+  weight: string;
+}
+
+/**
+ * What became of the deposits on a proposal
+ */
+export type DepositOutcome = 
+  | 'pending'               // The proposal is still in its deposit or voting period
+  | 'refunded'              // Deposits were returned to the depositors
+  | 'burned';               // Deposits were burned (e.g. the proposal was vetoed)
+
+/**
+ * Governance proposal a leg acted on
+ */
+export interface GovernanceInfo {
+  /** Proposal ID */
+  proposalId?: string;
+  
+  /** Proposal title, if known */
+  title?: string;
+  
+  /** Options voted for (vote legs only) */
+  options?: WeightedVoteOption[];
+  
+  /** What became of the deposit (deposit legs only), once looked up */
+  depositOutcome?: DepositOutcome;
+  
+  /** When the deposit was refunded or burned */
+  settledAt?: Date;
+}
+
+/**
+ * CosmWasm contract a leg executed
+ */
+export interface ContractInfo {
+  /** Contract address */
+  address: string;
+  
+  /** Code ID of the contract, if known */
+  codeId?: string;
+  
+  /** Contract label, if known */
+  label?: string;
+  
+  /** Execute message name (e.g. "swap"), the single top-level key of the execute JSON */
+  action?: string;
+  
+  /** Name of the adapter that parsed the execution */
+  adapter?: string;
+}
+
 /**
  * Amount interface representing a token amount with denomination
  * 
@@ -40,6 +187,105 @@ export interface Amount {
   
   /** Human-readable symbol (e.g., "OSMO", "ATOM") */
   symbol: string;
+  
+  /** The denom's decimals are unknown, so value is in base units */
+  unresolved?: boolean;
+}
+
+/**
+ * Token factory denom a leg acted on
+ */
+export interface TokenFactoryInfo {
+  /** Denom, e.g. "factory/osmo1.../milk" */
+  denom: string;
+  
+  /** Admin the denom was handed to (admin changes only) */
+  newAdmin?: string;
+}
+
+/**
+ * A denom whose balance change differs from what the legs account for
+ */
+export interface BalanceMismatch {
+  /** Token denomination */
+  denom: string;
+  
+  /** Human-readable symbol */
+  symbol: string;
+  
+  /** Change the legs and fee account for, as a signed decimal string (e.g. "-1.5") */
+  expected: string;
+  
+  /** Change the events record, as a signed decimal string */
+  actual: string;
+  
+  /** The denom's decimals are unknown, so the values are in base units */
+  unresolved?: boolean;
+}
+
+/**
+ * Where a transaction leg comes from
+ */
+export type LegSource = 
+  | 'message'               // Parsed from a transaction message
+  | 'event';                // Derived from events no single message accounts for
+
+/**
+ * One typed component of a transaction
+ * 
+ * A transaction has one leg per message, in message order, followed by any
+ * legs derived from events.
+ * 
+ * Requirements: 11.5 - Generic transaction data model
+ */
+export interface TransactionLeg {
+  /** Leg type */
+  type: TransactionType;
+  
+  /** Amounts moved by this leg */
+  amounts: Amount[];
+  
+  /** Whether the leg was parsed from a message or derived from events */
+  source: LegSource;
+  
+  /** Index of the message this leg belongs to (message legs only) */
+  msgIndex?: number;
+  
+  /** Type URL of the message (message legs only) */
+  typeUrl?: string;
+  
+  /** Transfer direction relative to the wallet (transfer legs only) */
+  direction?: TransferDirection;
+  
+  /** Address on the other side of a transfer (on the other chain for IBC) */
+  counterparty?: string;
+  
+  /** Packet channels and sequence (IBC legs only) */
+  ibc?: IbcPacketInfo;
+  
+  /** IDs of the pools a swap traded through, in route order (swap legs only) */
+  pools?: string[];
+  
+  /** Governance proposal (vote and deposit legs only) */
+  governance?: GovernanceInfo;
+  
+  /** Lock and superfluid validator (lockup and superfluid legs only) */
+  lock?: LockInfo;
+  
+  /** Concentrated liquidity position (position and collect legs only) */
+  position?: PositionInfo;
+  
+  /** Contract executed (contract execution legs only) */
+  contract?: ContractInfo;
+  
+  /** Token factory denom (token factory legs only) */
+  tokenFactory?: TokenFactoryInfo;
+  
+  /** Account the message acted for, when executed through authz MsgExec */
+  granter?: string;
+  
+  /** Grantee that executed the message through authz MsgExec */
+  executor?: string;
 }
 
 /**
@@ -54,22 +300,63 @@ export interface Transaction {
   /** Transaction timestamp */
   timestamp: Date;
   
-  /** Transaction type */
+  /** Transaction type, derived from the most significant leg type */
   type: TransactionType;
   
   /** Transaction status */
   status: TransactionStatus;
   
-  /** Array of amounts involved in the transaction (inputs/outputs) */
+  /** Amounts of the legs of the top-level type (totalled per denom across several legs) */
   amounts: Amount[];
   
+  /** Typed legs, in message order followed by event-derived legs */
+  legs: TransactionLeg[];
+  
+  /** Transfer direction, when every leg of the top-level type agrees */
+  direction?: TransferDirection;
+  
+  /** Counterparty, when every leg of the top-level type has the same one */
+  counterparty?: string;
+  
   /** Transaction fee */
   fee: Amount;
   
+  /** Account the fee was deducted from, when known (a fee granter rather than the signer) */
+  feePayer?: string;
+  
+  /**
+   * What entered and left the wallet per denom, fee included, from the
+   * transaction events; values are signed (negative for outflows). Absent
+   * when the transaction has no events.
+   */
+  balanceChanges?: Amount[];
+  
+  /** Denoms whose balance change the legs don't account for, to be reviewed */
+  balanceMismatches?: BalanceMismatch[];
+  
   /** Optional memo/note attached to transaction */
   memo?: string;
 }
 
+/**
+ * A transaction as returned by the chain, kept so it can be re-parsed offline
+ * 
+ * Requirements: 2.1 - Transaction fetching
+ */
+export interface RawTransaction {
+  /** Transaction hash/ID */
+  hash: string;
+  
+  /** Block height where transaction was included */
+  height: number;
+  
+  /** Block time, resolved when the transaction was fetched */
+  timestamp: Date;
+  
+  /** Chain-specific transaction response */
+  data: any;
+}
+
 /**
  * Detailed transaction information including raw data
  */
@@ -107,6 +394,53 @@ export interface FetchOptions {
   
   /** Filter transactions before this date */
   endDate?: Date;
+  
+  /** Only fetch transactions in blocks above this height */
+  minHeight?: number;
+  
+  /** Resume a stream after the page that returned this cursor */
+  cursor?: string;
+  
+  /** Cancels the fetch; aborted fetches reject with FetchAbortedError */
+  signal?: AbortSignal;
+}
+
+/**
+ * A page of transactions yielded by a streaming fetch
+ * 
+ * Requirements: 2.2 - Pagination support
+ */
+export interface TransactionPage {
+  /** Transactions first seen in this page, ordered by time */
+  transactions: Transaction[];
+  
+  /** Raw responses for the transactions in this page */
+  raw: RawTransaction[];
+  
+  /** Opaque cursor to resume the stream after this page (undefined on the last page) */
+  cursor?: string;
+}
+
+/**
+ * Result of a fetch that reports how complete the history is
+ * 
+ * Requirements: 2.2 - Pagination support
+ */
+export interface FetchResult {
+  /** Transactions fetched, ordered by time */
+  transactions: Transaction[];
+  
+  /** Whether every page was fetched */
+  complete: boolean;
+  
+  /** Number of pages fetched */
+  pagesFetched: number;
+  
+  /** Cursor to resume from when the fetch is incomplete */
+  cursor?: string;
+  
+  /** The error that stopped the fetch when it is incomplete */
+  error?: Error;
 }
 
 /**
@@ -118,6 +452,12 @@ export interface FetchOptions {
  * To support a new blockchain, implement this interface with chain-specific logic.
  */
 export interface BlockchainClient {
+  /** Identifier of the chain this client talks to (e.g. "osmosis-1") */
+  readonly chainId: string;
+  
+  /** Version of the transaction parser; changes whenever parsing output changes */
+  readonly parserVersion: number;
+  
   /**
    * Validate a wallet address format
    * 
@@ -139,6 +479,51 @@ export interface BlockchainClient {
    */
   fetchTransactions(address: string, options?: FetchOptions): Promise<Transaction[]>;
   
+  /**
+   * Fetch transaction history along with how complete it is
+   * 
+   * Requirements: 2.1, 2.2 - Transaction fetching with pagination
+   * 
+   * @param address - The wallet address to fetch transactions for
+   * @param options - Optional fetch options (pagination, date filters)
+   * @returns Promise resolving to the transactions and completeness report
+   */
+  fetchTransactionHistory(address: string, options?: FetchOptions): Promise<FetchResult>;
+  
+  /**
+   * Stream transaction history for a wallet address as pages arrive
+   * 
+   * Requirements: 2.1, 2.2 - Transaction fetching with pagination
+   * 
+   * @param address - The wallet address to fetch transactions for
+   * @param options - Optional fetch options (pagination, date filters, resume cursor)
+   * @returns Async iterable of transaction pages
+   */
+  streamTransactions(address: string, options?: FetchOptions): AsyncIterable<TransactionPage>;
+  
+  /**
+   * Parse a raw transaction without touching the network
+   * 
+   * Requirements: 2.6 - Transaction details extraction
+   * 
+   * @param raw - Raw transaction previously returned in a TransactionPage
+   * @param address - The wallet address the transaction was fetched for
+   * @returns Normalized transaction
+   */
+  parseRawTransaction(raw: RawTransaction, address: string): Transaction;
+  
+  /**
+   * Look up what parsed transactions still lack from the network, such as
+   * token metadata, proposal outcomes and contract code IDs
+   * 
+   * Requirements: 2.6 - Transaction details extraction
+   * 
+   * @param transactions - Parsed transactions
+   * @param signal - Optional abort signal
+   * @returns true if anything was resolved, so the transactions should be re-parsed
+   */
+  resolveTransactions(transactions: Transaction[], signal?: AbortSignal): Promise<boolean>;
+  
   /**
    * Get detailed information for a specific transaction
    * 
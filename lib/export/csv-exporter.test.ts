@@ -0,0 +1,238 @@
+/**
+ * Unit tests for CSVExporter
+ * 
+ * Tests cover:
+ * - One row per leg and per token (Requirement 4.3, 13.2)
+ * - Transfer directions (Requirement 4.3)
+ * - Fee placement (Requirement 4.2)
+ * - Notes on unresolved tokens (Requirement 13.2)
+ */
+
+import { CSVExporter, type AwakenTaxRow } from './csv-exporter';
+import type { Amount, Transaction, TransactionLeg } from '../blockchain/types';
+
+const WALLET = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+const OTHER = 'osmo1zzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzzz';
+
+const osmo = (value: string): Amount => ({ value, denom: 'uosmo', symbol: 'OSMO' });
+const ion = (value: string): Amount => ({ value, denom: 'uion', symbol: 'ION' });
+const EVMOS = 'ibc/0954E1C28EB7AF5B72D24F3BC2B47BBB2FDF91BDDFD57B74B99E133AED40972A';
+const evmos = (value: string): Amount => ({ value, denom: EVMOS, symbol: EVMOS, unresolved: true });
+
+function makeTx(legs: TransactionLeg[], overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    hash: 'HASH',
+    timestamp: new Date('2024-03-15T12:30:45.000Z'),
+    type: legs[0]?.type ?? 'unknown',
+    status: 'success',
+    amounts: legs.flatMap(leg => leg.amounts),
+    legs,
+    fee: osmo('0.005'),
+    ...overrides,
+  };
+}
+
+/**
+ * Export transactions and read the rows back, keyed by column
+ */
+function exportRows(transactions: Transaction[], walletAddress?: string): AwakenTaxRow[] {
+  const [header, ...lines] = new CSVExporter().exportToAwakenTax(transactions, walletAddress).split('\n');
+  const columns = header.split(',') as (keyof AwakenTaxRow)[];
+
+  return lines.map(line => {
+    const values = line.split(',');
+    return Object.fromEntries(columns.map((column, index) => [column, values[index]])) as unknown as AwakenTaxRow;
+  });
+}
+
+/**
+ * Pick the amount columns of a row
+ */
+const amounts = (row: AwakenTaxRow) => ({
+  buy: `${row['Buy Amount']} ${row['Buy Currency']}`.trim(),
+  sell: `${row['Sell Amount']} ${row['Sell Currency']}`.trim(),
+});
+
+describe('CSVExporter', () => {
+  describe('exportToAwakenTax', () => {
+    it('should write the Awaken Tax header', () => {
+      const [header] = new CSVExporter().exportToAwakenTax([]).split('\n');
+
+      expect(header).toBe(
+        'Date,Type,Buy Amount,Buy Currency,Sell Amount,Sell Currency,Fee Amount,Fee Currency,Exchange,Transaction ID,Notes'
+      );
+    });
+
+    it('should write a row per leg with the fee on the first row only', () => {
+      const tx = makeTx([
+        { type: 'transfer', amounts: [osmo('1')], source: 'message', msgIndex: 0, direction: 'out' },
+        { type: 'stake', amounts: [osmo('2')], source: 'message', msgIndex: 1 },
+      ]);
+
+      const rows = exportRows([tx]);
+
+      expect(rows.map(row => row.Type)).toEqual(['Transfer', 'Stake']);
+      expect(rows.map(row => [row['Fee Amount'], row['Fee Currency']])).toEqual([['0.005', 'OSMO'], ['', '']]);
+      expect(rows.every(row => row['Transaction ID'] === 'HASH' && row.Exchange === 'Osmosis')).toBe(true);
+    });
+
+    it('should keep transactions without token movements for their fee', () => {
+      const rows = exportRows([makeTx([{ type: 'vote', amounts: [], source: 'message' }], { type: 'vote' })]);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ Type: 'Other', 'Fee Amount': '0.005', 'Buy Amount': '', 'Sell Amount': '' });
+    });
+
+    it('should leave out fees another account paid', () => {
+      const tx = makeTx(
+        [{ type: 'transfer', amounts: [osmo('1')], source: 'message', direction: 'out' }],
+        { feePayer: OTHER }
+      );
+
+      expect(exportRows([tx], WALLET)[0]['Fee Amount']).toBe('');
+      expect(exportRows([tx])[0]['Fee Amount']).toBe('0.005');
+    });
+  });
+
+  describe('multi-denom legs', () => {
+    it('should write every coin of a send', () => {
+      const tx = makeTx([
+        { type: 'transfer', amounts: [osmo('1'), ion('2')], source: 'message', direction: 'out', counterparty: OTHER },
+      ]);
+
+      const rows = exportRows([tx]);
+
+      expect(rows.map(amounts)).toEqual([
+        { buy: '', sell: '1 OSMO' },
+        { buy: '', sell: '2 ION' },
+      ]);
+      expect(rows.map(row => row['Fee Amount'])).toEqual(['0.005', '']);
+    });
+
+    it('should write every coin that is staked or locked', () => {
+      const tx = makeTx([
+        { type: 'lock_tokens', amounts: [osmo('1'), ion('2')], source: 'message' },
+      ]);
+
+      expect(exportRows([tx]).map(row => ({ type: row.Type, ...amounts(row) }))).toEqual([
+        { type: 'Stake', buy: '', sell: '1 OSMO' },
+        { type: 'Stake', buy: '', sell: '2 ION' },
+      ]);
+    });
+
+    it('should write every coin that is unstaked or unlocked', () => {
+      const tx = makeTx([
+        { type: 'begin_unlocking', amounts: [osmo('1'), ion('2')], source: 'message' },
+      ]);
+
+      expect(exportRows([tx]).map(row => ({ type: row.Type, ...amounts(row) }))).toEqual([
+        { type: 'Unstake', buy: '1 OSMO', sell: '' },
+        { type: 'Unstake', buy: '2 ION', sell: '' },
+      ]);
+    });
+
+    it('should merge reward claims into one Income row per denom', () => {
+      const tx = makeTx([
+        { type: 'claim_rewards', amounts: [osmo('1'), ion('2')], source: 'message', msgIndex: 0 },
+        { type: 'claim_rewards', amounts: [osmo('3')], source: 'message', msgIndex: 1 },
+      ]);
+
+      expect(exportRows([tx]).map(row => ({ type: row.Type, ...amounts(row) }))).toEqual([
+        { type: 'Income', buy: '4 OSMO', sell: '' },
+        { type: 'Income', buy: '2 ION', sell: '' },
+      ]);
+    });
+  });
+
+  describe('transfer directions', () => {
+    it('should write every coin received as Buy', () => {
+      const tx = makeTx([
+        { type: 'transfer', amounts: [osmo('1'), ion('2')], source: 'message', direction: 'in', counterparty: OTHER },
+      ]);
+
+      expect(exportRows([tx]).map(amounts)).toEqual([
+        { buy: '1 OSMO', sell: '' },
+        { buy: '2 ION', sell: '' },
+      ]);
+    });
+
+    it('should write every coin sent to the wallet itself as both Buy and Sell', () => {
+      const tx = makeTx([
+        { type: 'transfer', amounts: [osmo('1'), ion('2')], source: 'message', direction: 'self', counterparty: WALLET },
+      ]);
+
+      expect(exportRows([tx]).map(amounts)).toEqual([
+        { buy: '1 OSMO', sell: '1 OSMO' },
+        { buy: '2 ION', sell: '2 ION' },
+      ]);
+    });
+
+    it('should write every coin of each multi-send input and output', () => {
+      const tx = makeTx([
+        { type: 'transfer', amounts: [osmo('3'), ion('4')], source: 'message', msgIndex: 0, direction: 'out' },
+        { type: 'transfer', amounts: [osmo('1'), ion('2')], source: 'message', msgIndex: 0, direction: 'in' },
+      ]);
+
+      const rows = exportRows([tx]);
+
+      expect(rows.map(amounts)).toEqual([
+        { buy: '', sell: '3 OSMO' },
+        { buy: '', sell: '4 ION' },
+        { buy: '1 OSMO', sell: '' },
+        { buy: '2 ION', sell: '' },
+      ]);
+      expect(rows.map(row => row['Fee Amount'])).toEqual(['0.005', '', '', '']);
+    });
+
+    it('should write every coin of an incoming IBC transfer as Buy', () => {
+      const tx = makeTx([
+        { type: 'ibc_transfer_in', amounts: [osmo('1'), ion('2')], source: 'message', direction: 'in' },
+      ]);
+
+      expect(exportRows([tx]).map(row => ({ type: row.Type, ...amounts(row) }))).toEqual([
+        { type: 'Transfer', buy: '1 OSMO', sell: '' },
+        { type: 'Transfer', buy: '2 ION', sell: '' },
+      ]);
+    });
+
+    it('should treat transfers without a direction as sent', () => {
+      const tx = makeTx([{ type: 'transfer', amounts: [osmo('1'), ion('2')], source: 'message' }]);
+
+      expect(exportRows([tx]).map(amounts)).toEqual([
+        { buy: '', sell: '1 OSMO' },
+        { buy: '', sell: '2 ION' },
+      ]);
+    });
+  });
+
+  describe('unresolved tokens', () => {
+    it('should list the unresolved denoms once', () => {
+      const tx = makeTx(
+        [{ type: 'transfer', amounts: [osmo('1'), evmos('5')], source: 'message', direction: 'in' }],
+        { fee: evmos('2') }
+      );
+
+      expect(new CSVExporter().getUnresolvedDenoms([tx, makeTx([])])).toEqual([EVMOS]);
+    });
+
+    it('should note the rows holding amounts in base units', () => {
+      const tx = makeTx([
+        { type: 'transfer', amounts: [osmo('1'), evmos('5')], source: 'message', direction: 'in' },
+      ]);
+
+      expect(exportRows([tx]).map(row => row.Notes)).toEqual([
+        '',
+        `Unresolved token ${EVMOS}: amount in base units`,
+      ]);
+    });
+
+    it('should note an unresolved fee once', () => {
+      const tx = makeTx(
+        [{ type: 'transfer', amounts: [evmos('5')], source: 'message', direction: 'in' }],
+        { fee: evmos('2') }
+      );
+
+      expect(exportRows([tx])[0].Notes).toBe(`Unresolved token ${EVMOS}: amount in base units`);
+    });
+  });
+});
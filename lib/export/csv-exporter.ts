@@ -7,8 +7,9 @@
  * Requirements: 4.1, 4.2, 4.3, 4.5, 13.2 - CSV export functionality
  */
 
-import type { Transaction, TransactionType } from '../blockchain/types';
+import type { Amount, Transaction, TransactionLeg, TransactionType } from '../blockchain/types';
 import { DateFormatter } from '../utils/date-formatter';
+import { AmountFormatter } from '../utils/amount-formatter';
 
 /**
  * Awaken Tax CSV row format
@@ -26,6 +27,7 @@ export interface AwakenTaxRow {
   'Fee Currency': string;      // Fee currency
   Exchange: string;            // Exchange name (Osmosis)
   'Transaction ID': string;    // Transaction hash
+  Notes: string;               // Warnings, e.g. amounts of unresolved tokens
 }
 
 /**
@@ -41,64 +43,205 @@ export class CSVExporter {
    * Requirements: 4.1, 4.2 - CSV generation with proper format
    * 
    * @param transactions - Array of transactions to export
+   * @param walletAddress - Exported wallet; fees another account paid (e.g. a fee granter) are left out
    * @returns CSV string
    */
-  exportToAwakenTax(transactions: Transaction[]): string {
-    const rows = transactions.map(tx => this.mapToAwakenTax(tx));
+  exportToAwakenTax(transactions: Transaction[], walletAddress?: string): string {
+    const rows = transactions.flatMap(tx => this.mapToAwakenTax(tx, walletAddress));
     return this.generateCSV(rows);
   }
 
+  /**
+   * Find the tokens whose decimals aren't known in the exported amounts
+   * 
+   * Their amounts are exported in base units, so callers can ask for the
+   * decimals before exporting.
+   * 
+   * @param transactions - Transactions to export
+   * @returns Denoms of unresolved tokens, without duplicates
+   */
+  getUnresolvedDenoms(transactions: Transaction[]): string[] {
+    const denoms = transactions
+      .flatMap(tx => [tx.fee, ...tx.legs.flatMap(leg => leg.amounts)])
+      .filter(amount => amount.unresolved)
+      .map(amount => amount.denom);
+
+    return Array.from(new Set(denoms));
+  }
+
   /**
    * Map a transaction to Awaken Tax format
    * 
    * Requirements: 4.3, 13.2 - Transaction type mapping and data preservation
    * 
+   * Each leg that moves tokens becomes its own row(s). The fee is only
+   * reported on the first row so it isn't counted more than once, and not
+   * at all when another account paid it. Rows with amounts of unresolved
+   * tokens say so in their notes.
+   * 
    * @param tx - Transaction to map
-   * @returns Awaken Tax row
+   * @param walletAddress - Exported wallet
+   * @returns Awaken Tax rows
    */
-  private mapToAwakenTax(tx: Transaction): AwakenTaxRow {
-    // Initialize row with common fields
-    const row: AwakenTaxRow = {
-      Date: DateFormatter.formatForCSV(tx.timestamp),
-      Type: this.mapTransactionType(tx.type),
-      'Buy Amount': '',
-      'Buy Currency': '',
-      'Sell Amount': '',
-      'Sell Currency': '',
-      'Fee Amount': tx.fee.value,
-      'Fee Currency': tx.fee.symbol,
-      Exchange: 'Osmosis',
-      'Transaction ID': tx.hash,
-    };
+  private mapToAwakenTax(tx: Transaction, walletAddress?: string): AwakenTaxRow[] {
+    const rows = this.groupLegs(tx.legs).flatMap(leg => (
+      this.mapLeg(tx, leg).map(row => this.noteUnresolved(row, leg.amounts))
+    ));
+
+    // Keep transactions without token movements (e.g. votes) for their fee
+    if (rows.length === 0) {
+      rows.push(this.createRow(tx, tx.type));
+    }
+
+    const charged = !walletAddress || !tx.feePayer || tx.feePayer === walletAddress;
+
+    return rows.map((row, index) => (
+      charged && index === 0
+        ? this.noteUnresolved({ ...row, 'Fee Amount': tx.fee.value, 'Fee Currency': tx.fee.symbol }, [tx.fee])
+        : row
+    ));
+  }
+
+  /**
+   * Note the unresolved tokens among the amounts a row holds
+   * 
+   * Amounts of tokens whose decimals aren't known are in base units under
+   * the raw denom, which the note points out so they aren't taken for
+   * display units.
+   * 
+   * @param row - Awaken Tax row
+   * @param amounts - Amounts the row may hold
+   * @returns Row with the unresolved tokens noted
+   */
+  private noteUnresolved(row: AwakenTaxRow, amounts: Amount[]): AwakenTaxRow {
+    const currencies = [
+      ...row['Buy Currency'].split('+'),
+      ...row['Sell Currency'].split('+'),
+      row['Fee Currency'],
+    ];
+    const notes = amounts
+      .filter(amount => amount.unresolved && currencies.includes(amount.symbol))
+      .map(amount => `Unresolved token ${amount.denom}: amount in base units`)
+      .filter(note => !row.Notes.includes(note));
+
+    return notes.length > 0
+      ? { ...row, Notes: [row.Notes, ...notes].filter(Boolean).join('; ') }
+      : row;
+  }
+
+  /**
+   * Select the legs to export
+   * 
+   * Drops legs without amounts and merges all reward claims into one leg,
+   * so each reward denom gets a single Income row per transaction.
+   * 
+   * @param legs - Transaction legs
+   * @returns Legs to export, in order
+   */
+  private groupLegs(legs: TransactionLeg[]): TransactionLeg[] {
+    const grouped: TransactionLeg[] = [];
+    let rewards: TransactionLeg | undefined;
+
+    for (const leg of legs) {
+      if (leg.amounts.length === 0) {
+        continue;
+      }
+
+      if (leg.type !== 'claim_rewards') {
+        grouped.push(leg);
+      } else if (!rewards) {
+        rewards = { ...leg };
+        grouped.push(rewards);
+      } else {
+        rewards.amounts = AmountFormatter.sumByDenom([...rewards.amounts, ...leg.amounts]);
+      }
+    }
+
+    return grouped;
+  }
 
-    // Map amounts based on transaction type
-    switch (tx.type) {
+  /**
+   * Map a transaction leg to Awaken Tax rows
+   * 
+   * @param tx - Transaction the leg belongs to
+   * @param leg - Leg to map
+   * @returns Awaken Tax rows (most legs map to a single row)
+   */
+  private mapLeg(tx: Transaction, leg: TransactionLeg): AwakenTaxRow[] {
+    const row = this.createRow(tx, leg.type);
+
+    // Map amounts based on leg type
+    switch (leg.type) {
       case 'swap':
-        return this.mapSwap(tx, row);
+        return [this.mapSwap(leg, row)];
       
       case 'transfer':
-        return this.mapTransfer(tx, row);
+      case 'ibc_transfer_out':
+      case 'ibc_transfer_in':
+      case 'ibc_refund':
+        return this.mapTransfer(leg, row);
       
       case 'stake':
-        return this.mapStake(tx, row);
+      case 'cancel_unbonding':
+      case 'lock_tokens':
+      case 'superfluid_delegate':
+        return this.mapStake(leg, row);
       
       case 'unstake':
-        return this.mapUnstake(tx, row);
+      case 'begin_unlocking':
+      case 'superfluid_undelegate':
+        return this.mapUnstake(leg, row);
       
       case 'claim_rewards':
-        return this.mapClaimRewards(tx, row);
+      case 'collect_spread_rewards':
+      case 'collect_incentives':
+        return this.mapClaimRewards(leg, row);
+      
+      case 'deposit':
+      case 'submit_proposal':
+        return this.mapDeposit(leg, row);
+      
+      case 'execute_contract':
+      case 'create_denom':
+      case 'mint':
+      case 'burn':
+      case 'unknown':
+        return this.mapBalanceChange(leg, row);
       
       case 'provide_liquidity':
-        return this.mapProvideLiquidity(tx, row);
+        return [this.mapProvideLiquidity(leg, row)];
       
       case 'remove_liquidity':
-        return this.mapRemoveLiquidity(tx, row);
+        return [this.mapRemoveLiquidity(leg, row)];
       
       default:
-        return row;
+        return [row];
     }
   }
 
+  /**
+   * Create a row with the fields common to every row of a transaction
+   * 
+   * @param tx - Transaction
+   * @param type - Type of the leg the row is for
+   * @returns Awaken Tax row without amounts
+   */
+  private createRow(tx: Transaction, type: TransactionType): AwakenTaxRow {
+    return {
+      Date: DateFormatter.formatForCSV(tx.timestamp),
+      Type: this.mapTransactionType(type),
+      'Buy Amount': '',
+      'Buy Currency': '',
+      'Sell Amount': '',
+      'Sell Currency': '',
+      'Fee Amount': '',
+      'Fee Currency': '',
+      Exchange: 'Osmosis',
+      'Transaction ID': tx.hash,
+      Notes: '',
+    };
+  }
+
   /**
    * Map transaction type to Awaken Tax type
    * 
@@ -110,13 +253,32 @@ export class CSVExporter {
   private mapTransactionType(type: TransactionType): string {
     const typeMap: Record<TransactionType, string> = {
       'swap': 'Trade',
-      'transfer': 'Transfer',  // Will be refined to Buy/Sell based on direction
+      'transfer': 'Transfer',  // Buy or Sell columns follow the direction
+      'ibc_transfer_out': 'Transfer',
+      'ibc_transfer_in': 'Transfer',
+      'ibc_refund': 'Transfer',  // Received back, offsetting the outgoing transfer
       'stake': 'Stake',
       'unstake': 'Unstake',
+      'redelegate': 'Other',  // The tokens stay staked
+      'cancel_unbonding': 'Stake',  // Unbonding tokens are staked again
+      'lock_tokens': 'Stake',  // Locks move tokens without disposing of them
+      'begin_unlocking': 'Unstake',
+      'superfluid_delegate': 'Stake',
+      'superfluid_undelegate': 'Unstake',
       'claim_rewards': 'Income',
+      'collect_spread_rewards': 'Income',  // Trading fees earned by a concentrated liquidity position
+      'collect_incentives': 'Income',
       'provide_liquidity': 'Trade',
       'remove_liquidity': 'Trade',
+      'deposit': 'Transfer',  // Sent to the gov module; a refund comes back as its own row
+      'submit_proposal': 'Transfer',
       'vote': 'Other',
+      'execute_contract': 'Transfer',  // Tokens sent to or received from a contract
+      'create_denom': 'Other',  // The creation fee is a cost, not a transfer
+      'mint': 'Transfer',  // New tokens of the wallet's own denom
+      'burn': 'Transfer',
+      'change_denom_admin': 'Other',
+      'protorev': 'Other',
       'unknown': 'Other',
     };
 
@@ -124,120 +286,184 @@ export class CSVExporter {
   }
 
   /**
-   * Map swap transaction
+   * Map swap leg
    * 
    * Swap: Trade type with input as Sell and output as Buy
    * 
-   * @param tx - Transaction
+   * @param leg - Transaction leg
    * @param row - Awaken Tax row
    * @returns Updated row
    */
-  private mapSwap(tx: Transaction, row: AwakenTaxRow): AwakenTaxRow {
-    if (tx.amounts.length >= 2) {
+  private mapSwap(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow {
+    if (leg.amounts.length >= 2) {
       // First amount is typically the input (sell)
-      row['Sell Amount'] = tx.amounts[0].value;
-      row['Sell Currency'] = tx.amounts[0].symbol;
+      row['Sell Amount'] = leg.amounts[0].value;
+      row['Sell Currency'] = leg.amounts[0].symbol;
       
       // Second amount is the output (buy)
-      row['Buy Amount'] = tx.amounts[1].value;
-      row['Buy Currency'] = tx.amounts[1].symbol;
-    } else if (tx.amounts.length === 1) {
+      row['Buy Amount'] = leg.amounts[1].value;
+      row['Buy Currency'] = leg.amounts[1].symbol;
+    } else if (leg.amounts.length === 1) {
       // If only one amount, assume it's the sell amount
-      row['Sell Amount'] = tx.amounts[0].value;
-      row['Sell Currency'] = tx.amounts[0].symbol;
+      row['Sell Amount'] = leg.amounts[0].value;
+      row['Sell Currency'] = leg.amounts[0].symbol;
     }
 
     return row;
   }
 
   /**
-   * Map transfer transaction
+   * Map transfer leg
    * 
-   * Transfer can be either Buy (received) or Sell (sent)
-   * For now, we'll mark it as Transfer and let the user categorize
+   * One row per transferred denom. Received tokens go to Buy, sent tokens
+   * to Sell, and a transfer to oneself fills both. Transfers of unknown
+   * direction are treated as sent. Also used for IBC transfers; a refund
+   * is received, so it cancels out the outgoing transfer it returns.
    * 
-   * @param tx - Transaction
+   * @param leg - Transaction leg
    * @param row - Awaken Tax row
-   * @returns Updated row
+   * @returns Rows, one per token
    */
-  private mapTransfer(tx: Transaction, row: AwakenTaxRow): AwakenTaxRow {
-    if (tx.amounts.length > 0) {
-      // Assume transfer out (sell) by default
-      row['Sell Amount'] = tx.amounts[0].value;
-      row['Sell Currency'] = tx.amounts[0].symbol;
-    }
+  private mapTransfer(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow[] {
+    return leg.amounts.map(amount => {
+      const transfer = { ...row };
+
+      if (leg.direction === 'in' || leg.direction === 'self') {
+        transfer['Buy Amount'] = amount.value;
+        transfer['Buy Currency'] = amount.symbol;
+      }
+      if (leg.direction !== 'in') {
+        transfer['Sell Amount'] = amount.value;
+        transfer['Sell Currency'] = amount.symbol;
+      }
+
+      return transfer;
+    });
+  }
 
-    return row;
+  /**
+   * Map stake leg
+   * 
+   * Stake: one row per staked denom with the stake as Sell. Also used for
+   * cancelled unbondings, locks and superfluid delegations, which aren't
+   * taxable either; locks of several LP shares get a row each.
+   * 
+   * @param leg - Transaction leg
+   * @param row - Awaken Tax row
+   * @returns Rows, one per token
+   */
+  private mapStake(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow[] {
+    return leg.amounts.map(amount => ({
+      ...row,
+      'Sell Amount': amount.value,
+      'Sell Currency': amount.symbol,
+    }));
   }
 
   /**
-   * Map stake transaction
+   * Map unstake leg
    * 
-   * Stake: Staked token goes to Sell
+   * Unstake: one row per unstaked denom with the tokens as Buy. Also used
+   * for unlocking and superfluid undelegations.
    * 
-   * @param tx - Transaction
+   * @param leg - Transaction leg
    * @param row - Awaken Tax row
-   * @returns Updated row
+   * @returns Rows, one per token
    */
-  private mapStake(tx: Transaction, row: AwakenTaxRow): AwakenTaxRow {
-    if (tx.amounts.length > 0) {
-      row['Sell Amount'] = tx.amounts[0].value;
-      row['Sell Currency'] = tx.amounts[0].symbol;
-    }
+  private mapUnstake(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow[] {
+    return leg.amounts.map(amount => ({
+      ...row,
+      'Buy Amount': amount.value,
+      'Buy Currency': amount.symbol,
+    }));
+  }
 
-    return row;
+  /**
+   * Map claim rewards leg
+   * 
+   * Claim rewards: one Income row per reward denom with the reward as Buy.
+   * Also used for spread rewards and incentives collected from
+   * concentrated liquidity positions.
+   * 
+   * @param leg - Transaction leg
+   * @param row - Awaken Tax row
+   * @returns Income rows
+   */
+  private mapClaimRewards(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow[] {
+    return leg.amounts.map(amount => ({
+      ...row,
+      'Buy Amount': amount.value,
+      'Buy Currency': amount.symbol,
+    }));
   }
 
   /**
-   * Map unstake transaction
+   * Map governance deposit leg
    * 
-   * Unstake: Unstaked token goes to Buy
+   * Deposit: one row per deposited denom with the deposit as Sell. When
+   * the proposal has ended and the deposit was refunded, a second row with
+   * the refund as Buy is dated when the proposal ended. Burned deposits
+   * never come back, so they only have the Sell row. Also used for the
+   * initial deposit of a submitted proposal.
    * 
-   * @param tx - Transaction
+   * @param leg - Transaction leg
    * @param row - Awaken Tax row
-   * @returns Updated row
+   * @returns Deposit rows, followed by refund rows if refunded
    */
-  private mapUnstake(tx: Transaction, row: AwakenTaxRow): AwakenTaxRow {
-    if (tx.amounts.length > 0) {
-      row['Buy Amount'] = tx.amounts[0].value;
-      row['Buy Currency'] = tx.amounts[0].symbol;
+  private mapDeposit(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow[] {
+    const rows = leg.amounts.map(amount => ({
+      ...row,
+      'Sell Amount': amount.value,
+      'Sell Currency': amount.symbol,
+    }));
+
+    const settledAt = leg.governance?.settledAt;
+    if (leg.governance?.depositOutcome === 'refunded' && settledAt) {
+      rows.push(...leg.amounts.map(amount => ({
+        ...row,
+        Date: DateFormatter.formatForCSV(settledAt),
+        'Buy Amount': amount.value,
+        'Buy Currency': amount.symbol,
+      })));
     }
 
-    return row;
+    return rows;
   }
 
   /**
-   * Map claim rewards transaction
+   * Map contract execution leg
    * 
-   * Claim rewards: Income type with reward as Buy
+   * Contract execution: one row per token, with tokens received from the
+   * contract as Buy and tokens sent to it as Sell. Also used for messages
+   * of unknown type, whose legs hold the balance changes in their events,
+   * and for token factory mints, burns and denom creation fees.
    * 
-   * @param tx - Transaction
+   * @param leg - Transaction leg
    * @param row - Awaken Tax row
-   * @returns Updated row
+   * @returns Rows, one per token
    */
-  private mapClaimRewards(tx: Transaction, row: AwakenTaxRow): AwakenTaxRow {
-    if (tx.amounts.length > 0) {
-      row['Buy Amount'] = tx.amounts[0].value;
-      row['Buy Currency'] = tx.amounts[0].symbol;
-    }
-
-    return row;
+  private mapBalanceChange(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow[] {
+    return leg.amounts.map(amount => (
+      leg.direction === 'in'
+        ? { ...row, 'Buy Amount': amount.value, 'Buy Currency': amount.symbol }
+        : { ...row, 'Sell Amount': amount.value, 'Sell Currency': amount.symbol }
+    ));
   }
 
   /**
-   * Map provide liquidity transaction
+   * Map provide liquidity leg
    * 
    * Provide liquidity: Trade with input tokens as Sell and LP token as Buy
    * 
-   * @param tx - Transaction
+   * @param leg - Transaction leg
    * @param row - Awaken Tax row
    * @returns Updated row
    */
-  private mapProvideLiquidity(tx: Transaction, row: AwakenTaxRow): AwakenTaxRow {
-    if (tx.amounts.length > 0) {
+  private mapProvideLiquidity(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow {
+    if (leg.amounts.length > 0) {
       // Input tokens (sell)
-      const sellAmounts = tx.amounts.map(a => a.value).join('+');
-      const sellCurrencies = tx.amounts.map(a => a.symbol).join('+');
+      const sellAmounts = leg.amounts.map(a => a.value).join('+');
+      const sellCurrencies = leg.amounts.map(a => a.symbol).join('+');
       
       row['Sell Amount'] = sellAmounts;
       row['Sell Currency'] = sellCurrencies;
@@ -250,19 +476,19 @@ export class CSVExporter {
   }
 
   /**
-   * Map remove liquidity transaction
+   * Map remove liquidity leg
    * 
    * Remove liquidity: Trade with LP token as Sell and output tokens as Buy
    * 
-   * @param tx - Transaction
+   * @param leg - Transaction leg
    * @param row - Awaken Tax row
    * @returns Updated row
    */
-  private mapRemoveLiquidity(tx: Transaction, row: AwakenTaxRow): AwakenTaxRow {
-    if (tx.amounts.length > 0) {
+  private mapRemoveLiquidity(leg: TransactionLeg, row: AwakenTaxRow): AwakenTaxRow {
+    if (leg.amounts.length > 0) {
       // Output tokens (buy)
-      const buyAmounts = tx.amounts.map(a => a.value).join('+');
-      const buyCurrencies = tx.amounts.map(a => a.symbol).join('+');
+      const buyAmounts = leg.amounts.map(a => a.value).join('+');
+      const buyCurrencies = leg.amounts.map(a => a.symbol).join('+');
       
       row['Buy Amount'] = buyAmounts;
       row['Buy Currency'] = buyCurrencies;
@@ -295,6 +521,7 @@ export class CSVExporter {
       'Fee Currency',
       'Exchange',
       'Transaction ID',
+      'Notes',
     ];
 
     // Generate header row
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for DenomOverrides
+ *
+ * Tests cover storing and validating overrides, and applying them to
+ * parsed transactions.
+ */
+
+import type { Amount, Transaction } from '../blockchain/types';
+import { DenomOverrides } from './denom-overrides';
+
+const MILK = 'factory/osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu/umilk';
+
+const osmo = (value: string): Amount => ({ value, denom: 'uosmo', symbol: 'OSMO' });
+const milk = (value: string, unresolved = true): Amount => ({
+  value,
+  denom: MILK,
+  symbol: 'MILK',
+  ...(unresolved ? { unresolved } : {}),
+});
+
+function makeTx(amounts: Amount[], overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    hash: 'HASH',
+    timestamp: new Date('2024-01-01T00:00:00Z'),
+    type: 'transfer',
+    status: 'success',
+    amounts,
+    legs: [{ type: 'transfer', amounts, source: 'message', direction: 'in' }],
+    fee: osmo('0.005'),
+    ...overrides,
+  };
+}
+
+describe('DenomOverrides', () => {
+  let overrides: DenomOverrides;
+
+  beforeEach(() => {
+    localStorage.clear();
+    overrides = new DenomOverrides();
+  });
+
+  describe('set', () => {
+    it('should store a trimmed symbol and the decimals in local storage', () => {
+      overrides.set(MILK, { symbol: ' MILK ', exponent: 6 });
+
+      expect(overrides.get(MILK)).toEqual({ symbol: 'MILK', exponent: 6 });
+      expect(new DenomOverrides().getAll()).toEqual({ [MILK]: { symbol: 'MILK', exponent: 6 } });
+    });
+
+    it('should reject an empty symbol and invalid decimals', () => {
+      expect(() => overrides.set(MILK, { symbol: '  ' })).toThrow('Symbol cannot be empty');
+      expect(() => overrides.set(MILK, { symbol: 'MILK', exponent: 1.5 })).toThrow('Decimals must be');
+      expect(() => overrides.set(MILK, { symbol: 'MILK', exponent: 31 })).toThrow('Decimals must be');
+      expect(overrides.getAll()).toEqual({});
+    });
+
+    it('should remove an override', () => {
+      overrides.set(MILK, { symbol: 'MILK' });
+      overrides.remove(MILK);
+
+      expect(overrides.get(MILK)).toBeUndefined();
+    });
+
+    it('should ignore unreadable storage', () => {
+      localStorage.setItem('osmosis-denom-overrides', '{not json');
+
+      expect(new DenomOverrides().getAll()).toEqual({});
+    });
+  });
+
+  describe('apply', () => {
+    it('should return transactions without overridden denoms as they are', () => {
+      overrides.set(MILK, { symbol: 'LAIT' });
+      const tx = makeTx([osmo('1')]);
+
+      expect(overrides.apply([tx])[0]).toBe(tx);
+    });
+
+    it('should rename overridden denoms in amounts, legs, fees and balance changes', () => {
+      overrides.set(MILK, { symbol: 'LAIT' });
+      const tx = makeTx([milk('2500000')], { fee: milk('100'), balanceChanges: [milk('2499900')] });
+
+      const [applied] = overrides.apply([tx]);
+
+      expect(applied.amounts[0]).toEqual({ ...milk('2500000'), symbol: 'LAIT' });
+      expect(applied.legs[0].amounts[0].symbol).toBe('LAIT');
+      expect(applied.fee.symbol).toBe('LAIT');
+      expect(applied.balanceChanges![0].symbol).toBe('LAIT');
+    });
+
+    it('should convert unresolved amounts and mismatches when the decimals are given', () => {
+      overrides.set(MILK, { symbol: 'MILK', exponent: 6 });
+      const tx = makeTx([milk('2500000')], {
+        balanceMismatches: [{ denom: MILK, symbol: 'MILK', expected: '2500000', actual: '-1000000', unresolved: true }],
+      });
+
+      const [applied] = overrides.apply([tx]);
+
+      expect(applied.legs[0].amounts).toEqual([{ value: '2.5', denom: MILK, symbol: 'MILK' }]);
+      expect(applied.balanceMismatches).toEqual([{ denom: MILK, symbol: 'MILK', expected: '2.5', actual: '-1' }]);
+    });
+
+    it('should keep unresolved amounts in base units without decimals', () => {
+      overrides.set(MILK, { symbol: 'LAIT' });
+
+      const [applied] = overrides.apply([makeTx([milk('2500000')])]);
+
+      expect(applied.legs[0].amounts).toEqual([{ ...milk('2500000'), symbol: 'LAIT' }]);
+    });
+
+    it('should only rename amounts already converted with other decimals', () => {
+      overrides.set(MILK, { symbol: 'LAIT', exponent: 8 });
+
+      const [applied] = overrides.apply([makeTx([milk('2.5', false)])]);
+
+      expect(applied.legs[0].amounts).toEqual([{ value: '2.5', denom: MILK, symbol: 'LAIT' }]);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Denom overrides for local storage
+ *
+ * Lets the user name tokens no metadata source knows (custom and factory
+ * tokens, unlisted IBC tokens) and give their decimals. Overrides take
+ * precedence over the bundled asset list and on-chain metadata, and are
+ * applied to already parsed transactions so every row and export picks up
+ * a rename immediately.
+ *
+ * Requirements: 13.3 - Decimal precision preservation
+ */
+
+import type { DenomInfo, DenomMetadataSource } from '../blockchain/denom-metadata';
+import type { Amount, BalanceMismatch, Transaction, TransactionLeg } from '../blockchain/types';
+import { AmountFormatter } from '../utils/amount-formatter';
+
+/**
+ * A user-defined name for a denom
+ */
+export interface DenomOverride {
+  /** Symbol to show and export */
+  symbol: string;
+
+  /** Decimals of the token, if known */
+  exponent?: number;
+}
+
+/**
+ * DenomOverrides class
+ *
+ * Manages denom overrides in browser local storage.
+ */
+export class DenomOverrides implements DenomMetadataSource {
+  private storageKey = 'osmosis-denom-overrides';
+  private overrides: Record<string, DenomOverride> | null = null;
+
+  /**
+   * Get the override for a denom
+   *
+   * @param denom - Token denomination
+   * @returns Override as denom info, or undefined if there is none
+   */
+  get(denom: string): DenomInfo | undefined {
+    return this.getAll()[denom];
+  }
+
+  /**
+   * Get all overrides
+   *
+   * @returns Overrides by denom
+   */
+  getAll(): Record<string, DenomOverride> {
+    if (!this.overrides) {
+      try {
+        const data = localStorage.getItem(this.storageKey);
+        this.overrides = data ? JSON.parse(data) : {};
+      } catch {
+        // Unreadable overrides (e.g. storage blocked or corrupted) are treated as none
+        this.overrides = {};
+      }
+    }
+
+    return this.overrides!;
+  }
+
+  /**
+   * Save an override for a denom
+   *
+   * @param denom - Token denomination
+   * @param override - Symbol and optional decimals
+   */
+  set(denom: string, override: DenomOverride): void {
+    const symbol = override.symbol.trim();
+    if (!symbol) {
+      throw new Error('Symbol cannot be empty');
+    }
+    if (override.exponent !== undefined && (!Number.isInteger(override.exponent) || override.exponent < 0 || override.exponent > 30)) {
+      throw new Error('Decimals must be a whole number between 0 and 30');
+    }
+
+    this.save({ ...this.getAll(), [denom]: { symbol, exponent: override.exponent } });
+  }
+
+  /**
+   * Remove the override for a denom
+   *
+   * @param denom - Token denomination
+   */
+  remove(denom: string): void {
+    const overrides = { ...this.getAll() };
+    delete overrides[denom];
+    this.save(overrides);
+  }
+
+  /**
+   * Apply the overrides to parsed transactions
+   *
+   * Renames overridden denoms everywhere. Amounts that were left in base
+   * units because their decimals were unknown are converted when the
+   * override gives the decimals. Amounts already converted with other
+   * decimals no longer hold their base units, so they keep their value
+   * until they are re-parsed (see SyncOptions.reparseDenoms). Transactions
+   * without overridden denoms are returned as they are.
+   *
+   * @param transactions - Parsed transactions
+   * @returns Transactions with the overrides applied
+   */
+  apply(transactions: Transaction[]): Transaction[] {
+    const overrides = this.getAll();
+    if (Object.keys(overrides).length === 0) {
+      return transactions;
+    }
+
+    const touches = (amounts: Amount[]) => amounts.some(amount => overrides[amount.denom]);
+    const applyLeg = (leg: TransactionLeg): TransactionLeg => (
+      touches(leg.amounts) ? { ...leg, amounts: leg.amounts.map(amount => this.applyToAmount(amount)) } : leg
+    );
+
+    return transactions.map(tx => {
+      const mismatches = tx.balanceMismatches ?? [];
+      if (
+        !touches([tx.fee, ...tx.amounts, ...tx.legs.flatMap(leg => leg.amounts), ...(tx.balanceChanges ?? [])]) &&
+        !mismatches.some(mismatch => overrides[mismatch.denom])
+      ) {
+        return tx;
+      }
+
+      return {
+        ...tx,
+        amounts: tx.amounts.map(amount => this.applyToAmount(amount)),
+        legs: tx.legs.map(applyLeg),
+        fee: this.applyToAmount(tx.fee),
+        balanceChanges: tx.balanceChanges?.map(amount => this.applyToAmount(amount)),
+        balanceMismatches: tx.balanceMismatches?.map(mismatch => this.applyToMismatch(mismatch)),
+      };
+    });
+  }
+
+  /**
+   * Apply the override of an amount's denom, if any
+   *
+   * @param amount - Parsed amount
+   * @returns Amount with the override applied
+   */
+  private applyToAmount(amount: Amount): Amount {
+    const override = this.getAll()[amount.denom];
+    if (!override) {
+      return amount;
+    }
+
+    if (amount.unresolved && override.exponent !== undefined) {
+      return {
+        value: this.fromSignedBaseUnits(amount.value, override.exponent),
+        denom: amount.denom,
+        symbol: override.symbol,
+      };
+    }
+
+    return { ...amount, symbol: override.symbol };
+  }
+
+  /**
+   * Apply the override of a balance mismatch's denom, if any
+   *
+   * @param mismatch - Balance mismatch
+   * @returns Mismatch with the override applied
+   */
+  private applyToMismatch(mismatch: BalanceMismatch): BalanceMismatch {
+    const override = this.getAll()[mismatch.denom];
+    if (!override) {
+      return mismatch;
+    }
+
+    if (mismatch.unresolved && override.exponent !== undefined) {
+      return {
+        denom: mismatch.denom,
+        symbol: override.symbol,
+        expected: this.fromSignedBaseUnits(mismatch.expected, override.exponent),
+        actual: this.fromSignedBaseUnits(mismatch.actual, override.exponent),
+      };
+    }
+
+    return { ...mismatch, symbol: override.symbol };
+  }
+
+  /**
+   * Convert a value in base units that may be negative (a balance change)
+   *
+   * @param value - Value in base units, e.g. "-1500000"
+   * @param decimals - Number of decimal places
+   * @returns Decimal value, keeping the sign
+   */
+  private fromSignedBaseUnits(value: string, decimals: number): string {
+    const converted = AmountFormatter.fromBaseUnits(value.replace(/^-/, ''), decimals);
+    return value.startsWith('-') ? `-${converted}` : converted;
+  }
+
+  /**
+   * Save overrides to local storage
+   *
+   * @param overrides - Overrides by denom
+   */
+  private save(overrides: Record<string, DenomOverride>): void {
+    localStorage.setItem(this.storageKey, JSON.stringify(overrides));
+    this.overrides = overrides;
+  }
+}
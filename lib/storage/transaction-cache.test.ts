@@ -0,0 +1,282 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for TransactionCache
+ *
+ * An in-memory IndexedDB (fake-indexeddb) stands in for the browser's, so
+ * the stores, high-water sync, re-parsing and clearing run against real
+ * IndexedDB semantics.
+ */
+
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import { PartialFetchError } from '../blockchain/errors';
+import type { BlockchainClient, RawTransaction, Transaction, TransactionPage } from '../blockchain/types';
+import { TransactionCache } from './transaction-cache';
+
+const ADDRESS = 'osmo1qypqxpq9qcrsszg2pvxq6rs0zqg3yyc5lzv7xu';
+
+function makeTx(hash: string, height: number, overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    hash,
+    timestamp: new Date(Date.UTC(2024, 0, 1) + height * 60000),
+    type: 'transfer',
+    status: 'success',
+    amounts: [],
+    legs: [],
+    fee: { value: '0.005', denom: 'uosmo', symbol: 'OSMO' },
+    ...overrides,
+  };
+}
+
+function makeRaw(hash: string, height: number): RawTransaction {
+  return { hash, height, timestamp: new Date(Date.UTC(2024, 0, 1) + height * 60000), data: { hash } };
+}
+
+function makePage(...entries: Array<[string, number]>): TransactionPage {
+  return {
+    transactions: entries.map(([hash, height]) => makeTx(hash, height)),
+    raw: entries.map(([hash, height]) => makeRaw(hash, height)),
+  };
+}
+
+/**
+ * A client whose stream yields the given pages, then fails if a failure is given
+ */
+function makeClient(pages: TransactionPage[], failure?: Error) {
+  return {
+    chainId: 'osmosis-1',
+    parserVersion: 1,
+    streamTransactions: jest.fn(async function* () {
+      yield* pages;
+      if (failure) {
+        throw failure;
+      }
+    }),
+    parseRawTransaction: jest.fn((raw: RawTransaction) => makeTx(raw.hash, raw.height, { memo: 'reparsed' })),
+    resolveTransactions: jest.fn().mockResolvedValue(false),
+  } as unknown as BlockchainClient & {
+    parserVersion: number;
+    streamTransactions: jest.Mock;
+    parseRawTransaction: jest.Mock;
+    resolveTransactions: jest.Mock;
+  };
+}
+
+async function drain(stream: AsyncIterable<TransactionPage>): Promise<TransactionPage[]> {
+  const pages: TransactionPage[] = [];
+  for await (const page of stream) {
+    pages.push(page);
+  }
+  return pages;
+}
+
+describe('TransactionCache', () => {
+  let cache: TransactionCache;
+
+  beforeEach(() => {
+    // A fresh database for every test
+    global.indexedDB = new IDBFactory();
+    global.IDBKeyRange = IDBKeyRange;
+    cache = new TransactionCache();
+  });
+
+  describe('sync', () => {
+    it('should write streamed pages and advance the high-water height once complete', async () => {
+      const client = makeClient([makePage(['A', 10], ['B', 20]), makePage(['C', 30])]);
+
+      const pages = await drain(cache.sync(client, ADDRESS));
+
+      expect(pages.map(page => page.transactions.map(tx => tx.hash))).toEqual([['A', 'B'], ['C']]);
+      expect(await cache.getWallet('osmosis-1', ADDRESS)).toMatchObject({
+        key: `osmosis-1:${ADDRESS}`,
+        highWaterHeight: 30,
+        maxHeight: 30,
+        parserVersion: 1,
+      });
+    });
+
+    it('should replay the cache, then only stream blocks above the high-water height', async () => {
+      await drain(cache.sync(makeClient([makePage(['B', 20], ['A', 10])]), ADDRESS));
+
+      const client = makeClient([makePage(['C', 30])]);
+      const pages = await drain(cache.sync(client, ADDRESS));
+
+      expect(pages[0]).toEqual({ transactions: [makeTx('A', 10), makeTx('B', 20)], raw: [] });
+      expect(pages[1].transactions.map(tx => tx.hash)).toEqual(['C']);
+      expect(client.streamTransactions).toHaveBeenCalledWith(ADDRESS, expect.objectContaining({ minHeight: 20 }));
+      expect((await cache.getWallet('osmosis-1', ADDRESS))?.highWaterHeight).toBe(30);
+    });
+
+    it('should keep the high-water height when a sync is interrupted', async () => {
+      await drain(cache.sync(makeClient([makePage(['A', 10])]), ADDRESS));
+
+      const failure = new PartialFetchError('cursor', 1, new Error('Bad status on response: 503'));
+      const client = makeClient([makePage(['B', 20])], failure);
+
+      await expect(drain(cache.sync(client, ADDRESS))).rejects.toBe(failure);
+
+      // The page that arrived is kept, but the gap above it isn't hidden
+      expect(await cache.getWallet('osmosis-1', ADDRESS)).toMatchObject({ highWaterHeight: 10, maxHeight: 20 });
+      const cached = await cache.getTransactions(client, (await cache.getWallet('osmosis-1', ADDRESS))!);
+      expect(cached.map(tx => tx.hash)).toEqual(['A', 'B']);
+    });
+
+    it('should resume from a cursor without replaying the cache', async () => {
+      await drain(cache.sync(makeClient([makePage(['A', 10])]), ADDRESS));
+
+      const client = makeClient([makePage(['B', 20])]);
+      const pages = await drain(cache.sync(client, ADDRESS, { cursor: 'resume-here' }));
+
+      expect(pages.map(page => page.transactions.map(tx => tx.hash))).toEqual([['B']]);
+      expect(client.streamTransactions).toHaveBeenCalledWith(ADDRESS, expect.objectContaining({ cursor: 'resume-here' }));
+    });
+
+    it('should settle a cached pending deposit once its proposal has ended', async () => {
+      const deposit = (outcome: 'pending' | 'refunded') => makeTx('A', 10, {
+        type: 'deposit',
+        legs: [{
+          type: 'deposit',
+          amounts: [{ value: '10', denom: 'uosmo', symbol: 'OSMO' }],
+          source: 'message',
+          governance: { proposalId: '1', depositOutcome: outcome },
+        }],
+      });
+      await drain(cache.sync(makeClient([{ transactions: [deposit('pending')], raw: [makeRaw('A', 10)] }]), ADDRESS));
+
+      // The proposal has ended since, so the lookup settles the deposit
+      const client = makeClient([]);
+      client.resolveTransactions.mockResolvedValue(true);
+      client.parseRawTransaction.mockReturnValue(deposit('refunded'));
+      const pages = await drain(cache.sync(client, ADDRESS));
+
+      expect(client.resolveTransactions).toHaveBeenCalledWith([deposit('pending')], undefined);
+      expect(pages[0].transactions[0].legs[0].governance?.depositOutcome).toBe('refunded');
+
+      // The settled deposit is written back, so it isn't looked up again
+      const settled = makeClient([]);
+      await drain(cache.sync(settled, ADDRESS));
+      expect(settled.resolveTransactions).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a plain stream when the database fails', async () => {
+      jest.spyOn(indexedDB, 'open').mockImplementation(() => {
+        throw new Error('The operation is insecure');
+      });
+      const client = makeClient([makePage(['A', 10])]);
+
+      const pages = await drain(cache.sync(client, ADDRESS));
+
+      expect(pages.map(page => page.transactions.map(tx => tx.hash))).toEqual([['A']]);
+      expect(client.streamTransactions).toHaveBeenCalledWith(ADDRESS, expect.objectContaining({ minHeight: undefined }));
+    });
+  });
+
+  describe('getTransactions', () => {
+    it('should re-parse every cached transaction after a parser upgrade', async () => {
+      await drain(cache.sync(makeClient([makePage(['A', 10], ['B', 20])]), ADDRESS));
+
+      const upgraded = makeClient([]);
+      upgraded.parserVersion = 2;
+      const wallet = (await cache.getWallet('osmosis-1', ADDRESS))!;
+      const transactions = await cache.getTransactions(upgraded, wallet);
+
+      expect(upgraded.parseRawTransaction).toHaveBeenCalledTimes(2);
+      expect(upgraded.parseRawTransaction).toHaveBeenCalledWith(makeRaw('A', 10), ADDRESS);
+      expect(transactions.map(tx => tx.memo)).toEqual(['reparsed', 'reparsed']);
+
+      // The re-parsed rows and version are written back, so the next read doesn't repeat it
+      const reread = await cache.getTransactions(upgraded, (await cache.getWallet('osmosis-1', ADDRESS))!);
+      expect(upgraded.parseRawTransaction).toHaveBeenCalledTimes(2);
+      expect(reread.map(tx => tx.memo)).toEqual(['reparsed', 'reparsed']);
+    });
+
+    it('should look unsettled transactions up again and re-parse those that resolved', async () => {
+      const page = makePage(['A', 10], ['B', 20], ['C', 30], ['D', 40]);
+      page.transactions[1].fee = { value: '5000', denom: 'factory/osmo1x/coin', symbol: 'COIN', unresolved: true };
+      page.transactions[2].legs = [{
+        type: 'deposit',
+        amounts: [{ value: '10', denom: 'uosmo', symbol: 'OSMO' }],
+        source: 'message',
+        governance: { proposalId: '1', depositOutcome: 'pending' },
+      }];
+      page.transactions[3].legs = [{
+        type: 'execute_contract',
+        amounts: [],
+        source: 'message',
+        contract: { address: 'osmo1contract' },
+      }];
+      const client = makeClient([page]);
+      await drain(cache.sync(client, ADDRESS));
+      client.resolveTransactions.mockResolvedValue(true);
+
+      const wallet = (await cache.getWallet('osmosis-1', ADDRESS))!;
+      const transactions = await cache.getTransactions(client, wallet);
+
+      expect(client.resolveTransactions).toHaveBeenCalledWith(page.transactions.slice(1), undefined);
+      const reparsed = client.parseRawTransaction.mock.calls.map(([raw]) => raw.hash);
+      expect(reparsed.sort()).toEqual(['B', 'C', 'D']);
+      expect(transactions.map(tx => tx.memo)).toEqual([undefined, 'reparsed', 'reparsed', 'reparsed']);
+    });
+
+    it('should resolve a token whose lookup failed on a later load', async () => {
+      const page = makePage(['A', 10], ['B', 20]);
+      page.transactions[1].fee = { value: '5000', denom: 'factory/osmo1x/coin', symbol: 'COIN', unresolved: true };
+      const client = makeClient([page]);
+      await drain(cache.sync(client, ADDRESS));
+      const wallet = (await cache.getWallet('osmosis-1', ADDRESS))!;
+
+      // Nothing resolves, so nothing is re-parsed or written back
+      const unchanged = await cache.getTransactions(client, wallet);
+      expect(client.resolveTransactions).toHaveBeenCalledWith([page.transactions[1]], undefined);
+      expect(client.parseRawTransaction).not.toHaveBeenCalled();
+      expect(unchanged[1].fee.unresolved).toBe(true);
+      expect((await cache.getWallet('osmosis-1', ADDRESS))!.updatedAt).toEqual(wallet.updatedAt);
+
+      client.resolveTransactions.mockResolvedValue(true);
+      const resolved = await cache.getTransactions(client, wallet);
+
+      expect(client.resolveTransactions).toHaveBeenCalledTimes(2);
+      expect(client.parseRawTransaction.mock.calls.map(([raw]) => raw.hash)).toEqual(['B']);
+      expect(resolved.map(tx => tx.memo)).toEqual([undefined, 'reparsed']);
+    });
+
+    it('should re-parse transactions holding denoms whose decimals changed', async () => {
+      const page = makePage(['A', 10], ['B', 20]);
+      page.transactions[1].legs = [{
+        type: 'transfer',
+        amounts: [{ value: '2.5', denom: 'factory/osmo1x/coin', symbol: 'COIN' }],
+        source: 'message',
+      }];
+      const client = makeClient([]);
+      await drain(cache.sync(makeClient([page]), ADDRESS));
+
+      const pages = await drain(cache.sync(client, ADDRESS, { reparseDenoms: ['factory/osmo1x/coin'] }));
+
+      expect(client.parseRawTransaction.mock.calls.map(([raw]) => raw.hash)).toEqual(['B']);
+      expect(pages[0].transactions.map(tx => tx.memo)).toEqual([undefined, 'reparsed']);
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove only the given wallet', async () => {
+      // An address that extends the other one must survive the key range
+      const other = `${ADDRESS}x`;
+      await drain(cache.sync(makeClient([makePage(['A', 10])]), ADDRESS));
+      await drain(cache.sync(makeClient([makePage(['B', 20])]), other));
+
+      await cache.clear('osmosis-1', ADDRESS);
+
+      expect(await cache.getWallet('osmosis-1', ADDRESS)).toBeUndefined();
+
+      const client = makeClient([]);
+      const remaining = await cache.getTransactions(client, (await cache.getWallet('osmosis-1', other))!);
+      expect(remaining.map(tx => tx.hash)).toEqual(['B']);
+
+      // Syncing the cleared wallet again starts from scratch
+      const pages = await drain(cache.sync(makeClient([makePage(['A', 10])]), ADDRESS));
+      expect(pages).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Transaction cache backed by IndexedDB
+ *
+ * Keeps parsed transactions and the raw responses they were parsed from,
+ * keyed by chain and address, together with the block height up to which
+ * the cached history is complete. Revisiting a wallet then only fetches
+ * blocks above that height, and a parser upgrade re-parses the cached raw
+ * responses instead of refetching them.
+ *
+ * Requirements: 2.1, 2.2 - Transaction fetching with pagination
+ */
+
+import type {
+  BlockchainClient,
+  RawTransaction,
+  Transaction,
+  TransactionPage,
+} from '../blockchain/types';
+
+/**
+ * Sync state of a cached wallet
+ */
+export interface CachedWallet {
+  /** Cache key ("<chainId>:<address>") */
+  key: string;
+
+  chainId: string;
+
+  address: string;
+
+  /** Height up to which the cached history is complete (unset until a sync completes) */
+  highWaterHeight?: number;
+
+  /** Highest block height of any cached transaction */
+  maxHeight: number;
+
+  /** Parser version the cached transactions were parsed with */
+  parserVersion: number;
+
+  /** When the cache was last written */
+  updatedAt: Date;
+}
+
+/**
+ * A cached transaction with the raw response it was parsed from
+ */
+interface CachedTransactionRecord {
+  walletKey: string;
+  hash: string;
+  raw: RawTransaction;
+  transaction: Transaction;
+}
+
+/**
+ * Options for syncing a wallet
+ */
+export interface SyncOptions {
+  /** Resume an interrupted sync from a PartialFetchError cursor */
+  cursor?: string;
+
+  /** Cancels the sync; cached pages already written are kept */
+  signal?: AbortSignal;
+
+  /** Denoms whose decimals changed (e.g. by a user override); cached transactions holding them are re-parsed */
+  reparseDenoms?: string[];
+}
+
+const WALLETS_STORE = 'wallets';
+const TRANSACTIONS_STORE = 'transactions';
+
+/**
+ * TransactionCache class
+ *
+ * Wraps the IndexedDB database and combines it with a BlockchainClient to
+ * sync a wallet's history incrementally.
+ */
+export class TransactionCache {
+  private databaseName = 'osmosis-transaction-cache';
+  private databaseVersion = 1;
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Check whether IndexedDB is available (it isn't during SSR)
+   *
+   * @returns true if the cache can be used
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Sync a wallet's history, yielding cached transactions first
+   *
+   * Yields the cached history as one page (re-parsed first if the parser
+   * or the decimals of a denom changed, or if lookups it lacked now
+   * succeed), then streams only blocks above the stored high-water height,
+   * writing each page to the cache as it arrives. The high-water height
+   * only advances once the stream completes, so an interrupted sync never
+   * hides a gap. Falls back to a plain stream when the cache is unavailable;
+   * cache errors never fail the sync.
+   *
+   * @param client - Client for the wallet's chain
+   * @param address - The wallet address
+   * @param options - Optional resume cursor, abort signal and denoms to re-parse
+   * @returns Async iterable of transaction pages
+   */
+  async *sync(
+    client: BlockchainClient,
+    address: string,
+    options: SyncOptions = {}
+  ): AsyncGenerator<TransactionPage> {
+    const { cursor, signal, reparseDenoms } = options;
+    let wallet: CachedWallet | undefined;
+
+    try {
+      if (this.isAvailable()) {
+        wallet = await this.getWallet(client.chainId, address);
+
+        // A resumed sync keeps the rows already shown; only a fresh one replays the cache
+        if (!cursor && wallet) {
+          const transactions = await this.getTransactions(client, wallet, reparseDenoms, signal);
+          if (transactions.length > 0) {
+            yield { transactions, raw: [] };
+          }
+        }
+      }
+    } catch {
+      // An unreadable cache (e.g. blocked by private browsing) falls back to a full fetch
+      wallet = undefined;
+    }
+
+    const cacheable = this.isAvailable();
+    const stream = client.streamTransactions(address, {
+      cursor,
+      signal,
+      minHeight: wallet?.highWaterHeight,
+    });
+
+    for await (const page of stream) {
+      if (cacheable) {
+        try {
+          await this.putPage(client, address, page);
+        } catch {
+          // A failed write only costs a refetch on the next visit
+        }
+      }
+
+      yield page;
+    }
+
+    if (cacheable) {
+      try {
+        await this.markComplete(client, address);
+      } catch {
+        // The high-water height stays put, so the next sync fetches these blocks again
+      }
+    }
+  }
+
+  /**
+   * Get the sync state of a cached wallet
+   *
+   * @param chainId - Chain identifier
+   * @param address - The wallet address
+   * @returns Cached wallet, or undefined if the wallet was never synced
+   */
+  async getWallet(chainId: string, address: string): Promise<CachedWallet | undefined> {
+    const db = await this.open();
+    const store = db.transaction(WALLETS_STORE, 'readonly').objectStore(WALLETS_STORE);
+    return this.request<CachedWallet | undefined>(store.get(this.walletKey(chainId, address)));
+  }
+
+  /**
+   * Get a wallet's cached transactions, ordered by time
+   *
+   * Transactions parsed by an older parser version, or holding any of the
+   * given denoms, are re-parsed from their raw responses. Those holding
+   * tokens that were unresolved when they were parsed, governance deposits
+   * whose outcome wasn't known yet or contract executions whose code ID
+   * wasn't known yet have the client look them up again, and are re-parsed
+   * if that resolved anything. Only re-parsed transactions are written back.
+   *
+   * @param client - Client used to resolve and re-parse raw transactions
+   * @param wallet - Cached wallet
+   * @param reparseDenoms - Denoms whose transactions are re-parsed regardless
+   * @param signal - Optional abort signal for the lookups
+   * @returns Cached transactions
+   */
+  async getTransactions(
+    client: BlockchainClient,
+    wallet: CachedWallet,
+    reparseDenoms: string[] = [],
+    signal?: AbortSignal
+  ): Promise<Transaction[]> {
+    const db = await this.open();
+    const store = db.transaction(TRANSACTIONS_STORE, 'readonly').objectStore(TRANSACTIONS_STORE);
+    let records = await this.request<CachedTransactionRecord[]>(
+      store.index('walletKey').getAll(wallet.key)
+    );
+
+    const outdated = wallet.parserVersion !== client.parserVersion;
+    const rewritten = new Map<string, CachedTransactionRecord>();
+    const reparse = (record: CachedTransactionRecord): CachedTransactionRecord => {
+      const reparsed = { ...record, transaction: client.parseRawTransaction(record.raw, wallet.address) };
+      rewritten.set(record.hash, reparsed);
+      return reparsed;
+    };
+
+    records = records.map(record => (
+      outdated || this.holdsDenoms(record.transaction, reparseDenoms) ? reparse(record) : record
+    ));
+
+    const unsettled = new Set(records.filter(record => (
+      this.hasUnresolvedAmounts(record.transaction)
+      || this.hasPendingDeposits(record.transaction)
+      || this.hasUnknownContracts(record.transaction)
+    )));
+    const transactions = Array.from(unsettled, record => record.transaction);
+    if (unsettled.size > 0 && await client.resolveTransactions(transactions, signal)) {
+      records = records.map(record => (unsettled.has(record) ? reparse(record) : record));
+    }
+
+    if (rewritten.size > 0 || outdated) {
+      await this.write(Array.from(rewritten.values()), {
+        ...wallet,
+        parserVersion: client.parserVersion,
+        updatedAt: new Date(),
+      });
+    }
+
+    return records
+      .map(record => record.transaction)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  /**
+   * Remove a wallet's cached transactions and sync state
+   *
+   * @param chainId - Chain identifier
+   * @param address - The wallet address
+   */
+  async clear(chainId: string, address: string): Promise<void> {
+    const db = await this.open();
+    const key = this.walletKey(chainId, address);
+    const tx = db.transaction([WALLETS_STORE, TRANSACTIONS_STORE], 'readwrite');
+
+    tx.objectStore(WALLETS_STORE).delete(key);
+    // Records are keyed [walletKey, hash]; arrays sort after strings, so this
+    // range covers every hash under the wallet
+    tx.objectStore(TRANSACTIONS_STORE).delete(IDBKeyRange.bound([key], [key, []]));
+
+    await this.complete(tx);
+  }
+
+  /**
+   * Check whether a cached transaction holds amounts of unresolved tokens
+   *
+   * @param transaction - Cached transaction
+   * @returns true if re-parsing might resolve them
+   */
+  private hasUnresolvedAmounts(transaction: Transaction): boolean {
+    return transaction.fee.unresolved === true
+      || transaction.legs.some(leg => leg.amounts.some(amount => amount.unresolved));
+  }
+
+  /**
+   * Check whether a cached transaction moved any of the given denoms
+   *
+   * @param transaction - Cached transaction
+   * @param denoms - Token denominations
+   * @returns true if its amounts were converted with the denoms' old decimals
+   */
+  private holdsDenoms(transaction: Transaction, denoms: string[]): boolean {
+    return denoms.length > 0 && [
+      transaction.fee,
+      ...transaction.legs.flatMap(leg => leg.amounts),
+      ...(transaction.balanceChanges ?? []),
+    ].some(amount => denoms.includes(amount.denom));
+  }
+
+  /**
+   * Check whether a cached transaction holds governance deposits whose outcome isn't known
+   *
+   * @param transaction - Cached transaction
+   * @returns true if re-parsing might settle them
+   */
+  private hasPendingDeposits(transaction: Transaction): boolean {
+    return transaction.legs.some(leg => (
+      leg.governance !== undefined
+      && leg.amounts.length > 0
+      && (leg.governance.depositOutcome === undefined || leg.governance.depositOutcome === 'pending')
+    ));
+  }
+
+  /**
+   * Check whether a cached transaction executed contracts whose code ID isn't known
+   *
+   * @param transaction - Cached transaction
+   * @returns true if re-parsing might match them to an adapter by code ID
+   */
+  private hasUnknownContracts(transaction: Transaction): boolean {
+    return transaction.legs.some(leg => leg.contract !== undefined && leg.contract.codeId === undefined);
+  }
+
+  /**
+   * Write a streamed page to the cache
+   *
+   * @param client - Client the page came from
+   * @param address - The wallet address
+   * @param page - Transaction page with its raw responses
+   */
+  private async putPage(client: BlockchainClient, address: string, page: TransactionPage): Promise<void> {
+    const key = this.walletKey(client.chainId, address);
+    const wallet = await this.getWallet(client.chainId, address);
+    const byHash = new Map(page.transactions.map(tx => [tx.hash, tx]));
+
+    const records: CachedTransactionRecord[] = page.raw
+      .filter(raw => byHash.has(raw.hash))
+      .map(raw => ({ walletKey: key, hash: raw.hash, raw, transaction: byHash.get(raw.hash)! }));
+
+    const maxHeight = Math.max(wallet?.maxHeight ?? 0, ...page.raw.map(raw => raw.height));
+
+    await this.write(records, {
+      key,
+      chainId: client.chainId,
+      address,
+      highWaterHeight: wallet?.highWaterHeight,
+      maxHeight,
+      parserVersion: client.parserVersion,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Advance the high-water height after a sync completes
+   *
+   * @param client - Client the sync ran with
+   * @param address - The wallet address
+   */
+  private async markComplete(client: BlockchainClient, address: string): Promise<void> {
+    const wallet = await this.getWallet(client.chainId, address);
+
+    await this.write([], {
+      key: this.walletKey(client.chainId, address),
+      chainId: client.chainId,
+      address,
+      highWaterHeight: wallet?.maxHeight ?? 0,
+      maxHeight: wallet?.maxHeight ?? 0,
+      parserVersion: wallet?.parserVersion ?? client.parserVersion,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Write transaction records and wallet state in one IndexedDB transaction
+   *
+   * @param records - Transaction records to put
+   * @param wallet - Wallet state to put
+   */
+  private async write(records: CachedTransactionRecord[], wallet: CachedWallet): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([WALLETS_STORE, TRANSACTIONS_STORE], 'readwrite');
+
+    const transactions = tx.objectStore(TRANSACTIONS_STORE);
+    records.forEach(record => transactions.put(record));
+    tx.objectStore(WALLETS_STORE).put(wallet);
+
+    await this.complete(tx);
+  }
+
+  /**
+   * Open the database, creating its stores on first use
+   *
+   * @returns Open database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.databaseName, this.databaseVersion);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(WALLETS_STORE, { keyPath: 'key' });
+        db.createObjectStore(TRANSACTIONS_STORE, { keyPath: ['walletKey', 'hash'] })
+          .createIndex('walletKey', 'walletKey');
+      };
+
+      this.database = this.request(request);
+
+      // Don't keep a failed open, so the next call retries
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+
+  /**
+   * Wrap an IndexedDB request in a promise
+   *
+   * @param request - IndexedDB request
+   * @returns Promise resolving to the request result
+   */
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Wait for an IndexedDB transaction to commit
+   *
+   * @param tx - IndexedDB transaction
+   */
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Build the cache key for a wallet
+   *
+   * @param chainId - Chain identifier
+   * @param address - The wallet address
+   * @returns Cache key
+   */
+  private walletKey(chainId: string, address: string): string {
+    return `${chainId}:${address}`;
+  }
+}
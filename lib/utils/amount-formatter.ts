@@ -80,7 +80,7 @@ export class AmountFormatter {
    */
   static fromBaseUnits(baseUnits: string, decimals: number): string {
     const numValue = BigInt(baseUnits);
-    const divisor = BigInt(10 ** decimals);
+    const divisor = BigInt(10) ** BigInt(decimals);
     
     const integerPart = numValue / divisor;
     const fractionalPart = numValue % divisor;
@@ -152,6 +152,39 @@ export class AmountFormatter {
     };
   }
 
+  /**
+   * Total amounts per denomination without losing precision
+   * 
+   * Requirements: 13.3 - Decimal precision preservation
+   * 
+   * @param amounts - Amounts in any denominations
+   * @returns One amount per denomination, in order of first appearance
+   */
+  static sumByDenom(amounts: Amount[]): Amount[] {
+    const byDenom = new Map<string, Amount[]>();
+    for (const amount of amounts) {
+      byDenom.set(amount.denom, [...(byDenom.get(amount.denom) || []), amount]);
+    }
+
+    return Array.from(byDenom.values()).map(group => {
+      const decimals = Math.max(...group.map(amount => this.getDecimalPlaces(amount.value)));
+      const total = group.reduce(
+        (sum, amount) => sum + BigInt(this.toBaseUnits(amount.value, decimals)),
+        BigInt(0)
+      );
+
+      const sum: Amount = {
+        value: this.fromBaseUnits(total.toString(), decimals),
+        denom: group[0].denom,
+        symbol: group[0].symbol,
+      };
+      if (group[0].unresolved) {
+        sum.unresolved = true;
+      }
+      return sum;
+    });
+  }
+
   /**
    * Get the number of decimal places in a value
    * 